@@ -1,7 +1,8 @@
 /* @refresh reload */
 import { render } from 'solid-js/web'
-import { createSignal, createEffect, For, Show, onMount } from 'solid-js'
+import { createSignal, createEffect, For, Show, onMount, onCleanup, type JSX } from 'solid-js'
 import { MCPPanel } from './MCPPanel'
+import { JobsPanel, describeJobStatus, type JobOutput, type JobSummary } from './JobsPanel'
 
 // Prompt suffix for parallel task execution
 const PARALLEL_PROMPT = `
@@ -12,6 +13,9 @@ interface Message {
   role: 'user' | 'assistant'
   content: string
   toolCalls?: ToolCall[]
+  interrupted?: boolean
+  turnId?: string  // Checkpoint of the files this turn changed
+  hitMaxIterations?: boolean  // Paused at the iteration limit - can be continued
 }
 
 interface ToolCall {
@@ -27,6 +31,23 @@ interface ToolCall {
   }
 }
 
+// A grep match or glob result - the data of 'search' tool details
+interface SearchMatch {
+  path: string
+  line?: number
+  match?: string
+}
+
+// An entry of a list_directory result - the data of 'tree' tool details
+interface TreeEntry {
+  name: string
+  path: string
+  type: 'file' | 'directory' | 'symlink'
+  size?: number
+  entryCount?: number
+  children?: TreeEntry[]
+}
+
 interface SessionSummary {
   id: string
   name?: string
@@ -46,7 +67,9 @@ interface ModelInfo {
 }
 
 // Subagent types
-type SubagentRole = 'simple' | 'complex' | 'researcher'
+// Built-in roles are simple, complex and researcher; projects can define more
+type SubagentRole = string
+type SubagentIsolation = 'shared' | 'worktree'
 
 interface SubagentTask {
   id: string
@@ -55,49 +78,198 @@ interface SubagentTask {
   context?: string
   provider?: string
   model?: string
+  isolation?: SubagentIsolation
+  dependsOn?: string[]  // Task IDs that must complete first
+  outputSchema?: Record<string, unknown>  // JSON schema for the report's output
+}
+
+// Changes a worktree-isolated subagent made, waiting for review
+interface WorktreeChanges {
+  path: string
+  branch: string
+  baseCommit: string
+  files: { path: string; status: string }[]
+  patch: string
+}
+
+// What a subagent reported back when it finished
+interface SubagentReport {
+  status: 'success' | 'partial' | 'failed'
+  summary: string
+  commands: { command: string; exitCode: number | null }[]
+  openQuestions: string[]
+  output?: unknown  // JSON matching the task's outputSchema
+}
+
+// A file a subagent created, modified or deleted
+interface SubagentFileChange {
+  path: string
+  status: 'added' | 'modified' | 'deleted'
+  diff: string
 }
 
 interface SubagentResult {
   taskId: string
   task: SubagentTask
   summary: string
+  report?: SubagentReport  // Once completed
+  changes?: SubagentFileChange[]  // Files it changed, once completed
   fullHistory: Message[]
-  status: 'running' | 'completed' | 'error' | 'cancelled' | 'max_iterations'
+  status: 'queued' | 'running' | 'completed' | 'error' | 'cancelled' | 'max_iterations' | 'timeout'
   error?: string
   iterations?: number
+  queuePosition?: number  // While queued - place in line for a free slot
+  timeout?: number        // Seconds, if it timed out
+  usage?: UsageTotals
+  worktree?: WorktreeChanges  // Unmerged changes, if it ran in a worktree
+  parentTaskId?: string  // The subagent that started this one, if nested
+  stopReason?: string    // Why it was stopped, if not by the user
+  inbox?: SubagentInboxMessage[]  // Messages sent to it while running
   // Live progress tracking
   currentText?: string
   currentTools?: Map<string, ToolCall>
   parentMessageIndex?: number  // NEW: Index of the message that spawned this subagent
 }
 
+// A message for a running subagent - it reads it before its next step
+interface SubagentInboxMessage {
+  text: string
+  from: string
+  delivered: boolean
+}
+
+// Entry in the scratchpad the subagents of a session share
+interface ScratchpadEntry {
+  id: number
+  taskId: string
+  author: string
+  text: string
+  createdAt: string
+}
+
 interface PendingConfirmation {
   requestId: string
   tasks: SubagentTask[]
 }
 
+type ApprovalDecision = 'once' | 'session' | 'always' | 'deny'
+
+interface PermissionRule {
+  tool: string
+  pattern?: string
+  action: 'allow' | 'ask' | 'deny'
+}
+
+// One of the budgets in config.json and how much of it is used
+interface BudgetUsage {
+  scope: 'turn' | 'session' | 'daily'
+  unit: 'tokens' | 'cost'
+  limit: number
+  used: number
+}
+
+// The turn passed the warning threshold of a budget and waits for the user
+interface PendingBudgetWarning {
+  requestId: string
+  budget: BudgetUsage
+}
+
+interface PendingApproval {
+  requestId: string
+  toolId: string
+  toolName: string
+  input: Record<string, unknown>
+  rule: PermissionRule
+  taskId?: string
+}
+
+// File checkpoints - what each turn changed, for undo
+interface CheckpointFile {
+  path: string
+  existed: boolean
+  restoredAt?: string
+}
+
+interface Checkpoint {
+  turnId: string
+  files: CheckpointFile[]
+  restoredAt?: string
+}
+
+// Plan mode types
+type SessionMode = 'plan' | 'execute'
+
+interface PlanStep {
+  id: string
+  text: string
+  included?: boolean  // Unchecked steps are left out when the plan is approved
+}
+
+interface Plan {
+  id: string
+  summary: string
+  steps: PlanStep[]
+  status: 'proposed' | 'approved'
+  createdAt: string
+  approvedAt?: string
+}
+
 // Configuration types
 interface MainChatConfig {
   provider: string
   model: string
+  maxIterations?: number
 }
 
 interface RoleConfig {
+  description?: string
+  prompt?: string
   provider: string
   model: string
   maxIterations: number
+  tools?: string[]
+  isolation?: SubagentIsolation
+  source?: string  // File in .agent/roles/ that defines the role
 }
 
 interface SubagentConfig {
   confirmMode: 'always' | 'never' | 'multiple'
   timeout: number
   maxConcurrent: number
+  maxDepth: number
   roles: Record<SubagentRole, RoleConfig>
 }
 
+interface CompactionConfig {
+  enabled: boolean
+  threshold: number
+  keepRecentTurns: number
+  maxToolOutputChars: number
+}
+
+interface ToolConfig {
+  maxConcurrent: number
+  persistentShell: boolean
+}
+
 interface FullConfig {
   mainChat?: MainChatConfig
   subagents: SubagentConfig
+  compaction: CompactionConfig
+  tools: ToolConfig
+}
+
+interface ContextUsage {
+  usedTokens: number
+  contextWindow: number
+}
+
+// Token totals saved with a session
+interface SessionMetadata {
+  totalTokens: { input: number; output: number }
+  cost?: number
+  usageByRole?: Record<string, UsageTotals>
+  usageByModel?: Record<string, UsageTotals>
 }
 
 type AgentStatus = 'idle' | 'thinking' | 'executing' | 'error' | 'awaiting_confirmation'
@@ -141,6 +313,20 @@ const GRAPH_LAYOUT = {
 interface TokenUsage {
   input: number
   output: number
+  cost?: number  // Estimated, in dollars
+}
+
+// Tokens used, with the estimated cost if the model has a price
+interface UsageTotals {
+  inputTokens: number
+  outputTokens: number
+  cost?: number
+}
+
+// What the session's tokens went to - by role ("main" is the main agent) and by model
+interface SessionUsage {
+  byRole: Record<string, UsageTotals>
+  byModel: Record<string, UsageTotals>
 }
 
 interface SubagentTab {
@@ -203,6 +389,33 @@ function GraphView(props: {
     return edges
   }
 
+  // Render dependency arrows between visible subagents, curving out to the right
+  const renderDependencyEdges = (): JSX.Element[] => {
+    const subagentNodes = new Map(
+      collectAllNodes(props.nodes)
+        .filter(node => node.type === 'subagent-root' && node.subagentResult)
+        .map(node => [node.subagentResult!.taskId, node])
+    )
+
+    const edges: JSX.Element[] = []
+    for (const node of subagentNodes.values()) {
+      for (const dependencyId of node.subagentResult!.task.dependsOn ?? []) {
+        const dependency = subagentNodes.get(dependencyId)
+        if (!dependency) continue
+
+        const startX = dependency.x + GRAPH_LAYOUT.nodeWidth
+        const startY = dependency.y + GRAPH_LAYOUT.nodeHeight / 2
+        const endX = node.x + GRAPH_LAYOUT.nodeWidth
+        const endY = node.y + GRAPH_LAYOUT.nodeHeight / 2
+        const bulge = Math.max(startX, endX) + GRAPH_LAYOUT.horizontalGap
+        const path = `M ${startX} ${startY} C ${bulge} ${startY}, ${bulge} ${endY}, ${endX} ${endY}`
+
+        edges.push(<path class="graph-edge graph-edge-dependency" d={path} marker-end="url(#graph-dependency-arrow)" />)
+      }
+    }
+    return edges
+  }
+
   // Render a single node
   const renderNode = (node: GraphNode): Element => {
     const isToolNode = node.type === 'tool'
@@ -221,7 +434,7 @@ function GraphView(props: {
 
     return (
       <g
-        class={`graph-node graph-node-${node.type} ${node.isLive ? 'live' : ''} ${isSelected ? 'selected' : ''}`}
+        class={`graph-node graph-node-${node.type} ${node.subagentResult ? `status-${node.subagentResult.status}` : ''} ${node.isLive ? 'live' : ''} ${isSelected ? 'selected' : ''}`}
         transform={`translate(${node.x}, ${node.y})`}
         onClick={(e: MouseEvent) => {
           e.stopPropagation()
@@ -285,6 +498,17 @@ function GraphView(props: {
           </text>
         </Show>
 
+        {/* Tokens and cost of subagents */}
+        <Show when={isSubagentRoot && node.subagentResult?.usage}>
+          <text
+            class="graph-node-usage"
+            x={GRAPH_LAYOUT.nodeWidth - 8}
+            y={nodeHeight - 10}
+          >
+            {formatUsage(node.subagentResult!.usage!)}
+          </text>
+        </Show>
+
         {/* Live indicator */}
         <Show when={node.isLive}>
           <circle cx={GRAPH_LAYOUT.nodeWidth - 12} cy={12} r={4} fill="var(--yellow)">
@@ -315,11 +539,18 @@ function GraphView(props: {
       onClick={() => props.onSelectNode(null)}
     >
       <svg class="graph-svg" width={dimensions().width} height={dimensions().height}>
+        <defs>
+          <marker id="graph-dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path class="graph-dependency-arrow" d="M 0 0 L 10 5 L 0 10 z" />
+          </marker>
+        </defs>
+
         {/* Render edges first (behind nodes) */}
         <g class="graph-edges">
           <For each={props.nodes}>
             {(node) => renderEdges(node)}
           </For>
+          {renderDependencyEdges()}
         </g>
 
         {/* Render nodes */}
@@ -333,6 +564,327 @@ function GraphView(props: {
   )
 }
 
+function formatTokens(n: number): string {
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`
+  return n.toString()
+}
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`
+}
+
+function formatUsage(usage: UsageTotals): string {
+  const tokens = `${formatTokens(usage.inputTokens + usage.outputTokens)} tokens`
+  return usage.cost === undefined ? tokens : `${tokens} · ${formatCost(usage.cost)}`
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function describeBudget(budget: BudgetUsage): string {
+  const format = (n: number) => budget.unit === 'cost' ? formatCost(n) : `${formatTokens(n)} tokens`
+  const percent = Math.round((budget.used / budget.limit) * 100)
+  return `${percent}% of the ${budget.scope} ${budget.unit === 'cost' ? 'spend' : 'token'} budget (${format(budget.used)} of ${format(budget.limit)})`
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) return 'diff-meta'
+  if (line.startsWith('+')) return 'diff-add'
+  if (line.startsWith('-')) return 'diff-del'
+  if (line.startsWith('@@')) return 'diff-hunk'
+  return ''
+}
+
+// A directory listing - directories fold open and closed, other entries can be picked
+function TreeView(props: { entries: TreeEntry[]; onSelect: (path: string) => void }) {
+  return (
+    <For each={props.entries}>
+      {(entry) => <TreeNode entry={entry} onSelect={props.onSelect} />}
+    </For>
+  )
+}
+
+function countTreeEntries(entries: TreeEntry[]): number {
+  return entries.reduce((count, entry) => count + 1 + countTreeEntries(entry.children ?? []), 0)
+}
+
+function TreeNode(props: { entry: TreeEntry; onSelect: (path: string) => void }) {
+  const [open, setOpen] = createSignal(true)
+  const suffix = () => props.entry.type === 'directory' ? '/' : props.entry.type === 'symlink' ? '@' : ''
+
+  return (
+    <div class="tree-node">
+      <div
+        class="tree-row"
+        title={props.entry.children ? undefined : 'Add to message'}
+        onClick={() => props.entry.children ? setOpen(o => !o) : props.onSelect(props.entry.path)}
+      >
+        <span class="tree-toggle">{props.entry.children ? (open() ? '▾' : '▸') : ''}</span>
+        <span class={`tree-name tree-${props.entry.type}`}>{props.entry.name}{suffix()}</span>
+        <Show when={props.entry.size !== undefined}>
+          <span class="tree-meta">{formatBytes(props.entry.size!)}</span>
+        </Show>
+        <Show when={props.entry.entryCount !== undefined}>
+          <span class="tree-meta">{props.entry.entryCount} {props.entry.entryCount === 1 ? 'entry' : 'entries'}</span>
+        </Show>
+      </div>
+      <Show when={props.entry.children && open()}>
+        <div class="tree-children">
+          <TreeView entries={props.entry.children!} onSelect={props.onSelect} />
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+// Structured result of a completed subagent - commands, open questions, output
+function SubagentReportView(props: { report: SubagentReport }) {
+  return (
+    <div class="subagent-report">
+      <div class="subagent-report-header">
+        <span class={`report-status report-status-${props.report.status}`}>{props.report.status}</span>
+        <span>Report</span>
+      </div>
+      <div class="subagent-report-summary">{props.report.summary}</div>
+
+      <Show when={props.report.commands.length > 0}>
+        <div class="subagent-report-section">
+          <div class="subagent-report-label">Commands run</div>
+          <For each={props.report.commands}>
+            {(cmd) => (
+              <div class="subagent-report-command">
+                <code>{cmd.command}</code>
+                <span class={`report-exit ${cmd.exitCode === 0 ? 'ok' : 'failed'}`}>exit {cmd.exitCode ?? '?'}</span>
+              </div>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Show when={props.report.openQuestions.length > 0}>
+        <div class="subagent-report-section">
+          <div class="subagent-report-label">Open questions</div>
+          <ul class="subagent-report-questions">
+            <For each={props.report.openQuestions}>
+              {(question) => <li>{question}</li>}
+            </For>
+          </ul>
+        </div>
+      </Show>
+
+      <Show when={props.report.output !== undefined}>
+        <div class="subagent-report-section">
+          <div class="subagent-report-label">Output</div>
+          <pre class="subagent-report-output">{JSON.stringify(props.report.output, null, 2)}</pre>
+        </div>
+      </Show>
+    </div>
+  )
+}
+
+// Messages for a running subagent, and a box to send more
+function SubagentMessageBox(props: {
+  inbox: SubagentInboxMessage[]
+  onSend: (text: string) => Promise<boolean>
+}) {
+  const [text, setText] = createSignal('')
+  const [sending, setSending] = createSignal(false)
+
+  const send = async () => {
+    const message = text().trim()
+    if (!message) return
+    setSending(true)
+    try {
+      if (await props.onSend(message)) {
+        setText('')
+      }
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div class="subagent-message-box">
+      <For each={props.inbox}>
+        {(message) => (
+          <div class={`subagent-inbox-item ${message.delivered ? 'delivered' : 'waiting'}`}>
+            <span class="subagent-inbox-from">{message.from}</span>
+            <span class="subagent-inbox-text">{message.text}</span>
+            <span class="subagent-inbox-state">{message.delivered ? 'read' : 'waiting'}</span>
+          </div>
+        )}
+      </For>
+      <div class="subagent-message-input">
+        <input
+          type="text"
+          placeholder="Message this subagent - a correction, more context, or 'wrap up now'"
+          value={text()}
+          disabled={sending()}
+          onInput={(e) => setText(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') send()
+          }}
+        />
+        <button class="dialog-btn confirm" disabled={sending() || !text().trim()} onClick={send}>
+          Send
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Files a subagent changed, each with a collapsible diff
+function ChangesetView(props: { changes: SubagentFileChange[] }) {
+  const [openFiles, setOpenFiles] = createSignal<Set<string>>(new Set())
+
+  const toggle = (path: string) => {
+    setOpenFiles(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div class="changeset">
+      <div class="changeset-header">
+        <span>Files changed</span>
+        <span class="worktree-review-count">{props.changes.length} files</span>
+      </div>
+      <For each={props.changes}>
+        {(change) => (
+          <div class="changeset-file">
+            <div class="changeset-file-header" onClick={() => toggle(change.path)}>
+              <span class={`changeset-status status-${change.status}`}>{change.status}</span>
+              <span class="changeset-path">{change.path}</span>
+              <span class="expand-hint">{openFiles().has(change.path) ? 'Hide diff' : 'Show diff'}</span>
+            </div>
+            <Show when={openFiles().has(change.path)}>
+              <pre class="worktree-patch">
+                <For each={change.diff.split('\n')}>
+                  {(line) => <div class={diffLineClass(line)}>{line || ' '}</div>}
+                </For>
+              </pre>
+            </Show>
+          </div>
+        )}
+      </For>
+    </div>
+  )
+}
+
+// What the subagents of this session wrote to their shared scratchpad
+function ScratchpadView(props: { entries: ScratchpadEntry[] }) {
+  const [open, setOpen] = createSignal(true)
+
+  return (
+    <div class="scratchpad">
+      <div class="scratchpad-header" onClick={() => setOpen(o => !o)}>
+        <span>Shared scratchpad</span>
+        <span class="worktree-review-count">{props.entries.length} entries</span>
+        <span class="expand-hint">{open() ? 'Hide' : 'Show'}</span>
+      </div>
+      <Show when={open()}>
+        <For each={props.entries}>
+          {(entry) => (
+            <div class="scratchpad-entry">
+              <div class="scratchpad-entry-meta">
+                <span class="scratchpad-entry-id">#{entry.id}</span>
+                <span class="scratchpad-entry-author">{entry.author}</span>
+                <span class="scratchpad-entry-time">{new Date(entry.createdAt).toLocaleTimeString()}</span>
+              </div>
+              <div class="scratchpad-entry-text">{entry.text}</div>
+            </div>
+          )}
+        </For>
+      </Show>
+    </div>
+  )
+}
+
+// Review of a worktree subagent's changes - merge all, selected files, or discard
+function WorktreeReview(props: {
+  worktree: WorktreeChanges
+  onMerge: (files?: string[]) => Promise<void>
+  onDiscard: () => Promise<void>
+}) {
+  const [selected, setSelected] = createSignal<Set<string>>(new Set())
+  const [busy, setBusy] = createSignal(false)
+
+  const toggle = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+      setSelected(new Set<string>())
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div class="worktree-review">
+      <div class="worktree-review-header">
+        <span>Changes on <code>{props.worktree.branch}</code></span>
+        <span class="worktree-review-count">{props.worktree.files.length} files</span>
+      </div>
+      <div class="worktree-files">
+        <For each={props.worktree.files}>
+          {(file) => (
+            <label class="worktree-file">
+              <input
+                type="checkbox"
+                checked={selected().has(file.path)}
+                onChange={() => toggle(file.path)}
+              />
+              <span class={`worktree-file-status status-${file.status}`}>{file.status}</span>
+              <span class="worktree-file-path">{file.path}</span>
+            </label>
+          )}
+        </For>
+      </div>
+      <pre class="worktree-patch">
+        <For each={props.worktree.patch.split('\n')}>
+          {(line) => <div class={diffLineClass(line)}>{line || ' '}</div>}
+        </For>
+      </pre>
+      <div class="worktree-review-actions">
+        <button class="dialog-btn cancel" disabled={busy()} onClick={() => run(props.onDiscard)}>
+          Discard
+        </button>
+        <button
+          class="dialog-btn"
+          disabled={busy() || selected().size === 0}
+          onClick={() => run(() => props.onMerge(Array.from(selected())))}
+        >
+          Merge selected ({selected().size})
+        </button>
+        <button class="dialog-btn confirm" disabled={busy()} onClick={() => run(() => props.onMerge())}>
+          Merge all
+        </button>
+      </div>
+    </div>
+  )
+}
+
 // Node Detail Popup
 function GraphNodeDetail(props: {
   node: GraphNode
@@ -373,7 +925,8 @@ function GraphNodeDetail(props: {
           `[${msg.role.toUpperCase()}]\n${msg.content}${msg.toolCalls ? `\n\nTools: ${msg.toolCalls.map(t => t.name).join(', ')}` : ''}`
         ).join('\n\n---\n\n')
       }
-      return `Task: ${sa.task.description}\n\nStatus: ${sa.status}\n\nSummary:\n${sa.summary || '(running...)'}`
+      const usage = sa.usage ? `\n\nUsage: ${formatUsage(sa.usage)}` : ''
+      return `Task: ${sa.task.description}\n\nStatus: ${sa.status}${usage}\n\nSummary:\n${sa.summary || '(running...)'}`
     }
     return props.node.content || props.node.label
   }
@@ -425,7 +978,11 @@ function App() {
   const [messages, setMessages] = createSignal<Message[]>([])
   const [input, setInput] = createSignal('')
   const [status, setStatus] = createSignal<AgentStatus>('idle')
+  // Aborting this controller stops the current turn (server cancels on disconnect)
+  const [abortController, setAbortController] = createSignal<AbortController | null>(null)
   const [tokens, setTokens] = createSignal<TokenUsage>({ input: 0, output: 0 })
+  const [sessionUsage, setSessionUsage] = createSignal<SessionUsage | null>(null)
+  const [contextUsage, setContextUsage] = createSignal<ContextUsage | null>(null)
   const [currentAssistant, setCurrentAssistant] = createSignal('')
   const [currentTools, setCurrentTools] = createSignal<Map<string, ToolCall>>(new Map())
   const [collapsedTools, setCollapsedTools] = createSignal<Set<string>>(new Set())
@@ -441,8 +998,19 @@ function App() {
   const [loadingModels, setLoadingModels] = createSignal(false)
   // Subagent state
   const [pendingConfirmation, setPendingConfirmation] = createSignal<PendingConfirmation | null>(null)
+  // Tool approvals wait in a queue - parallel subagents can ask at the same time
+  const [pendingApprovals, setPendingApprovals] = createSignal<PendingApproval[]>([])
+  const [pendingBudgetWarning, setPendingBudgetWarning] = createSignal<PendingBudgetWarning | null>(null)
+  // Plan mode state
+  const [mode, setMode] = createSignal<SessionMode>('execute')
+  const [plan, setPlan] = createSignal<Plan | null>(null)
+  const [approvingPlan, setApprovingPlan] = createSignal(false)
+  // File checkpoints by turn ID
+  const [checkpoints, setCheckpoints] = createSignal<Map<string, Checkpoint>>(new Map())
+  const [undoingTurn, setUndoingTurn] = createSignal<string | null>(null)
   const [runningSubagents, setRunningSubagents] = createSignal<Map<string, SubagentResult>>(new Map())
   const [completedSubagents, setCompletedSubagents] = createSignal<SubagentResult[]>([])
+  const [scratchpadEntries, setScratchpadEntries] = createSignal<ScratchpadEntry[]>([])
   // Memoize running subagent IDs to prevent flickering - only update when IDs actually change
   const [runningSubagentIds, setRunningSubagentIds] = createSignal<string[]>([])
   const [expandedSubagentId, setExpandedSubagentId] = createSignal<string | null>(null)
@@ -465,6 +1033,10 @@ function App() {
   const [showGraphView, setShowGraphView] = createSignal(false)
   // MCP panel state
   const [showMCPPanel, setShowMCPPanel] = createSignal(false)
+  // Jobs panel state - the job to show first, and how many jobs are running
+  const [showJobsPanel, setShowJobsPanel] = createSignal(false)
+  const [jobsPanelJobId, setJobsPanelJobId] = createSignal<string | null>(null)
+  const [runningJobs, setRunningJobs] = createSignal(0)
   // Slash command autocomplete state
   const [commands, setCommands] = createSignal<{ name: string; description: string; argumentHint?: string }[]>([])
   const [showCommandAutocomplete, setShowCommandAutocomplete] = createSignal(false)
@@ -479,6 +1051,9 @@ function App() {
   let subagentMessagesEndRef: HTMLDivElement | undefined
   let graphContainerRef: HTMLDivElement | undefined
   let inputRef: HTMLInputElement | undefined
+  // Turn ID from the server, attached to the assistant message when the turn ends
+  let lastTurnId: string | undefined
+  let lastTurnHitLimit = false
   // Auto-scroll state for subagent views
   let subagentTabScrollRef: HTMLDivElement | undefined
   let subagentModalScrollRef: HTMLDivElement | undefined
@@ -487,6 +1062,11 @@ function App() {
 
   // Load sessions and providers on mount
   onMount(async () => {
+    // Keep the running count on the jobs button current
+    refreshRunningJobs()
+    const jobsInterval = setInterval(refreshRunningJobs, 5000)
+    onCleanup(() => clearInterval(jobsInterval))
+
     // Load config first, then providers (so we can use config defaults)
     await loadConfig()
     await Promise.all([loadSessions(), loadProviders(), loadCommands()])
@@ -709,7 +1289,9 @@ function App() {
         subagents: {
           ...currentConfig.subagents,
           roles: { ...currentConfig.subagents.roles }
-        }
+        },
+        compaction: { ...currentConfig.compaction },
+        tools: { ...currentConfig.tools }
       })
       // Pre-load models for all configured providers (main chat + subagent roles)
       const uniqueProviders = new Set([
@@ -728,11 +1310,22 @@ function App() {
           confirmMode: 'always',
           timeout: 120,
           maxConcurrent: 5,
+          maxDepth: 1,
           roles: {
             simple: { provider: 'anthropic', model: 'claude-3-5-haiku-20241022', maxIterations: 10 },
             complex: { provider: 'anthropic', model: 'claude-opus-4-5-20251101', maxIterations: 25 },
             researcher: { provider: 'anthropic', model: 'claude-sonnet-4-5-20250514', maxIterations: 15 }
           }
+        },
+        compaction: {
+          enabled: true,
+          threshold: 0.8,
+          keepRecentTurns: 4,
+          maxToolOutputChars: 2000
+        },
+        tools: {
+          maxConcurrent: 4,
+          persistentShell: false
         }
       })
     }
@@ -782,7 +1375,13 @@ function App() {
       const data = await res.json()
       setSessionId(data.session.id)
       setMessages([])
+      setScratchpadEntries([])
       setTokens({ input: 0, output: 0 })
+      setSessionUsage(null)
+      setContextUsage(null)
+      setMode('execute')
+      setPlan(null)
+      setCheckpoints(new Map())
       setShowSessions(false)
       await loadSessions()
     } catch (e) {
@@ -790,6 +1389,31 @@ function App() {
     }
   }
 
+  // Subagents' tokens are included - the session's breakdown arrives with session_updated
+  const addTurnUsage = (usage?: { total: UsageTotals }) => {
+    if (!usage) return
+    const { total } = usage
+    setTokens(prev => ({
+      input: prev.input + total.inputTokens,
+      output: prev.output + total.outputTokens,
+      cost: total.cost === undefined ? prev.cost : (prev.cost ?? 0) + total.cost
+    }))
+  }
+
+  const applySessionMetadata = (metadata?: SessionMetadata) => {
+    setTokens({ ...(metadata?.totalTokens || { input: 0, output: 0 }), cost: metadata?.cost })
+    setSessionUsage(metadata?.usageByRole ? { byRole: metadata.usageByRole, byModel: metadata.usageByModel ?? {} } : null)
+  }
+
+  // Tooltip of the header's token count
+  const usageBreakdownTitle = () => {
+    const usage = sessionUsage()
+    if (!usage) return undefined
+    const lines = (title: string, entries: Record<string, UsageTotals>) =>
+      [title, ...Object.entries(entries).map(([name, u]) => `  ${name}: ${formatUsage(u)}`)]
+    return [...lines('By role', usage.byRole), ...lines('By model', usage.byModel)].join('\n')
+  }
+
   const loadSession = async (id: string) => {
     try {
       const res = await fetch(`/api/sessions/${id}`)
@@ -797,14 +1421,58 @@ function App() {
       if (data.session) {
         setSessionId(data.session.id)
         setMessages(data.session.messages || [])
-        setTokens(data.session.metadata?.totalTokens || { input: 0, output: 0 })
+        applySessionMetadata(data.session.metadata)
+        setContextUsage(data.session.metadata?.contextUsage?.[selectedModel() || ''] || null)
+        setMode(data.session.mode || 'execute')
+        setPlan(data.session.plan || null)
+        setScratchpadEntries(data.session.scratchpad || [])
         setShowSessions(false)
+        await loadCheckpoints()
       }
     } catch (e) {
       console.error('Failed to load session:', e)
     }
   }
 
+  const loadCheckpoints = async () => {
+    if (!sessionId()) return
+    try {
+      const res = await fetch(`/api/sessions/${sessionId()}/checkpoints`)
+      const data = await res.json()
+      const list: Checkpoint[] = data.checkpoints || []
+      setCheckpoints(new Map(list.map(cp => [cp.turnId, cp])))
+    } catch (e) {
+      console.error('Failed to load checkpoints:', e)
+    }
+  }
+
+  // Put every file the turn changed back the way it was
+  const undoTurn = async (turnId: string) => {
+    if (!sessionId() || undoingTurn()) return
+    setUndoingTurn(turnId)
+    try {
+      const response = await fetch(`/api/sessions/${sessionId()}/checkpoints/${turnId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        console.error('Failed to undo turn:', data.error)
+      } else if (data.errors?.length > 0) {
+        console.error('Some files could not be restored:', data.errors)
+      }
+    } catch (e) {
+      console.error('Failed to undo turn:', e)
+    } finally {
+      setUndoingTurn(null)
+      await loadCheckpoints()
+    }
+  }
+
+  const describeCheckpoint = (checkpoint: Checkpoint) =>
+    checkpoint.files.map(f => `${f.existed ? 'restore' : 'delete'} ${f.path}`).join('\n')
+
   // Auto-scroll to bottom
   createEffect(() => {
     messages()
@@ -814,8 +1482,8 @@ function App() {
     }
   })
 
-  const sendMessage = async (useParallel = false) => {
-    let msg = input().trim()
+  const sendMessage = async (useParallel = false, text?: string) => {
+    let msg = (text ?? input()).trim()
     if (!msg || status() !== 'idle') return
 
     // Append parallel prompt if shift+enter was used
@@ -828,7 +1496,9 @@ function App() {
       await createNewSession()
     }
 
-    setInput('')
+    if (text === undefined) {
+      setInput('')
+    }
     setMessages(prev => [...prev, { role: 'user', content: msg }])
     setStatus('thinking')
     setCurrentAssistant('')
@@ -838,17 +1508,44 @@ function App() {
     setRunningSubagents(new Map())
     setRunningSubagentIds([])
 
+    await streamTurn({
+      message: msg,
+      history: messages().slice(0, -1), // Exclude the just-added user message
+    })
+  }
+
+  // Resume the last turn, which paused at the iteration limit
+  const continueTurn = async () => {
+    if (status() !== 'idle') return
+
+    setStatus('thinking')
+    setCurrentAssistant('')
+    setCurrentTools(new Map())
+    setCompletedSubagents([])
+    setRunningSubagents(new Map())
+    setRunningSubagentIds([])
+
+    await streamTurn({ continue: true, history: messages() }, true)
+  }
+
+  // Stream a turn from the server into the chat
+  // A resumed turn's output joins the last assistant message
+  const streamTurn = async (request: Record<string, unknown>, resumed = false) => {
+    const controller = new AbortController()
+    setAbortController(controller)
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          message: msg,
-          history: messages().slice(0, -1), // Exclude the just-added user message
+          ...request,
           sessionId: sessionId(),
           provider: selectedProvider(),
           model: selectedModel(),
+          mode: mode(),
         }),
+        signal: controller.signal,
       })
 
       if (!response.ok) throw new Error('Failed to connect to agent')
@@ -880,10 +1577,81 @@ function App() {
       }
 
       // Finalize the assistant message
-      finalizeAssistantMessage()
+      finalizeAssistantMessage(false, resumed)
     } catch (error) {
-      setStatus('error')
-      console.error('Agent error:', error)
+      if (error instanceof Error && error.name === 'AbortError') {
+        // Stopped by user - keep the partial output
+        finalizeAssistantMessage(true, resumed)
+      } else {
+        setStatus('error')
+        console.error('Agent error:', error)
+      }
+    } finally {
+      setAbortController(null)
+    }
+  }
+
+  // Stop the whole turn, including every running subagent
+  const stopGeneration = () => {
+    const controller = abortController()
+    if (!controller) return
+    controller.abort()
+    setPendingConfirmation(null)
+    setPendingApprovals([])
+    setPendingBudgetWarning(null)
+
+    // The server stops them too; mark them cancelled locally since no more events arrive
+    const running = Array.from(runningSubagents().values())
+    if (running.length > 0) {
+      setCompletedSubagents(prev => [
+        ...prev,
+        ...running.map(sa => ({ ...sa, status: 'cancelled' as const, currentText: undefined, currentTools: undefined }))
+      ])
+      setRunningSubagents(new Map())
+      setRunningSubagentIds([])
+    }
+  }
+
+  // Stop one subagent - the server reports it back as subagent_interrupted
+  const stopSubagent = async (taskId: string) => {
+    try {
+      const response = await fetch('/api/subagents/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId })
+      })
+      if (!response.ok) {
+        console.error('Failed to stop subagent:', await response.text())
+      }
+    } catch (e) {
+      console.error('Failed to stop subagent:', e)
+    }
+  }
+
+  // Leave a message for a running subagent - returns whether it was accepted
+  const messageSubagent = async (taskId: string, text: string): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/subagents/message', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId, message: text })
+      })
+      if (!response.ok) {
+        console.error('Failed to message subagent:', await response.text())
+        return false
+      }
+      setRunningSubagents(prev => {
+        const next = new Map(prev)
+        const existing = next.get(taskId)
+        if (existing) {
+          next.set(taskId, { ...existing, inbox: [...(existing.inbox ?? []), { text, from: 'the user', delivered: false }] })
+        }
+        return next
+      })
+      return true
+    } catch (e) {
+      console.error('Failed to message subagent:', e)
+      return false
     }
   }
 
@@ -932,6 +1700,18 @@ function App() {
         })
         break
 
+      case 'tool_input':
+        // Final parsed input replaces the streamed partial JSON
+        setCurrentTools(prev => {
+          const next = new Map(prev)
+          const tool = next.get(event.id as string)
+          if (tool) {
+            tool.input = JSON.stringify(event.input)
+          }
+          return next
+        })
+        break
+
       case 'tool_running':
         setCurrentTools(prev => {
           const next = new Map(prev)
@@ -959,13 +1739,25 @@ function App() {
         break
 
       case 'turn_complete':
-        const usage = event.usage as { inputTokens: number; outputTokens: number } | undefined
-        if (usage) {
-          setTokens(prev => ({
-            input: prev.input + usage.inputTokens,
-            output: prev.output + usage.outputTokens,
-          }))
-        }
+        addTurnUsage(event.usage as { total: UsageTotals } | undefined)
+        setStatus('idle')
+        break
+
+      case 'max_iterations':
+        lastTurnHitLimit = true
+        addTurnUsage(event.usage as { total: UsageTotals } | undefined)
+        setStatus('idle')
+        break
+
+      case 'budget_warning':
+        setPendingBudgetWarning({ requestId: event.requestId as string, budget: event.budget as BudgetUsage })
+        setStatus('awaiting_confirmation')
+        break
+
+      case 'budget_exceeded':
+        setPendingBudgetWarning(null)
+        setCurrentAssistant(prev => prev + `\n\n[${event.message}]`)
+        addTurnUsage(event.usage as { total: UsageTotals } | undefined)
         setStatus('idle')
         break
 
@@ -974,14 +1766,41 @@ function App() {
         setCurrentAssistant(prev => prev + `\n\nError: ${event.error}`)
         break
 
+      case 'interrupted':
+        // Turn was stopped server-side; finalizeAssistantMessage runs when the stream ends
+        break
+
       case 'retry_countdown':
         setCurrentAssistant(prev =>
           prev + `\n[Rate limited - retrying in ${event.seconds}s...]`
         )
         break
 
+      case 'compaction': {
+        const record = event.record as { compactedMessages: number; tokensBefore: number; tokensAfter: number }
+        setCurrentAssistant(prev =>
+          prev + `[Context compacted - summarized ${record.compactedMessages} earlier messages (${formatTokens(record.tokensBefore)} → ${formatTokens(record.tokensAfter)} tokens)]\n\n`
+        )
+        setContextUsage(prev => prev ? { ...prev, usedTokens: record.tokensAfter } : null)
+        break
+      }
+
+      case 'context_usage':
+        setContextUsage({
+          usedTokens: event.usedTokens as number,
+          contextWindow: event.contextWindow as number
+        })
+        break
+
+      case 'plan_proposed':
+        setPlan(event.plan as Plan)
+        break
+
       case 'session_updated':
         // Session was saved, refresh the list
+        lastTurnId = event.turnId as string | undefined
+        applySessionMetadata(event.metadata as SessionMetadata | undefined)
+        loadCheckpoints()
         loadSessions()
         break
 
@@ -994,6 +1813,13 @@ function App() {
         })
         break
 
+      case 'tool_approval_request': {
+        const request = event.request as Omit<PendingApproval, 'requestId'>
+        setPendingApprovals(prev => [...prev, { ...request, requestId: event.requestId as string }])
+        setStatus('awaiting_confirmation')
+        break
+      }
+
       case 'subagent_confirmed':
         setPendingConfirmation(null)
         setStatus('executing')
@@ -1004,30 +1830,62 @@ function App() {
         setStatus('thinking')
         break
 
+      case 'subagent_queued':
+        setRunningSubagents(prev => {
+          const next = new Map(prev)
+          next.set(event.taskId as string, {
+            taskId: event.taskId as string,
+            task: {
+              id: event.taskId as string,
+              description: event.description as string,
+              role: event.role as SubagentRole,
+              dependsOn: event.dependsOn as string[] | undefined
+            },
+            summary: '',
+            fullHistory: [],
+            status: 'queued',
+            queuePosition: event.position as number,
+            parentTaskId: event.parentTaskId as string | undefined,
+            parentMessageIndex: messages().length
+          })
+          return next
+        })
+        setRunningSubagentIds(prev => [...prev, event.taskId as string])
+        break
+
       case 'subagent_start':
         setRunningSubagents(prev => {
           const next = new Map(prev)
+          const queued = next.get(event.taskId as string)
           next.set(event.taskId as string, {
             taskId: event.taskId as string,
             task: {
               id: event.taskId as string,
               description: event.description as string,
-              role: event.role as SubagentRole
+              role: event.role as SubagentRole,
+              dependsOn: event.dependsOn as string[] | undefined
             },
             summary: '',
             fullHistory: [],
             status: 'running',
             currentText: '',
             currentTools: new Map(),
-            parentMessageIndex: messages().length
+            parentTaskId: event.parentTaskId as string | undefined,
+            inbox: queued?.inbox,
+            parentMessageIndex: queued?.parentMessageIndex ?? messages().length
           })
           return next
         })
-        // Update stable ID list (prevents flickering)
-        setRunningSubagentIds(prev => [...prev, event.taskId as string])
+        // Update stable ID list (prevents flickering) - queued subagents are already in it
+        setRunningSubagentIds(prev => prev.includes(event.taskId as string) ? prev : [...prev, event.taskId as string])
         break
 
       case 'subagent_progress':
+        // Nested subagents' events come wrapped in their parent's progress
+        if ((event.event as { type: string }).type.startsWith('subagent_')) {
+          handleEvent({ ...(event.event as { type: string; [key: string]: unknown }), parentTaskId: event.taskId })
+          break
+        }
         // Update the running subagent with live progress
         setRunningSubagents(prev => {
           const next = new Map(prev)
@@ -1097,7 +1955,10 @@ function App() {
               ...existing,
               status: 'completed' as const,
               summary: event.summary as string,
+              report: event.report as SubagentReport,
+              changes: event.changes as SubagentFileChange[],
               fullHistory: event.fullHistory as Message[],
+              worktree: event.worktree as WorktreeChanges | undefined,
               currentText: undefined,
               currentTools: undefined
             }
@@ -1130,6 +1991,81 @@ function App() {
         setRunningSubagentIds(prev => prev.filter(id => id !== event.taskId))
         break
 
+      case 'subagent_interrupted':
+        setRunningSubagents(prev => {
+          const next = new Map(prev)
+          const existing = next.get(event.taskId as string)
+          if (existing) {
+            const cancelled = {
+              ...existing,
+              status: 'cancelled' as const,
+              stopReason: event.reason as string | undefined,
+              fullHistory: event.fullHistory as Message[],
+              currentText: undefined,
+              currentTools: undefined
+            }
+            setCompletedSubagents(c => [...c, cancelled])
+          }
+          next.delete(event.taskId as string)
+          return next
+        })
+        setRunningSubagentIds(prev => prev.filter(id => id !== event.taskId))
+        break
+
+      case 'subagent_timeout':
+        setRunningSubagents(prev => {
+          const next = new Map(prev)
+          const existing = next.get(event.taskId as string)
+          if (existing) {
+            const timedOut = {
+              ...existing,
+              status: 'timeout' as const,
+              timeout: event.timeout as number,
+              fullHistory: event.fullHistory as Message[],
+              currentText: undefined,
+              currentTools: undefined
+            }
+            setCompletedSubagents(c => [...c, timedOut])
+          }
+          next.delete(event.taskId as string)
+          return next
+        })
+        setRunningSubagentIds(prev => prev.filter(id => id !== event.taskId))
+        break
+
+      case 'subagent_usage':
+        setRunningSubagents(prev => {
+          const next = new Map(prev)
+          const existing = next.get(event.taskId as string)
+          if (existing) {
+            next.set(event.taskId as string, { ...existing, usage: event.usage as SubagentResult['usage'] })
+          }
+          return next
+        })
+        break
+
+      case 'subagent_message':
+        setRunningSubagents(prev => {
+          const next = new Map(prev)
+          const existing = next.get(event.taskId as string)
+          if (existing) {
+            const inbox = [...(existing.inbox ?? [])]
+            const sent = inbox.findIndex(m => !m.delivered && m.text === event.message && m.from === event.from)
+            if (sent >= 0) {
+              inbox[sent] = { ...inbox[sent]!, delivered: true }
+            } else {
+              inbox.push({ text: event.message as string, from: event.from as string, delivered: true })
+            }
+            next.set(event.taskId as string, { ...existing, inbox })
+          }
+          return next
+        })
+        break
+
+      case 'scratchpad_entry':
+        setScratchpadEntries(prev => [...prev, event.entry as ScratchpadEntry])
+        break
+
       case 'subagent_max_iterations':
         setRunningSubagents(prev => {
           const next = new Map(prev)
@@ -1153,23 +2089,47 @@ function App() {
     }
   }
 
-  const finalizeAssistantMessage = () => {
+  const finalizeAssistantMessage = (interrupted = false, resumed = false) => {
     const content = currentAssistant()
     const tools = Array.from(currentTools().values())
     const hasSubagents = completedSubagents().length > 0 || runningSubagents().size > 0
 
-    if (content || tools.length > 0) {
+    if (interrupted) {
+      // Tools that were still in flight never got a result
+      for (const tool of tools) {
+        if (tool.status === 'pending' || tool.status === 'running') {
+          tool.status = 'error'
+          tool.error = 'Interrupted'
+        }
+      }
+    }
+
+    if (content || tools.length > 0 || interrupted || lastTurnHitLimit) {
       // If we have subagents, only add tool calls to messages, not the content
       // The content will be shown after the subagent cards via currentAssistant
-      setMessages(prev => [
-        ...prev,
-        {
-          role: 'assistant',
-          content: hasSubagents ? '' : content,  // Content goes after subagents
-          toolCalls: tools.length > 0 ? tools : undefined,
-        },
-      ])
+      const message: Message = {
+        role: 'assistant',
+        content: hasSubagents ? '' : content,  // Content goes after subagents
+        toolCalls: tools.length > 0 ? tools : undefined,
+        interrupted: interrupted || undefined,
+        turnId: lastTurnId,
+        hitMaxIterations: lastTurnHitLimit || undefined,
+      }
+      setMessages(prev => {
+        const last = prev[prev.length - 1]
+        if (!resumed || last?.role !== 'assistant') return [...prev, message]
+        const toolCalls = [...(last.toolCalls ?? []), ...(message.toolCalls ?? [])]
+        return [...prev.slice(0, -1), {
+          ...last,
+          content: [last.content, message.content].filter(Boolean).join('\n\n'),
+          toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+          interrupted: message.interrupted,
+          hitMaxIterations: message.hitMaxIterations,
+        }]
+      })
     }
+    lastTurnId = undefined
+    lastTurnHitLimit = false
 
     // Only clear currentAssistant if no subagents - otherwise keep it for display after cards
     if (!hasSubagents) {
@@ -1179,11 +2139,6 @@ function App() {
     setStatus('idle')
   }
 
-  const formatTokens = (n: number) => {
-    if (n >= 1000) return `${(n / 1000).toFixed(1)}k`
-    return n.toString()
-  }
-
   // Simple markdown renderer for assistant messages
   const renderMarkdown = (text: string) => {
     if (!text) return ''
@@ -1250,6 +2205,77 @@ function App() {
       )
     }
 
+    // multi_edit and apply_patch show a diff per file
+    if (tool.details?.type === 'patch') {
+      const data = tool.details.data as { files: SubagentFileChange[] }
+      if (data.files.length > 0) {
+        return (
+          <div class="tool-output">
+            <ChangesetView changes={data.files} />
+          </div>
+        )
+      }
+    }
+
+    // Search results are listed one per row - clicking one adds it to the message
+    if (tool.details?.type === 'search') {
+      const data = tool.details.data as { matches: SearchMatch[]; truncated: boolean }
+      if (data.matches.length > 0) {
+        return (
+          <div class="tool-output search-results">
+            {data.matches.map(match => {
+              const location = match.line ? `${match.path}:${match.line}` : match.path
+              return (
+                <div class="search-result" title="Add to message" onClick={() => insertReference(location)}>
+                  <span class="search-result-path">{location}</span>
+                  <Show when={match.match !== undefined}>
+                    <span class="search-result-text">{match.match}</span>
+                  </Show>
+                </div>
+              )
+            })}
+            <Show when={data.truncated}>
+              <div class="search-results-more">More results were left out</div>
+            </Show>
+          </div>
+        )
+      }
+    }
+
+    if (tool.details?.type === 'tree') {
+      const data = tool.details.data as { entries: TreeEntry[]; offset: number; total: number }
+      if (data.entries.length > 0) {
+        const shown = countTreeEntries(data.entries)
+        return (
+          <div class="tool-output tree-view">
+            <TreeView entries={data.entries} onSelect={insertReference} />
+            <Show when={data.offset > 0 || data.offset + shown < data.total}>
+              <div class="search-results-more">Entries {data.offset + 1}-{data.offset + shown} of {data.total}</div>
+            </Show>
+          </div>
+        )
+      }
+    }
+
+    // Background jobs show their state when the call returned - the jobs panel follows them live
+    if (tool.details?.type === 'job') {
+      const data = tool.details.data as JobOutput
+      const shown = data.output.length > 2000 ? data.output.slice(-2000) : data.output
+      return (
+        <div class="tool-output job-output">
+          <div class="job-output-header">
+            <span class={`jobs-status jobs-status-${data.job.status}`} />
+            <span class="job-output-id">{data.job.id}</span>
+            <span class="job-output-state">{describeJobStatus(data.job)}</span>
+            <button class="job-output-follow" onClick={() => openJobsPanel(data.job.id)}>Follow output</button>
+          </div>
+          <Show when={shown}>
+            <div class="job-output-text">{shown}</div>
+          </Show>
+        </div>
+      )
+    }
+
     // Truncate long output
     const output = tool.output.length > 2000
       ? tool.output.slice(0, 2000) + '\n[Output truncated...]'
@@ -1258,6 +2284,30 @@ function App() {
     return <div class="tool-output">{output}</div>
   }
 
+  const refreshRunningJobs = async () => {
+    try {
+      const id = sessionId()
+      const res = await fetch(id ? `/api/jobs?sessionId=${encodeURIComponent(id)}` : '/api/jobs')
+      if (res.ok) {
+        const data = await res.json()
+        setRunningJobs((data.jobs as JobSummary[] || []).filter(job => job.status === 'running').length)
+      }
+    } catch {
+      // The server may be restarting - try again at the next refresh
+    }
+  }
+
+  const openJobsPanel = (jobId: string | null = null) => {
+    setJobsPanelJobId(jobId)
+    setShowJobsPanel(true)
+  }
+
+  // Add a file reference (path or path:line) to the message being written
+  const insertReference = (reference: string) => {
+    setInput(prev => prev && !prev.endsWith(' ') ? `${prev} ${reference}` : `${prev}${reference}`)
+    inputRef?.focus()
+  }
+
   const selectCommand = (cmd: { name: string; argumentHint?: string }) => {
     // Set input to command with trailing space if no hint, or just the command if there's a hint
     setInput(`/${cmd.name} `)
@@ -1304,7 +2354,10 @@ function App() {
     // Clear state for a fresh session (session will be created on first message)
     setSessionId(null)
     setMessages([])
+    setScratchpadEntries([])
     setTokens({ input: 0, output: 0 })
+    setSessionUsage(null)
+    setContextUsage(null)
     setShowSessions(false)
     // Refresh the sessions list so the old session appears
     await loadSessions()
@@ -1402,32 +2455,188 @@ function App() {
         console.error('Failed to confirm subagents:', await response.text())
       }
     } catch (e) {
-      console.error('Failed to confirm subagents:', e)
+      console.error('Failed to confirm subagents:', e)
+    }
+  }
+
+  const cancelSubagents = async () => {
+    const confirmation = pendingConfirmation()
+    if (!confirmation) return
+
+    try {
+      await fetch('/api/subagents/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requestId: confirmation.requestId,
+          confirmed: false
+        })
+      })
+    } catch (e) {
+      console.error('Failed to cancel subagents:', e)
+    }
+    setPendingConfirmation(null)
+    setStatus('thinking')
+  }
+
+  // Tool approval handler
+  const answerApproval = async (approval: PendingApproval, decision: ApprovalDecision) => {
+    try {
+      const response = await fetch('/api/tools/approve', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: approval.requestId, decision })
+      })
+      if (!response.ok) {
+        console.error('Failed to answer tool approval:', await response.text())
+      }
+    } catch (e) {
+      console.error('Failed to answer tool approval:', e)
+    }
+    const remaining = pendingApprovals().filter(a => a.requestId !== approval.requestId)
+    setPendingApprovals(remaining)
+    if (remaining.length === 0 && !pendingConfirmation()) {
+      setStatus('executing')
+    }
+  }
+
+  // Go on past a budget's warning threshold, or stop the turn
+  const answerBudgetWarning = async (goOn: boolean) => {
+    const warning = pendingBudgetWarning()
+    if (!warning) return
+    setPendingBudgetWarning(null)
+    try {
+      const response = await fetch('/api/budget/respond', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: warning.requestId, continue: goOn })
+      })
+      if (!response.ok) {
+        console.error('Failed to answer budget warning:', await response.text())
+      }
+    } catch (e) {
+      console.error('Failed to answer budget warning:', e)
+    }
+    if (pendingApprovals().length === 0 && !pendingConfirmation()) {
+      setStatus('executing')
+    }
+  }
+
+  // Plan approval - sends the edited plan, then starts executing it
+  const updatePlanStep = (stepId: string, updates: Partial<PlanStep>) => {
+    setPlan(prev => prev && { ...prev, steps: prev.steps.map(s => s.id === stepId ? { ...s, ...updates } : s) })
+  }
+
+  const approvePlan = async () => {
+    const current = plan()
+    if (!current || !sessionId() || approvingPlan()) return
+
+    const steps = current.steps
+      .filter(s => s.included !== false)
+      .map(s => s.text.trim())
+      .filter(Boolean)
+    if (steps.length === 0) return
+
+    setApprovingPlan(true)
+    try {
+      const response = await fetch(`/api/sessions/${sessionId()}/plan/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ summary: current.summary, steps })
+      })
+      if (!response.ok) {
+        console.error('Failed to approve plan:', await response.text())
+        return
+      }
+      const data = await response.json()
+      setPlan(data.session.plan)
+      setMode('execute')
+    } catch (e) {
+      console.error('Failed to approve plan:', e)
+      return
+    } finally {
+      setApprovingPlan(false)
+    }
+
+    await sendMessage(false, 'Implement the approved plan.')
+  }
+
+  // Short description of what a tool call is about to do
+  const describeToolCall = (name: string, input: Record<string, unknown>) => {
+    if (name === 'bash' && typeof input.command === 'string') return input.command
+    if (typeof input.path === 'string') return input.path
+    return JSON.stringify(input, null, 2)
+  }
+
+  const describeRule = (rule: PermissionRule) =>
+    rule.pattern ? `${rule.tool}(${rule.pattern})` : rule.tool
+
+  // Replace a finished subagent's pending worktree changes (undefined once merged or discarded)
+  const setSubagentWorktree = (taskId: string, worktree: WorktreeChanges | undefined) => {
+    setCompletedSubagents(prev => prev.map(s => s.taskId === taskId ? { ...s, worktree } : s))
+  }
+
+  const mergeSubagentWorktree = async (subagent: SubagentResult, files?: string[]) => {
+    try {
+      const response = await fetch(`/api/subagents/${subagent.taskId}/worktree/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        console.error('Failed to merge changes:', data.error)
+        return
+      }
+      setSubagentWorktree(subagent.taskId, data.worktree ?? undefined)
+    } catch (e) {
+      console.error('Failed to merge changes:', e)
     }
   }
 
-  const cancelSubagents = async () => {
-    const confirmation = pendingConfirmation()
-    if (!confirmation) return
-
+  const discardSubagentWorktree = async (subagent: SubagentResult) => {
     try {
-      await fetch('/api/subagents/confirm', {
+      const response = await fetch(`/api/subagents/${subagent.taskId}/worktree/discard`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          requestId: confirmation.requestId,
-          confirmed: false
-        })
+        body: JSON.stringify({})
       })
+      if (!response.ok) {
+        const data = await response.json()
+        console.error('Failed to discard changes:', data.error)
+        return
+      }
+      setSubagentWorktree(subagent.taskId, undefined)
     } catch (e) {
-      console.error('Failed to cancel subagents:', e)
+      console.error('Failed to discard changes:', e)
     }
-    setPendingConfirmation(null)
-    setStatus('thinking')
+  }
+
+  // How deep a subagent is nested - 1 for the main agent's subagents
+  const subagentDepth = (subagent: SubagentResult): number => {
+    const parent = subagent.parentTaskId
+      ? runningSubagents().get(subagent.parentTaskId) ?? completedSubagents().find(s => s.taskId === subagent.parentTaskId)
+      : undefined
+    return parent ? subagentDepth(parent) + 1 : 1
+  }
+
+  // Dependencies of a task that haven't completed yet
+  const pendingDependencies = (subagent: SubagentResult) =>
+    (subagent.task.dependsOn ?? []).filter(id => !completedSubagents().some(s => s.taskId === id && s.status === 'completed'))
+
+  // Subagents are saved on the server, so stopped or failed ones can be resumed too
+  const canContinue = (subagent: SubagentResult) =>
+    subagent.status === 'max_iterations' || subagent.status === 'cancelled' || subagent.status === 'error' || subagent.status === 'timeout'
+
+  const continueHint = (subagent: SubagentResult) => {
+    if (subagent.status === 'cancelled') return 'Subagent was stopped. You can resume it where it left off.'
+    if (subagent.status === 'error') return 'Subagent failed. You can retry from where it left off.'
+    if (subagent.status === 'timeout') return `Subagent timed out after ${subagent.timeout}s. You can give it more time.`
+    return `Subagent hit max iterations (${subagent.iterations}). You can continue running it.`
   }
 
   const continueSubagent = async (subagent: SubagentResult) => {
-    if (subagent.status !== 'max_iterations') return
+    if (!canContinue(subagent)) return
 
     try {
       // Remove from completed, add back to running
@@ -1448,12 +2657,7 @@ function App() {
       const response = await fetch('/api/subagents/continue', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          taskId: subagent.taskId,
-          sessionId: sessionId(),
-          task: subagent.task,
-          history: subagent.fullHistory
-        })
+        body: JSON.stringify({ taskId: subagent.taskId, sessionId: sessionId() })
       })
 
       if (!response.ok) {
@@ -1486,6 +2690,13 @@ function App() {
           }
         }
       }
+
+      // The server added the continuation's tokens to the session
+      if (sessionId()) {
+        const res = await fetch(`/api/sessions/${sessionId()}`)
+        const data = await res.json()
+        applySessionMetadata(data.session?.metadata)
+      }
     } catch (e) {
       console.error('Failed to continue subagent:', e)
       // Put it back in completed with error
@@ -1508,7 +2719,7 @@ function App() {
       complex: 'role-badge-complex',
       researcher: 'role-badge-researcher'
     }
-    return classes[role] || ''
+    return classes[role] || 'role-badge-custom'
   }
 
   // Compute tree layout positions
@@ -1556,7 +2767,7 @@ function App() {
       id: `subagent-${subagent.taskId}`,
       type: 'subagent-root',
       x: 0, y: 0,
-      label: `${subagent.task.role}: ${subagent.task.description.slice(0, 30)}...`,
+      label: `${subagent.status === 'queued' ? '[queued] ' : subagent.status === 'timeout' ? '[timed out] ' : ''}${subagent.task.role}: ${subagent.task.description.slice(0, 30)}...`,
       subagentResult: subagent,
       children: [],
       expanded: isExpanded,
@@ -1601,6 +2812,19 @@ function App() {
       }
     }
 
+    // Subagents this one started, below its history
+    if (isExpanded) {
+      const nested = [
+        ...completedSubagents().filter(s => s.parentTaskId === subagent.taskId),
+        ...Array.from(runningSubagents().values()).filter(s => s.parentTaskId === subagent.taskId)
+      ]
+      for (const child of nested) {
+        const childNode = buildSubagentNode(child, baseId)
+        childNode.parent = node
+        node.children.push(childNode)
+      }
+    }
+
     return node
   }
 
@@ -1690,8 +2914,9 @@ function App() {
       nodes.push(liveNode)
     }
 
-    // Add running subagents that aren't linked to tool calls yet
+    // Add running subagents that aren't linked to tool calls yet - nested ones hang off their parent
     for (const subagent of runningSubagents().values()) {
+      if (subagent.parentTaskId) continue
       const existing = nodes.some(n =>
         n.children.some(c =>
           c.children.some(sc => sc.id === `subagent-${subagent.taskId}`)
@@ -1813,6 +3038,16 @@ function App() {
             <span class="btn-icon">⊛</span>
             <span class="tooltip">MCP Servers</span>
           </button>
+          <button
+            class={`header-btn ${showJobsPanel() ? 'active' : ''}`}
+            onClick={() => showJobsPanel() ? setShowJobsPanel(false) : openJobsPanel()}
+          >
+            <span class="btn-icon">▸</span>
+            <Show when={runningJobs() > 0}>
+              <span class="header-btn-count">{runningJobs()}</span>
+            </Show>
+            <span class="tooltip">Background Jobs</span>
+          </button>
           <div class="header-divider" />
           <button
             class={`view-toggle-btn ${showGraphView() ? 'active' : ''}`}
@@ -1912,10 +3147,24 @@ function App() {
             <span class="status-text">{status()}</span>
           </div>
           <div class="header-divider" />
-          <div class="token-count">
+          <div class="token-count" title={usageBreakdownTitle()}>
             <span class="token-label">tokens</span>
             <span class="token-value">{formatTokens(tokens().input + tokens().output)}</span>
+            <Show when={tokens().cost !== undefined}>
+              <span class="token-value">{formatCost(tokens().cost!)}</span>
+            </Show>
           </div>
+          <Show when={contextUsage()}>
+            {(usage) => (
+              <div
+                class="token-count"
+                title={`${formatTokens(usage().usedTokens)} / ${formatTokens(usage().contextWindow)} tokens of context`}
+              >
+                <span class="token-label">ctx</span>
+                <span class="token-value">{Math.round((usage().usedTokens / usage().contextWindow) * 100)}%</span>
+              </div>
+            )}
+          </Show>
         </div>
       </header>
 
@@ -2038,6 +3287,38 @@ function App() {
                   <Show when={msg.content}>
                     <div class="message-assistant" innerHTML={renderMarkdown(msg.content)} />
                   </Show>
+                  <Show when={msg.interrupted}>
+                    <div class="message-interrupted">[interrupted by user]</div>
+                  </Show>
+                  <Show when={msg.hitMaxIterations}>
+                    <div class="message-max-iterations">
+                      <span class="max-iterations-warning">Paused at the iteration limit</span>
+                      <Show when={msg === messages()[messages().length - 1]}>
+                        <button class="continue-turn-btn" onClick={continueTurn} disabled={status() !== 'idle'}>
+                          Continue
+                        </button>
+                      </Show>
+                    </div>
+                  </Show>
+                  <Show when={msg.turnId ? checkpoints().get(msg.turnId) : undefined}>
+                    {(checkpoint) => (
+                      <div class="message-checkpoint">
+                        <Show
+                          when={!checkpoint().restoredAt}
+                          fallback={<span class="checkpoint-undone">Turn undone ({checkpoint().files.length} files restored)</span>}
+                        >
+                          <button
+                            class="undo-turn-btn"
+                            onClick={() => undoTurn(checkpoint().turnId)}
+                            disabled={status() !== 'idle' || undoingTurn() !== null}
+                            title={describeCheckpoint(checkpoint())}
+                          >
+                            {undoingTurn() === checkpoint().turnId ? 'Undoing...' : `↶ Undo this turn (${checkpoint().files.length} files)`}
+                          </button>
+                        </Show>
+                      </div>
+                    )}
+                  </Show>
                 </Show>
               </div>
             )}
@@ -2089,18 +3370,35 @@ function App() {
               return (
                 <Show when={subagent()}>
                   {(sa) => (
-                    <div class="message">
+                    <div class="message" classList={{ 'subagent-nested': !!sa().parentTaskId }} style={{ '--depth': subagentDepth(sa()) - 1 }}>
                       <div
-                        class="subagent-card-inline running"
+                        class={`subagent-card-inline ${sa().status}`}
                         onClick={() => setExpandedSubagentId(taskId)}
                       >
                         <div class="subagent-card-header">
                           <span class={`role-badge ${getRoleBadgeClass(sa().task.role)}`}>{sa().task.role}</span>
                           <span class="subagent-card-desc">{sa().task.description}</span>
                           <span class="expand-hint">Click to view live</span>
+                          <button
+                            class="subagent-stop-btn"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              stopSubagent(taskId)
+                            }}
+                            title="Stop this subagent"
+                          >
+                            ■
+                          </button>
                         </div>
                         <div class="subagent-card-status">
-                          <span class="spinner" /> Running...
+                          <Show when={sa().status === 'queued'} fallback={<><span class="spinner" /> Running...</>}>
+                            <Show
+                              when={pendingDependencies(sa()).length > 0}
+                              fallback={<>Queued (#{sa().queuePosition}) - waiting for a free slot</>}
+                            >
+                              Waiting for {pendingDependencies(sa()).length} task{pendingDependencies(sa()).length === 1 ? '' : 's'} to finish
+                            </Show>
+                          </Show>
                         </div>
                       </div>
                     </div>
@@ -2113,7 +3411,7 @@ function App() {
           {/* All completed subagents - shown after running ones */}
           <For each={completedSubagents()}>
             {(subagent) => (
-              <div class="message">
+              <div class="message" classList={{ 'subagent-nested': !!subagent.parentTaskId }} style={{ '--depth': subagentDepth(subagent) - 1 }}>
                 <div
                   class={`subagent-card-inline ${subagent.status} ${subagent.status === 'error' ? 'error' : ''} ${subagent.status === 'max_iterations' ? 'max-iterations' : ''}`}
                   onClick={() => setExpandedSubagentId(subagent.taskId)}
@@ -2121,6 +3419,9 @@ function App() {
                   <div class="subagent-card-header">
                     <span class={`role-badge ${getRoleBadgeClass(subagent.task.role)}`}>{subagent.task.role}</span>
                     <span class="subagent-card-desc">{subagent.task.description}</span>
+                    <Show when={subagent.report}>
+                      <span class={`report-status report-status-${subagent.report!.status}`}>{subagent.report!.status}</span>
+                    </Show>
                     <span class="expand-hint">Click to expand</span>
                   </div>
                   <div class="subagent-card-summary">
@@ -2132,9 +3433,17 @@ function App() {
                         Hit max iterations ({subagent.iterations}) - click to continue
                       </span>
                     </Show>
+                    <Show when={subagent.status === 'cancelled'}>
+                      <span class="cancelled-info">{subagent.stopReason ?? 'Stopped by user'}</span>
+                    </Show>
+                    <Show when={subagent.status === 'timeout'}>
+                      <span class="max-iterations-warning">
+                        Timed out after {subagent.timeout}s - click to continue
+                      </span>
+                    </Show>
                     <Show when={subagent.status === 'completed'}>
-                      {subagent.summary.slice(0, 200)}
-                      {subagent.summary.length > 200 ? '...' : ''}
+                      {(subagent.report?.summary ?? subagent.summary).slice(0, 200)}
+                      {(subagent.report?.summary ?? subagent.summary).length > 200 ? '...' : ''}
                     </Show>
                   </div>
                 </div>
@@ -2142,6 +3451,12 @@ function App() {
             )}
           </For>
 
+          <Show when={scratchpadEntries().length > 0}>
+            <div class="message">
+              <ScratchpadView entries={scratchpadEntries()} />
+            </div>
+          </Show>
+
           {/* Thinking indicator - shown when model is thinking but no text yet */}
           <Show when={status() === 'thinking' && !currentAssistant() && currentTools().size === 0}>
             <div class="message">
@@ -2182,6 +3497,16 @@ function App() {
                     <span class="subagent-tab-desc">{sa().task.description}</span>
                     <Show when={sa().status === 'running'}>
                       <span class="subagent-window-status running"><span class="spinner" /> Live</span>
+                      <button
+                        class="subagent-stop-btn"
+                        onClick={() => stopSubagent(sa().taskId)}
+                        title="Stop this subagent"
+                      >
+                        ■ Stop
+                      </button>
+                    </Show>
+                    <Show when={sa().status === 'cancelled'}>
+                      <span class="subagent-window-status cancelled">Stopped</span>
                     </Show>
                     <Show when={sa().status === 'max_iterations'}>
                       <span class="subagent-window-status max-iterations">Hit max iterations</span>
@@ -2192,6 +3517,15 @@ function App() {
                     <Show when={sa().status === 'error'}>
                       <span class="subagent-window-status error">Error</span>
                     </Show>
+                    <Show when={sa().status === 'queued'}>
+                      <span class="subagent-window-status queued">Queued (#{sa().queuePosition})</span>
+                    </Show>
+                    <Show when={sa().status === 'timeout'}>
+                      <span class="subagent-window-status error">Timed out</span>
+                    </Show>
+                    <Show when={sa().usage}>
+                      {(usage) => <span class="subagent-usage">{formatUsage(usage())}</span>}
+                    </Show>
                   </div>
                   <div
                     class="subagent-tab-messages"
@@ -2269,12 +3603,35 @@ function App() {
                     <div ref={subagentMessagesEndRef} />
                   </div>
 
-                  {/* Footer with Continue button for max_iterations */}
-                  <Show when={sa().status === 'max_iterations'}>
+                  <Show when={sa().status === 'running' || sa().status === 'queued'}>
+                    <SubagentMessageBox
+                      inbox={sa().inbox ?? []}
+                      onSend={(text) => messageSubagent(sa().taskId, text)}
+                    />
+                  </Show>
+
+                  <Show when={sa().report}>
+                    {(report) => <SubagentReportView report={report()} />}
+                  </Show>
+
+                  <Show when={sa().changes?.length ? sa().changes : null}>
+                    {(changes) => <ChangesetView changes={changes()} />}
+                  </Show>
+
+                  <Show when={sa().worktree?.files.length ? sa().worktree : null}>
+                    {(worktree) => (
+                      <WorktreeReview
+                        worktree={worktree()}
+                        onMerge={(files) => mergeSubagentWorktree(sa(), files)}
+                        onDiscard={() => discardSubagentWorktree(sa())}
+                      />
+                    )}
+                  </Show>
+
+                  {/* Footer with Continue button for subagents that can be resumed */}
+                  <Show when={canContinue(sa())}>
                     <div class="subagent-tab-footer">
-                      <span class="max-iterations-info">
-                        Subagent hit max iterations ({sa().iterations}). You can continue running it.
-                      </span>
+                      <span class="max-iterations-info">{continueHint(sa())}</span>
                       <button
                         class="dialog-btn confirm"
                         onClick={() => continueSubagent(sa())}
@@ -2322,18 +3679,98 @@ function App() {
       </Show>
 
       <div class="input-area">
+        {/* Proposed plan - editable until approved */}
+        <Show when={plan()?.status === 'proposed' ? plan() : null}>
+          {(current) => (
+            <div class="plan-panel">
+              <div class="plan-panel-header">
+                <span class="plan-panel-title">Proposed Plan</span>
+                <button class="plan-dismiss-btn" onClick={() => setPlan(null)} title="Dismiss plan">×</button>
+              </div>
+              <textarea
+                class="plan-summary-edit"
+                value={current().summary}
+                rows={2}
+                placeholder="Summary"
+                onInput={(e) => setPlan({ ...current(), summary: e.currentTarget.value })}
+              />
+              <ol class="plan-steps">
+                <For each={current().steps}>
+                  {(step) => (
+                    <li class={`plan-step ${step.included === false ? 'excluded' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={step.included !== false}
+                        onChange={(e) => updatePlanStep(step.id, { included: e.currentTarget.checked })}
+                        title="Include this step"
+                      />
+                      <textarea
+                        class="plan-step-edit"
+                        value={step.text}
+                        rows={1}
+                        onInput={(e) => updatePlanStep(step.id, { text: e.currentTarget.value })}
+                      />
+                      <button
+                        class="plan-step-delete"
+                        onClick={() => setPlan({ ...current(), steps: current().steps.filter(s => s.id !== step.id) })}
+                        title="Remove this step"
+                      >
+                        ×
+                      </button>
+                    </li>
+                  )}
+                </For>
+              </ol>
+              <div class="plan-panel-actions">
+                <button
+                  class="plan-add-btn"
+                  onClick={() => setPlan({
+                    ...current(),
+                    steps: [...current().steps, { id: `step_${Date.now()}`, text: '' }]
+                  })}
+                >
+                  + Add Step
+                </button>
+                <button
+                  class="dialog-btn confirm"
+                  onClick={approvePlan}
+                  disabled={status() !== 'idle' || approvingPlan() || !current().steps.some(s => s.included !== false && s.text.trim())}
+                >
+                  Approve & Execute
+                </button>
+              </div>
+            </div>
+          )}
+        </Show>
         <div class="input-wrapper">
+          <button
+            class={`mode-toggle ${mode()}`}
+            onClick={() => setMode(mode() === 'plan' ? 'execute' : 'plan')}
+            disabled={status() !== 'idle'}
+            title={mode() === 'plan' ? 'Plan mode: read-only tools, ends with a plan to approve' : 'Switch to plan mode'}
+          >
+            {mode() === 'plan' ? 'Plan' : 'Exec'}
+          </button>
           <span class="input-prompt">&gt;</span>
           <input
             ref={inputRef}
             type="text"
             class="input-field"
-            placeholder={status() === 'idle' ? 'Type a message... (Shift+Enter for parallel)' : 'Agent is working...'}
+            placeholder={status() !== 'idle' ? 'Agent is working...' : mode() === 'plan' ? 'Describe what to plan...' : 'Type a message... (Shift+Enter for parallel)'}
             value={input()}
             onInput={(e) => setInput(e.currentTarget.value)}
             onKeyDown={handleKeyDown}
             disabled={status() !== 'idle'}
           />
+          <Show when={abortController()}>
+            <button
+              class="stop-btn"
+              onClick={stopGeneration}
+              title="Stop generation"
+            >
+              ■ Stop
+            </button>
+          </Show>
           {/* Slash command autocomplete dropdown */}
           <Show when={showCommandAutocomplete() && filteredCommands().length > 0}>
             <div class="command-autocomplete">
@@ -2410,9 +3847,9 @@ function App() {
                               })
                             }}
                           >
-                            <option value="simple">simple</option>
-                            <option value="complex">complex</option>
-                            <option value="researcher">researcher</option>
+                            <For each={Object.keys(config()?.subagents?.roles ?? { [task.role]: null })}>
+                              {(role) => <option value={role}>{role}</option>}
+                            </For>
                           </select>
                           {/* Delete button */}
                           <button
@@ -2430,6 +3867,13 @@ function App() {
                           rows={3}
                           onInput={(e) => updateTask({ description: e.currentTarget.value })}
                         />
+                        <Show when={task.dependsOn?.length}>
+                          <div class="subagent-depends-on">
+                            Runs after: {task.dependsOn!
+                              .map(id => confirmation().tasks.find(t => t.id === id)?.description.slice(0, 40) ?? '(removed)')
+                              .join(', ')}
+                          </div>
+                        </Show>
                         <div class="subagent-item-config">
                           <select
                             class="subagent-select"
@@ -2488,6 +3932,58 @@ function App() {
         )}}
       </Show>
 
+      {/* Tool Approval Dialog */}
+      <Show when={pendingApprovals()[0]}>
+        {(approval) => {
+          const subagent = () => approval().taskId ? runningSubagents().get(approval().taskId!) : undefined
+          return (
+            <div class="subagent-confirm-overlay">
+              <div class="subagent-confirm-dialog tool-approval-dialog" onClick={(e) => e.stopPropagation()}>
+                <h3>Allow {approval().toolName}?</h3>
+                <div class="tool-approval-body">
+                  <Show when={approval().taskId}>
+                    <div class="tool-approval-source">
+                      Requested by subagent{subagent() ? `: ${subagent()!.task.description}` : ''}
+                    </div>
+                  </Show>
+                  <pre class="tool-approval-input">{describeToolCall(approval().toolName, approval().input)}</pre>
+                  <div class="tool-approval-rule">
+                    Session and always approvals cover <code>{describeRule(approval().rule)}</code>
+                  </div>
+                  <Show when={pendingApprovals().length > 1}>
+                    <div class="tool-approval-queue">{pendingApprovals().length - 1} more waiting</div>
+                  </Show>
+                </div>
+                <div class="dialog-actions">
+                  <button class="dialog-btn cancel" onClick={() => answerApproval(approval(), 'deny')}>Deny</button>
+                  <button class="dialog-btn cancel" onClick={() => answerApproval(approval(), 'once')}>Allow once</button>
+                  <button class="dialog-btn cancel" onClick={() => answerApproval(approval(), 'session')}>Allow for session</button>
+                  <button class="dialog-btn confirm" onClick={() => answerApproval(approval(), 'always')}>Always allow</button>
+                </div>
+              </div>
+            </div>
+          )
+        }}
+      </Show>
+
+      {/* Budget Warning Dialog */}
+      <Show when={pendingBudgetWarning()}>
+        {(warning) => (
+          <div class="subagent-confirm-overlay">
+            <div class="subagent-confirm-dialog budget-warning-dialog" onClick={(e) => e.stopPropagation()}>
+              <h3>Budget almost used up</h3>
+              <div class="budget-warning-body">
+                This turn has reached {describeBudget(warning().budget)}. It stops when the budget is used up.
+              </div>
+              <div class="dialog-actions">
+                <button class="dialog-btn cancel" onClick={() => answerBudgetWarning(false)}>Stop now</button>
+                <button class="dialog-btn confirm" onClick={() => answerBudgetWarning(true)}>Continue</button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Show>
+
       {/* Expanded Subagent Window */}
       <Show when={expandedSubagent()}>
         {(subagent) => (
@@ -2498,6 +3994,13 @@ function App() {
                 <span class="subagent-window-desc">{subagent().task.description}</span>
                 <Show when={subagent().status === 'running'}>
                   <span class="subagent-window-status running"><span class="spinner" /> Live</span>
+                  <button
+                    class="subagent-stop-btn"
+                    onClick={() => stopSubagent(subagent().taskId)}
+                    title="Stop this subagent"
+                  >
+                    ■ Stop
+                  </button>
                 </Show>
                 <Show when={subagent().status === 'max_iterations'}>
                   <span class="subagent-window-status max-iterations">Hit max iterations</span>
@@ -2587,12 +4090,35 @@ function App() {
                 </Show>
               </div>
 
-              {/* Footer with Continue button for max_iterations */}
-              <Show when={subagent().status === 'max_iterations'}>
+              <Show when={subagent().status === 'running' || subagent().status === 'queued'}>
+                <SubagentMessageBox
+                  inbox={subagent().inbox ?? []}
+                  onSend={(text) => messageSubagent(subagent().taskId, text)}
+                />
+              </Show>
+
+              <Show when={subagent().report}>
+                {(report) => <SubagentReportView report={report()} />}
+              </Show>
+
+              <Show when={subagent().changes?.length ? subagent().changes : null}>
+                {(changes) => <ChangesetView changes={changes()} />}
+              </Show>
+
+              <Show when={subagent().worktree?.files.length ? subagent().worktree : null}>
+                {(worktree) => (
+                  <WorktreeReview
+                    worktree={worktree()}
+                    onMerge={(files) => mergeSubagentWorktree(subagent(), files)}
+                    onDiscard={() => discardSubagentWorktree(subagent())}
+                  />
+                )}
+              </Show>
+
+              {/* Footer with Continue button for subagents that can be resumed */}
+              <Show when={canContinue(subagent())}>
                 <div class="subagent-window-footer">
-                  <span class="max-iterations-info">
-                    Subagent hit max iterations ({subagent().iterations}). You can continue running it.
-                  </span>
+                  <span class="max-iterations-info">{continueHint(subagent())}</span>
                   <button
                     class="dialog-btn confirm"
                     onClick={() => continueSubagent(subagent())}
@@ -2635,6 +4161,7 @@ function App() {
                           return {
                             ...prev,
                             mainChat: {
+                              ...prev.mainChat,
                               provider: newProvider,
                               model: providerInfo?.defaultModel || prev.mainChat?.model || ''
                             }
@@ -2658,6 +4185,7 @@ function App() {
                           return {
                             ...prev,
                             mainChat: {
+                              ...prev.mainChat,
                               provider: prev.mainChat?.provider || '',
                               model: e.currentTarget.value
                             }
@@ -2674,6 +4202,24 @@ function App() {
                       </Show>
                     </select>
                   </div>
+
+                  <div class="settings-row">
+                    <label>Max Iterations</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="200"
+                      value={cfg().mainChat?.maxIterations ?? 25}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        mainChat: {
+                          provider: prev.mainChat?.provider || '',
+                          model: prev.mainChat?.model || '',
+                          maxIterations: parseInt(e.currentTarget.value) || 25
+                        }
+                      } : null)}
+                    />
+                  </div>
                 </div>
 
                 {/* Subagent General Settings */}
@@ -2722,24 +4268,126 @@ function App() {
                       } : null)}
                     />
                   </div>
+
+                  <div class="settings-row">
+                    <label>Max Nesting Depth</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="5"
+                      value={cfg().subagents.maxDepth}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        subagents: { ...prev.subagents, maxDepth: parseInt(e.currentTarget.value) || 1 }
+                      } : null)}
+                    />
+                  </div>
+                </div>
+
+                {/* Tool Settings */}
+                <div class="settings-section">
+                  <h3>Tools</h3>
+                  <p class="settings-hint">Read-only tool calls from one response run at the same time. Writes and commands always run one by one. With a persistent shell, the main agent's commands share one shell per session.</p>
+
+                  <div class="settings-row">
+                    <label>Max Concurrent Reads</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="16"
+                      value={cfg().tools.maxConcurrent}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        tools: { ...prev.tools, maxConcurrent: parseInt(e.currentTarget.value) || 4 }
+                      } : null)}
+                    />
+                  </div>
+
+                  <div class="settings-row">
+                    <label>Persistent Shell</label>
+                    <select
+                      value={cfg().tools.persistentShell ? 'on' : 'off'}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        tools: { ...prev.tools, persistentShell: e.currentTarget.value === 'on' }
+                      } : null)}
+                    >
+                      <option value="on">One shell per session</option>
+                      <option value="off">New shell per command</option>
+                    </select>
+                  </div>
+                </div>
+
+                {/* Context Settings */}
+                <div class="settings-section">
+                  <h3>Context</h3>
+                  <p class="settings-hint">Older turns are summarized when the conversation nears the model's context window. Use /compact to do it on demand.</p>
+
+                  <div class="settings-row">
+                    <label>Auto Compaction</label>
+                    <select
+                      value={cfg().compaction.enabled ? 'on' : 'off'}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        compaction: { ...prev.compaction, enabled: e.currentTarget.value === 'on' }
+                      } : null)}
+                    >
+                      <option value="on">Enabled</option>
+                      <option value="off">Only with /compact</option>
+                    </select>
+                  </div>
+
+                  <div class="settings-row">
+                    <label>Threshold (% of window)</label>
+                    <input
+                      type="number"
+                      min="10"
+                      max="95"
+                      value={Math.round(cfg().compaction.threshold * 100)}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        compaction: { ...prev.compaction, threshold: (parseInt(e.currentTarget.value) || 80) / 100 }
+                      } : null)}
+                    />
+                  </div>
+
+                  <div class="settings-row">
+                    <label>Recent Turns Kept</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="20"
+                      value={cfg().compaction.keepRecentTurns}
+                      onChange={(e) => setEditingConfig(prev => prev ? {
+                        ...prev,
+                        compaction: { ...prev.compaction, keepRecentTurns: parseInt(e.currentTarget.value) || 4 }
+                      } : null)}
+                    />
+                  </div>
                 </div>
 
                 {/* Role Settings */}
                 <div class="settings-section">
                   <h3>Subagent Role Defaults</h3>
-                  <p class="settings-hint">Default provider/model for each role. Can be overridden per-task.</p>
+                  <p class="settings-hint">Default provider/model for each role. Can be overridden per-task. Add roles in <code>.agent/roles/*.md</code> or <code>subagents.roles</code> in the config file.</p>
 
-                  <For each={(['simple', 'complex', 'researcher'] as SubagentRole[])}>
+                  <For each={Object.keys(cfg().subagents.roles)}>
                     {(role) => (
                       <div class="role-config">
                         <div class="role-config-header">
                           <span class={`role-badge ${getRoleBadgeClass(role)}`}>{role}</span>
+                          <Show when={cfg().subagents.roles[role]?.description}>
+                            <span class="role-config-description">{cfg().subagents.roles[role]!.description}</span>
+                          </Show>
+                          <Show when={cfg().subagents.roles[role]?.tools}>
+                            <span class="role-config-tools">Tools: {cfg().subagents.roles[role]!.tools!.join(', ')}</span>
+                          </Show>
                         </div>
                         <div class="role-config-fields">
                           <div class="settings-row">
                             <label>Provider</label>
                             <select
-                              value={cfg().subagents.roles[role].provider}
+                              value={cfg().subagents.roles[role]!.provider}
                               onChange={async (e) => {
                                 const newProvider = e.currentTarget.value
                                 await loadModelsForProvider(newProvider)
@@ -2753,9 +4401,9 @@ function App() {
                                       roles: {
                                         ...prev.subagents.roles,
                                         [role]: {
-                                          ...prev.subagents.roles[role],
+                                          ...prev.subagents.roles[role]!,
                                           provider: newProvider,
-                                          model: providerInfo?.defaultModel || prev.subagents.roles[role].model
+                                          model: providerInfo?.defaultModel || prev.subagents.roles[role]!.model
                                         }
                                       }
                                     }
@@ -2771,7 +4419,7 @@ function App() {
                           <div class="settings-row">
                             <label>Model</label>
                             <select
-                              value={cfg().subagents.roles[role].model}
+                              value={cfg().subagents.roles[role]!.model}
                               onChange={(e) => {
                                 setEditingConfig(prev => {
                                   if (!prev) return null
@@ -2782,7 +4430,7 @@ function App() {
                                       roles: {
                                         ...prev.subagents.roles,
                                         [role]: {
-                                          ...prev.subagents.roles[role],
+                                          ...prev.subagents.roles[role]!,
                                           model: e.currentTarget.value
                                         }
                                       }
@@ -2791,12 +4439,12 @@ function App() {
                                 })
                               }}
                             >
-                              <For each={settingsModels()[cfg().subagents.roles[role].provider] || []}>
+                              <For each={settingsModels()[cfg().subagents.roles[role]!.provider] || []}>
                                 {(m) => <option value={m.id}>{getShortModelName(m.id)}</option>}
                               </For>
                               {/* Show current model even if not in list */}
-                              <Show when={!settingsModels()[cfg().subagents.roles[role].provider]?.some(m => m.id === cfg().subagents.roles[role].model)}>
-                                <option value={cfg().subagents.roles[role].model}>{getShortModelName(cfg().subagents.roles[role].model)}</option>
+                              <Show when={!settingsModels()[cfg().subagents.roles[role]!.provider]?.some(m => m.id === cfg().subagents.roles[role]!.model)}>
+                                <option value={cfg().subagents.roles[role]!.model}>{getShortModelName(cfg().subagents.roles[role]!.model)}</option>
                               </Show>
                             </select>
                           </div>
@@ -2806,7 +4454,7 @@ function App() {
                               type="number"
                               min="1"
                               max="100"
-                              value={cfg().subagents.roles[role].maxIterations}
+                              value={cfg().subagents.roles[role]!.maxIterations}
                               onChange={(e) => {
                                 setEditingConfig(prev => {
                                   if (!prev) return null
@@ -2817,7 +4465,7 @@ function App() {
                                       roles: {
                                         ...prev.subagents.roles,
                                         [role]: {
-                                          ...prev.subagents.roles[role],
+                                          ...prev.subagents.roles[role]!,
                                           maxIterations: parseInt(e.currentTarget.value) || 10
                                         }
                                       }
@@ -2827,6 +4475,33 @@ function App() {
                               }}
                             />
                           </div>
+                          <div class="settings-row">
+                            <label>Isolation</label>
+                            <select
+                              value={cfg().subagents.roles[role]!.isolation || 'shared'}
+                              onChange={(e) => {
+                                setEditingConfig(prev => {
+                                  if (!prev) return null
+                                  return {
+                                    ...prev,
+                                    subagents: {
+                                      ...prev.subagents,
+                                      roles: {
+                                        ...prev.subagents.roles,
+                                        [role]: {
+                                          ...prev.subagents.roles[role]!,
+                                          isolation: e.currentTarget.value as SubagentIsolation
+                                        }
+                                      }
+                                    }
+                                  }
+                                })
+                              }}
+                            >
+                              <option value="shared">Shared working directory</option>
+                              <option value="worktree">Git worktree</option>
+                            </select>
+                          </div>
                         </div>
                       </div>
                     )}
@@ -2852,6 +4527,22 @@ function App() {
         )}
       </Show>
 
+      {/* Jobs Panel */}
+      <Show when={showJobsPanel()}>
+        <div class="mcp-panel-overlay" onClick={() => setShowJobsPanel(false)}>
+          <div class="jobs-panel-container" onClick={(e) => e.stopPropagation()}>
+            <JobsPanel
+              sessionId={sessionId()}
+              jobId={jobsPanelJobId()}
+              onClose={() => {
+                setShowJobsPanel(false)
+                refreshRunningJobs()
+              }}
+            />
+          </div>
+        </div>
+      </Show>
+
       {/* MCP Panel */}
       <Show when={showMCPPanel()}>
         <div class="mcp-panel-overlay" onClick={() => setShowMCPPanel(false)}>
@@ -2893,8 +4584,30 @@ function formatToolInput(name: string, input: string | unknown): string {
         return `${parsed.path} (${parsed.content?.length || 0} chars)`
       case 'edit_file':
         return parsed.path
+      case 'multi_edit':
+        return `${parsed.path} (${parsed.edits?.length || 0} edits)`
+      case 'apply_patch': {
+        // Files named in the patch's "+++" (or, for deletions, "---") headers
+        const paths = String(parsed.patch || '').split('\n')
+          .filter((line: string) => line.startsWith('+++ ') || line.startsWith('--- '))
+          .map((line: string) => line.slice(4).split('\t')[0]!.replace(/^[ab]\//, ''))
+          .filter((path: string) => path !== '/dev/null')
+        return [...new Set(paths)].join(', ')
+      }
+      case 'list_directory':
+        return (parsed.path || '.') + (parsed.depth ? ` (depth ${parsed.depth})` : '') + (parsed.offset ? ` from ${parsed.offset}` : '')
+      case 'grep':
+        return `/${parsed.pattern}/` + (parsed.path ? ` in ${parsed.path}` : '') + (parsed.glob ? ` (${parsed.glob})` : '') + (parsed.type ? ` (${parsed.type})` : '')
+      case 'glob':
+        return parsed.pattern + (parsed.path ? ` in ${parsed.path}` : '')
       case 'bash':
-        return parsed.command
+        return parsed.background ? `${parsed.command} (background)` : parsed.command
+      case 'job_output':
+        return parsed.jobId ? parsed.jobId + (parsed.wait ? ` (wait ${parsed.wait}s)` : '') : 'all jobs'
+      case 'job_input':
+        return `${parsed.jobId}: ${parsed.input}`
+      case 'job_kill':
+        return parsed.jobId
       default:
         return JSON.stringify(parsed, null, 2)
     }
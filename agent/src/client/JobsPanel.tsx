@@ -0,0 +1,230 @@
+/**
+ * Jobs Panel Component
+ *
+ * Lists the background jobs bash started and follows the output of the
+ * selected one as it comes. A line typed here goes to the job's stdin.
+ */
+
+import { createSignal, createEffect, For, Show, onMount, onCleanup } from 'solid-js'
+
+export interface JobSummary {
+  id: string
+  command: string
+  cwd: string
+  pid?: number
+  status: 'running' | 'exited' | 'killed'
+  exitCode?: number | null
+  sessionId?: string
+  startedAt: string
+  endedAt?: string
+  outputLength: number
+}
+
+export interface JobOutput {
+  job: JobSummary
+  output: string
+  offset: number
+  skipped: number
+}
+
+export interface JobsPanelProps {
+  sessionId?: string | null  // Only this session's jobs are shown
+  jobId?: string | null  // Job to show first - the newest otherwise
+  onClose?: () => void
+}
+
+// Output kept per job in the panel - the oldest is dropped
+const MAX_SHOWN_OUTPUT = 200000
+
+// How often the list and the selected job's output are refreshed
+const POLL_INTERVAL = 1000
+
+/**
+ * "running, pid 123", "exited with code 1" or "killed"
+ */
+export function describeJobStatus(job: JobSummary): string {
+  if (job.status === 'running') return job.pid ? `running, pid ${job.pid}` : 'running'
+  if (job.status === 'killed') return 'killed'
+  return job.exitCode === null || job.exitCode === undefined ? 'exited' : `exited with code ${job.exitCode}`
+}
+
+export function JobsPanel(props: JobsPanelProps) {
+  const [jobs, setJobs] = createSignal<JobSummary[]>([])
+  const [selected, setSelected] = createSignal<string | null>(props.jobId ?? null)
+  const [output, setOutput] = createSignal('')
+  const [input, setInput] = createSignal('')
+  const [error, setError] = createSignal<string | null>(null)
+  let offset = 0          // End of the selected job's output we have
+  let fetching = false
+  let outputRef: HTMLPreElement | undefined
+
+  const selectedJob = () => jobs().find(job => job.id === selected())
+
+  // Job routes only find the session's own jobs
+  const scoped = (url: string) => {
+    if (!props.sessionId) return url
+    return `${url}${url.includes('?') ? '&' : '?'}sessionId=${encodeURIComponent(props.sessionId)}`
+  }
+
+  const fetchJobs = async () => {
+    try {
+      const res = await fetch(scoped('/api/jobs'))
+      if (res.ok) {
+        const data = await res.json()
+        setJobs(data.jobs || [])
+        if (!selected() && data.jobs?.length > 0) {
+          setSelected(data.jobs[0].id)
+        }
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch jobs')
+    }
+  }
+
+  // Append what the selected job printed since the last fetch
+  const fetchOutput = async () => {
+    const id = selected()
+    if (!id || fetching) return
+    fetching = true
+    try {
+      const res = await fetch(scoped(`/api/jobs/${id}/output?offset=${offset}`))
+      if (!res.ok || id !== selected()) return
+      const data: JobOutput = await res.json()
+      if (!data.output) return
+
+      // Keep following the end unless the user scrolled up
+      const following = !outputRef || outputRef.scrollHeight - outputRef.scrollTop - outputRef.clientHeight < 20
+      const gap = data.skipped > 0 ? `\n[${data.skipped} characters skipped]\n` : ''
+      setOutput(prev => (prev + gap + data.output).slice(-MAX_SHOWN_OUTPUT))
+      offset = data.offset + data.output.length
+      if (following && outputRef) {
+        requestAnimationFrame(() => {
+          if (outputRef) outputRef.scrollTop = outputRef.scrollHeight
+        })
+      }
+    } catch (e) {
+      console.error('Failed to fetch job output:', e)
+    } finally {
+      fetching = false
+    }
+  }
+
+  // Start over when another job is selected
+  createEffect(() => {
+    selected()
+    offset = 0
+    setOutput('')
+    fetchOutput()
+  })
+
+  onMount(() => {
+    fetchJobs()
+    const interval = setInterval(() => {
+      fetchJobs()
+      fetchOutput()
+    }, POLL_INTERVAL)
+    onCleanup(() => clearInterval(interval))
+  })
+
+  const killJob = async (id: string) => {
+    try {
+      await fetch(scoped(`/api/jobs/${id}/kill`), { method: 'POST' })
+      await fetchJobs()
+    } catch (e) {
+      console.error('Failed to kill job:', e)
+    }
+  }
+
+  const sendInput = async (e: Event) => {
+    e.preventDefault()
+    const id = selected()
+    if (!id) return
+    try {
+      const res = await fetch(scoped(`/api/jobs/${id}/input`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input: input() })
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Failed to send input')
+        return
+      }
+      setInput('')
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to send input')
+    }
+  }
+
+  return (
+    <div class="jobs-panel">
+      <div class="jobs-header">
+        <h2>Background Jobs</h2>
+        <Show when={props.onClose}>
+          <button onClick={props.onClose} class="jobs-btn jobs-btn-icon" title="Close">
+            ✕
+          </button>
+        </Show>
+      </div>
+
+      <Show when={error()}>
+        <div class="jobs-error">{error()}</div>
+      </Show>
+
+      <Show
+        when={jobs().length > 0}
+        fallback={<div class="jobs-empty">No background jobs. The agent starts them with bash and background: true.</div>}
+      >
+        <div class="jobs-list">
+          <For each={jobs()}>
+            {(job) => (
+              <div
+                class={`jobs-item ${selected() === job.id ? 'active' : ''}`}
+                onClick={() => setSelected(job.id)}
+                title={job.cwd}
+              >
+                <span class={`jobs-status jobs-status-${job.status}`} />
+                <span class="jobs-item-id">{job.id}</span>
+                <span class="jobs-item-command">{job.command}</span>
+                <span class="jobs-item-state">{describeJobStatus(job)}</span>
+                <Show when={job.status === 'running'}>
+                  <button
+                    class="jobs-btn jobs-btn-danger"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      killJob(job.id)
+                    }}
+                  >
+                    Kill
+                  </button>
+                </Show>
+              </div>
+            )}
+          </For>
+        </div>
+
+        <Show when={selectedJob()}>
+          {(job) => (
+            <>
+              <pre class="jobs-output" ref={outputRef}>{output() || '(no output yet)'}</pre>
+              <Show when={job().status === 'running'}>
+                <form class="jobs-input" onSubmit={sendInput}>
+                  <input
+                    type="text"
+                    value={input()}
+                    onInput={(e) => setInput(e.currentTarget.value)}
+                    placeholder={`Send a line to ${job().id}`}
+                  />
+                  <button type="submit" class="jobs-btn">Send</button>
+                </form>
+              </Show>
+            </>
+          )}
+        </Show>
+      </Show>
+    </div>
+  )
+}
+
+export default JobsPanel
@@ -1,13 +1,24 @@
-import { getProvider, getAllToolDefinitions, type ProviderConfig, type ChatMessage, type ContentBlock } from './providers'
+import { getProvider, getAllToolDefinitions, getContextWindow, type ProviderConfig, type ChatMessage, type ContentBlock } from './providers'
 import { getSystemPrompt } from './prompt'
-import { executeTool } from './tools'
-import { loadConfig, needsConfirmation, type SubagentConfig } from './config'
-import { runSubagentsParallel } from './subagent'
-import type { AgentEvent, Message, SubagentTask } from './types'
+import { DEFAULT_MAIN_MAX_ITERATIONS, loadFullConfig, needsConfirmation, type ModelPrice } from './config'
+import { createSubagentTasks, runTaskTool } from './subagent'
+import { Scratchpad } from './scratchpad'
+import { UsageLedger, estimateCost } from './usage'
+import { BudgetGuard, formatBudgetStop, loadDailySpend, type BudgetWarningCallback } from './budget'
+import { messageSubagentCall } from './inbox'
+import { groupToolCalls, runConcurrently, runToolCall, type PendingToolCall, type ToolCallOutcome } from './execution'
+import type { ToolApprovalCallback } from './permissions'
+import { buildContext, compactHistory, estimateTokens, needsCompaction, trimToolResults, withSummary } from './compaction'
+import { createPlan, isAllowedInPlanMode } from './plan'
+import type { CheckpointContext } from './checkpoints'
+import type { ToolContext } from './tools'
+import type { AgentEvent, CompactionRecord, Message, Plan, ScratchpadEntry, SessionMode, SubagentTask, UsageTotals } from './types'
 
-const MAX_ITERATIONS = 25
 const DOOM_LOOP_THRESHOLD = 3
 
+// User message of a turn resumed after the iteration limit
+export const CONTINUE_PROMPT = 'Continue working on the task. You have more iterations available now.'
+
 interface ToolCallTracker {
   name: string
   argsHash: string
@@ -35,9 +46,43 @@ function checkDoomLoop(
   return false
 }
 
+function doomLoopOutcome(call: PendingToolCall): ToolCallOutcome {
+  return {
+    event: {
+      type: 'tool_result',
+      id: call.id,
+      output: '',
+      error: `Doom loop detected: ${call.name} called ${DOOM_LOOP_THRESHOLD}+ times with identical arguments. Breaking loop.`
+    },
+    result: {
+      type: 'tool_result',
+      tool_use_id: call.id,
+      content: `Error: Detected repeated identical calls to ${call.name}. Please try a different approach.`,
+      is_error: true
+    }
+  }
+}
+
 export interface AgentConfig {
   provider?: ProviderConfig['provider']
   model?: string
+  compaction?: CompactionRecord  // Latest compaction of this conversation, if any
+  mode?: SessionMode             // 'plan' restricts tools to read-only ones and ends with submit_plan
+  plan?: Plan                    // Approved plan to follow in execute mode
+  checkpoint?: CheckpointContext // Where to snapshot files before tools change them
+  sessionUsage?: UsageTotals     // What the session used before this turn, for its budget
+  sessionId?: string             // Owns the persistent shell and background jobs of bash
+  usage?: UsageLedger            // Collects the turn's tokens, so the caller can record them however the turn ends
+  scratchpad?: ScratchpadEntry[] // The session's scratchpad - its subagents read and add to it
+}
+
+/**
+ * Count a compaction's summary request towards the turn's usage
+ */
+function recordCompactionUsage(usage: UsageLedger | undefined, model: string, pricing: Record<string, ModelPrice>) {
+  return (tokens: { inputTokens: number; outputTokens: number }) => {
+    usage?.add('compaction', model, { ...tokens, cost: estimateCost(model, tokens, pricing) })
+  }
 }
 
 // Callback for subagent confirmation flow
@@ -48,47 +93,106 @@ export async function* agentLoop(
   history: Message[],
   workingDir: string,
   config?: AgentConfig,
-  onSubagentConfirm?: SubagentConfirmCallback
+  onSubagentConfirm?: SubagentConfirmCallback,
+  signal?: AbortSignal,
+  onToolApproval?: ToolApprovalCallback,
+  onBudgetWarning?: BudgetWarningCallback
 ): AsyncGenerator<AgentEvent> {
-  const systemPrompt = await getSystemPrompt(workingDir)
-  const subagentConfig = await loadConfig(workingDir)
+  const mode = config?.mode ?? 'execute'
+  const planMode = mode === 'plan'
+  const baseSystemPrompt = await getSystemPrompt(workingDir, mode, config?.plan)
+  const fullConfig = await loadFullConfig(workingDir)
+  const subagentConfig = fullConfig.subagents
+  const compactionConfig = fullConfig.compaction
+  const toolConfig = fullConfig.tools
+  const maxIterations = fullConfig.mainChat?.maxIterations ?? DEFAULT_MAIN_MAX_ITERATIONS
+  const toolContext: ToolContext = { sessionId: config?.sessionId, persistentShell: toolConfig.persistentShell }
   const toolCallHistory: ToolCallTracker[] = []
+  // Shared by all subagents of the session, created with the first task call
+  let scratchpad: Scratchpad | undefined
 
   // Get the LLM provider
   const provider = getProvider({
     provider: config?.provider,
     model: config?.model
   })
+  const contextWindow = getContextWindow(provider.name, provider.model)
+
+  // Build messages for API (provider-agnostic format), replaying earlier tool calls
+  let compaction = config?.compaction
+  let systemPrompt = withSummary(baseSystemPrompt, compaction)
+  let messages: ChatMessage[] = buildContext(history, compaction)
 
-  // Build messages for API (provider-agnostic format)
-  const messages: ChatMessage[] = history.map(msg => ({
-    role: msg.role,
-    content: msg.content
-  }))
+  // Tokens of the main agent, every subagent and any compaction of this turn
+  const usage = config?.usage ?? new UsageLedger()
+
+  // Summarize older turns before they push us over the context window
+  const estimated = estimateTokens(messages, systemPrompt, getAllToolDefinitions(subagentConfig.roles, planMode)) + Math.ceil(userMessage.length / 4)
+  if (needsCompaction(estimated, contextWindow, compactionConfig)) {
+    try {
+      const record = await compactHistory({
+        history,
+        previous: compaction,
+        provider,
+        contextWindow,
+        config: compactionConfig,
+        trigger: 'auto',
+        signal,
+        onUsage: recordCompactionUsage(usage, provider.model, fullConfig.pricing)
+      })
+      if (record) {
+        compaction = record
+        systemPrompt = withSummary(baseSystemPrompt, record)
+        messages = buildContext(history, record)
+        yield { type: 'compaction', record }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        yield { type: 'interrupted', usage: usage.summary() }
+        return
+      }
+      console.warn('Context compaction failed:', error)
+    }
+  }
 
   // Add user message
   messages.push({ role: 'user', content: userMessage })
 
   let iterations = 0
-  let totalInputTokens = 0
-  let totalOutputTokens = 0
+  const budget = new BudgetGuard(fullConfig.budget, usage, {
+    session: config?.sessionUsage ?? { inputTokens: 0, outputTokens: 0 },
+    daily: await loadDailySpend(workingDir)
+  }, onBudgetWarning)
+  let planReminderSent = false
+
+  while (iterations < maxIterations) {
+    if (signal?.aborted) {
+      yield { type: 'interrupted', usage: usage.summary() }
+      return
+    }
+
+    // Budgets are checked before every provider call - past the warning threshold the user is asked
+    const budgetStop = await budget.check()
+    if (budgetStop) {
+      yield { type: 'budget_exceeded', ...budgetStop, message: formatBudgetStop(budgetStop), usage: usage.summary() }
+      return
+    }
 
-  while (iterations < MAX_ITERATIONS) {
     iterations++
 
     try {
       // Track tool calls from this iteration
       const pendingTools: Map<string, { name: string; input: Record<string, unknown> }> = new Map()
-      let hasTextContent = false
+      let textContent = ''
 
       // Get tools including MCP tools (dynamic at each iteration)
-      const tools = getAllToolDefinitions(true)
+      const tools = getAllToolDefinitions(subagentConfig.roles, planMode)
 
       // Stream from provider
-      for await (const event of provider.stream(messages, systemPrompt, tools)) {
+      for await (const event of provider.stream(messages, systemPrompt, tools, signal)) {
         switch (event.type) {
           case 'text_delta':
-            hasTextContent = true
+            textContent += event.delta
             yield { type: 'text_delta', delta: event.delta }
             break
 
@@ -106,26 +210,42 @@ export async function* agentLoop(
             if (tool) {
               tool.input = event.input
             }
+            yield { type: 'tool_input', id: event.id, input: event.input }
             break
 
           case 'message_complete':
-            totalInputTokens += event.usage.inputTokens
-            totalOutputTokens += event.usage.outputTokens
+            usage.add('main', provider.model, { ...event.usage, cost: estimateCost(provider.model, event.usage, fullConfig.pricing) })
+            yield { type: 'context_usage', model: provider.model, usedTokens: event.usage.inputTokens, contextWindow }
+            // A single long turn can also outgrow the window - shrink older tool outputs
+            if (needsCompaction(event.usage.inputTokens, contextWindow, compactionConfig)) {
+              trimToolResults(messages, compactionConfig.maxToolOutputChars)
+            }
             break
         }
       }
 
+      // A plan mode turn has to end with submit_plan - remind the model once
+      if (pendingTools.size === 0 && planMode && textContent.trim() && !planReminderSent) {
+        planReminderSent = true
+        messages.push({ role: 'assistant', content: textContent })
+        messages.push({ role: 'user', content: 'You are in plan mode. Call submit_plan with your plan so the user can review it.' })
+        continue
+      }
+
       // If no tools were called, we're done
       if (pendingTools.size === 0) {
         yield {
           type: 'turn_complete',
-          usage: { inputTokens: totalInputTokens, outputTokens: totalOutputTokens }
+          usage: usage.summary()
         }
         return
       }
 
-      // Build assistant message with tool uses
+      // Build assistant message with text and tool uses
       const assistantContent: ContentBlock[] = []
+      if (textContent) {
+        assistantContent.push({ type: 'text', text: textContent })
+      }
       for (const [id, tool] of pendingTools) {
         assistantContent.push({
           type: 'tool_use',
@@ -136,40 +256,100 @@ export async function* agentLoop(
       }
       messages.push({ role: 'assistant', content: assistantContent })
 
-      // Execute tools and collect results
+      // Execute tools and collect results (in the order the model called them)
       const toolResults: ContentBlock[] = []
+      let planSubmitted = false
+      const calls = [...pendingTools].map(([id, tool]) => ({ id, ...tool }))
+
+      for (const batch of groupToolCalls(calls)) {
+        // Don't start further tools once the turn has been stopped
+        if (signal?.aborted) break
+
+        // Consecutive read-only calls run concurrently
+        if (batch.length > 1) {
+          const results: ContentBlock[] = []
+          const runnable: PendingToolCall[] = []
+          for (const call of batch) {
+            if (checkDoomLoop(toolCallHistory, call.name, call.input)) {
+              const outcome = doomLoopOutcome(call)
+              yield outcome.event
+              results[batch.indexOf(call)] = outcome.result
+            } else {
+              runnable.push(call)
+            }
+          }
+
+          for await (const update of runConcurrently(
+            runnable,
+            toolConfig.maxConcurrent,
+            call => runToolCall(call, workingDir, signal, onToolApproval, undefined, config?.checkpoint, toolContext),
+            signal
+          )) {
+            const call = runnable[update.index]!
+            if (update.type === 'start') {
+              yield { type: 'tool_running', id: call.id }
+            } else {
+              yield update.result.event
+              results[batch.indexOf(call)] = update.result.result
+            }
+          }
+
+          toolResults.push(...results.filter(Boolean))
+          continue
+        }
+
+        const { id, ...tool } = batch[0]!
 
-      for (const [id, tool] of pendingTools) {
         // Check for doom loop
         if (checkDoomLoop(toolCallHistory, tool.name, tool.input)) {
-          yield {
-            type: 'tool_result',
-            id,
-            output: '',
-            error: `Doom loop detected: ${tool.name} called ${DOOM_LOOP_THRESHOLD}+ times with identical arguments. Breaking loop.`
-          }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: `Error: Detected repeated identical calls to ${tool.name}. Please try a different approach.`,
-            is_error: true
-          })
+          const outcome = doomLoopOutcome(batch[0]!)
+          yield outcome.event
+          toolResults.push(outcome.result)
           continue
         }
 
         yield { type: 'tool_running', id }
 
+        // Plan mode: submit_plan ends the turn, anything that could change the project is refused
+        if (planMode && tool.name === 'submit_plan') {
+          const plan = createPlan(tool.input)
+          const output = plan.steps.length > 0
+            ? 'Plan submitted for the user to review.'
+            : 'Error: the plan has no steps.'
+          if (plan.steps.length > 0) {
+            planSubmitted = true
+            yield { type: 'plan_proposed', plan }
+          }
+          yield { type: 'tool_result', id, output }
+          toolResults.push({ type: 'tool_result', tool_use_id: id, content: output, is_error: !planSubmitted })
+          continue
+        }
+        if (planMode && !isAllowedInPlanMode(tool.name, tool.input)) {
+          const error = `${tool.name} is not available in plan mode - only read-only tools and commands can be used until the plan is approved`
+          yield { type: 'tool_result', id, output: '', error }
+          toolResults.push({ type: 'tool_result', tool_use_id: id, content: `Error: ${error}`, is_error: true })
+          continue
+        }
+
+        if (tool.name === 'message_subagent') {
+          const outcome = messageSubagentCall({ id, ...tool }, 'the main agent')
+          yield outcome.event
+          toolResults.push(outcome.result)
+          continue
+        }
+
         // Special handling for the task tool (subagent spawning)
         if (tool.name === 'task') {
-          const taskInput = tool.input as { tasks: Array<{ description: string; role: string; context?: string }> }
-
-          // Assign IDs to tasks
-          const tasks: SubagentTask[] = taskInput.tasks.map((t, i) => ({
-            id: `subagent_${Date.now()}_${i}`,
-            description: t.description,
-            role: t.role as 'simple' | 'complex' | 'researcher',
-            context: t.context
-          }))
+          // Roles the model made up and broken dependencies go back to it as an error
+          let tasks: SubagentTask[]
+          try {
+            tasks = createSubagentTasks(tool.input, subagentConfig)
+          } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+            yield { type: 'tool_result', id, output: '', error: errorMsg }
+            toolResults.push({ type: 'tool_result', tool_use_id: id, content: `Error: ${errorMsg}`, is_error: true })
+            continue
+          }
 
           // Check if confirmation is needed
           let confirmedTasks = tasks
@@ -195,51 +375,25 @@ export async function* agentLoop(
                 }
                 continue
               }
-              confirmedTasks = confirmed
+              // Tasks removed in the dialog no longer hold up the ones that depended on them
+              const confirmedIds = new Set(confirmed.map(t => t.id))
+              confirmedTasks = confirmed.map(t => t.dependsOn
+                ? { ...t, dependsOn: t.dependsOn.filter(dep => confirmedIds.has(dep)) }
+                : t)
               yield { type: 'subagent_confirmed', tasks: confirmedTasks }
             }
           }
 
           // Run subagents in parallel, passing parent's provider/model as default
-          const summaries: Map<string, string> = new Map()
-          const subagentResults: Array<{ taskId: string; summary: string; fullHistory: Message[] }> = []
           const parentConfig = { provider: config?.provider, model: config?.model }
+          const { output, details } = yield* runTaskTool(confirmedTasks, workingDir, subagentConfig, {
+            parentConfig, signal, onToolApproval, checkpoint: config?.checkpoint,
+            scratchpad: scratchpad ??= new Scratchpad(config?.scratchpad),
+            usage,
+            budget
+          })
 
-          for await (const event of runSubagentsParallel(confirmedTasks, workingDir, subagentConfig, parentConfig)) {
-            yield event
-
-            // Collect results
-            if (event.type === 'subagent_complete') {
-              summaries.set(event.taskId, event.summary)
-              subagentResults.push({
-                taskId: event.taskId,
-                summary: event.summary,
-                fullHistory: event.fullHistory
-              })
-            } else if (event.type === 'subagent_error') {
-              summaries.set(event.taskId, `Error: ${event.error}`)
-              subagentResults.push({
-                taskId: event.taskId,
-                summary: `Error: ${event.error}`,
-                fullHistory: event.fullHistory
-              })
-            }
-          }
-
-          // Format summaries for parent agent (lean context - only summaries, not full history)
-          const output = confirmedTasks.map((task, i) =>
-            `## Task ${i + 1}: ${task.description}\n\n${summaries.get(task.id) || '(no result)'}`
-          ).join('\n\n---\n\n')
-
-          yield {
-            type: 'tool_result',
-            id,
-            output,
-            details: {
-              type: 'subagent',
-              data: { tasks: confirmedTasks, results: subagentResults }
-            }
-          }
+          yield { type: 'tool_result', id, output, details }
           toolResults.push({
             type: 'tool_result',
             tool_use_id: id,
@@ -249,46 +403,39 @@ export async function* agentLoop(
         }
 
         // Normal tool execution
-        try {
-          const result = await executeTool(tool.name, tool.input, workingDir)
-          yield {
-            type: 'tool_result',
-            id,
-            output: result.output,
-            details: result.details
-          }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: result.output
-          })
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-          yield {
-            type: 'tool_result',
-            id,
-            output: '',
-            error: errorMsg
-          }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: `Error: ${errorMsg}`,
-            is_error: true
-          })
-        }
+        const outcome = await runToolCall({ id, ...tool }, workingDir, signal, onToolApproval, undefined, config?.checkpoint, toolContext)
+        yield outcome.event
+        toolResults.push(outcome.result)
       }
 
       // Add tool results as user message
       messages.push({ role: 'user', content: toolResults })
 
+      // The plan is with the user now - wait for their approval
+      if (planSubmitted) {
+        yield {
+          type: 'turn_complete',
+          usage: usage.summary()
+        }
+        return
+      }
+
     } catch (error) {
+      // Provider stream throws when aborted - stop quietly
+      if (signal?.aborted) {
+        yield { type: 'interrupted', usage: usage.summary() }
+        return
+      }
+
       // Handle rate limits with exponential backoff
       const errorMessage = error instanceof Error ? error.message : String(error)
       if (errorMessage.toLowerCase().includes('rate limit')) {
         const waitTime = Math.min(60, Math.pow(2, iterations) * 2)
         yield { type: 'retry_countdown', seconds: waitTime, reason: 'Rate limit exceeded' }
-        await new Promise(resolve => setTimeout(resolve, waitTime * 1000))
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, waitTime * 1000)
+          signal?.addEventListener('abort', () => { clearTimeout(timer); resolve() }, { once: true })
+        })
         iterations-- // Don't count rate limit retries
         continue
       }
@@ -296,5 +443,34 @@ export async function* agentLoop(
     }
   }
 
-  yield { type: 'error', error: `Max iterations (${MAX_ITERATIONS}) reached` }
+  // The turn's tool calls are saved with it, so it can pick up from here
+  yield { type: 'max_iterations', iterations: maxIterations, usage: usage.summary() }
+}
+
+/**
+ * Compact a conversation on demand (the /compact command)
+ * Returns null if there are not enough turns to compact
+ */
+export async function compactConversation(
+  history: Message[],
+  workingDir: string,
+  config?: AgentConfig,
+  signal?: AbortSignal
+): Promise<CompactionRecord | null> {
+  const fullConfig = await loadFullConfig(workingDir)
+  const provider = getProvider({
+    provider: config?.provider,
+    model: config?.model
+  })
+
+  return compactHistory({
+    history,
+    previous: config?.compaction,
+    provider,
+    contextWindow: getContextWindow(provider.name, provider.model),
+    config: fullConfig.compaction,
+    trigger: 'manual',
+    signal,
+    onUsage: recordCompactionUsage(config?.usage, provider.model, fullConfig.pricing)
+  })
 }
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { loadFullConfig } from './config'
+import { BudgetGuard } from './budget'
+import { UsageLedger } from './usage'
+
+let workingDir: string
+
+beforeEach(async () => {
+  workingDir = await mkdtemp(join(tmpdir(), 'budget-'))
+  await mkdir(join(workingDir, '.agent'))
+})
+
+afterEach(async () => {
+  await rm(workingDir, { recursive: true, force: true })
+})
+
+test('a budget-only config stops the turn at its limit', async () => {
+  await writeFile(join(workingDir, '.agent', 'config.json'), JSON.stringify({
+    budget: { turn: { tokens: 1000 }, warnAt: 1 }
+  }))
+  const { budget: config } = await loadFullConfig(workingDir)
+  const usage = new UsageLedger()
+  const none = { inputTokens: 0, outputTokens: 0 }
+  const guard = new BudgetGuard(config, usage, { session: none, daily: none })
+
+  expect(await guard.check()).toBeNull()
+  usage.add('main', 'model', { inputTokens: 900, outputTokens: 200 })
+  expect(await guard.check()).toMatchObject({ budget: { scope: 'turn', unit: 'tokens', limit: 1000 }, declined: false })
+})
@@ -0,0 +1,167 @@
+/**
+ * Token and Spend Budgets
+ *
+ * Limits from `budget` in config.json, in tokens and/or estimated dollars:
+ * - turn: one turn of the main agent, its subagents included
+ * - session: everything the session has used
+ * - daily: everything used in this working directory today (local time)
+ *
+ * The main agent and every subagent check the budgets before each provider call.
+ * Once a limit is reached they stop. Past `warnAt` of a limit the user is asked
+ * once whether to go on - stopping then works the same as reaching the limit.
+ *
+ * Daily spend is kept in .agent/spend.json so the limit holds across restarts.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { dirname, join } from 'path'
+import type { BudgetConfig } from './config'
+import { addUsage, type UsageLedger } from './usage'
+import type { BudgetUsage, UsageTotals } from './types'
+
+const SPEND_PATH = '.agent/spend.json'
+
+// Days kept in the spend file
+const KEEP_DAYS = 31
+
+// Usage by local date (YYYY-MM-DD)
+type DailySpend = Record<string, UsageTotals>
+
+// Asks the user whether to go on past the warning threshold - resolves true to continue
+export type BudgetWarningCallback = (budget: BudgetUsage) => Promise<boolean>
+
+// Why the budget guard stopped a turn
+export interface BudgetStop {
+  budget: BudgetUsage
+  declined: boolean  // The user chose to stop at the warning
+}
+
+const SCOPES: BudgetUsage['scope'][] = ['turn', 'session', 'daily']
+
+function today(): string {
+  return new Date().toLocaleDateString('en-CA')
+}
+
+async function loadSpend(workingDir: string): Promise<DailySpend> {
+  try {
+    return JSON.parse(await readFile(join(workingDir, SPEND_PATH), 'utf-8'))
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * What has been used in this working directory today
+ */
+export async function loadDailySpend(workingDir: string): Promise<UsageTotals> {
+  const spend = await loadSpend(workingDir)
+  return spend[today()] ?? { inputTokens: 0, outputTokens: 0 }
+}
+
+// Writes are chained so concurrent turns don't lose each other's spend
+let writing: Promise<void> = Promise.resolve()
+
+/**
+ * Add usage to today's spend
+ */
+export function recordDailySpend(workingDir: string, usage: UsageTotals): Promise<void> {
+  writing = writing.then(async () => {
+    const path = join(workingDir, SPEND_PATH)
+    const spend = await loadSpend(workingDir)
+    const day = today()
+    spend[day] = addUsage(spend[day], usage)
+
+    // Only recent days matter
+    const kept = Object.keys(spend).sort().slice(-KEEP_DAYS)
+    const trimmed = Object.fromEntries(kept.map(d => [d, spend[d]!]))
+
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, JSON.stringify(trimmed, null, 2), 'utf-8')
+  }).catch(error => {
+    console.warn('Failed to record daily spend:', error)
+  })
+  return writing
+}
+
+function formatAmount(unit: BudgetUsage['unit'], amount: number): string {
+  return unit === 'cost' ? `$${amount.toFixed(2)}` : `${Math.round(amount)} tokens`
+}
+
+/**
+ * Why a turn or subagent stopped, for the user and the history
+ */
+export function formatBudgetStop(stop: BudgetStop): string {
+  const { scope, unit, limit, used } = stop.budget
+  const amounts = `${formatAmount(unit, used)} of ${formatAmount(unit, limit)}`
+  return stop.declined
+    ? `Stopped at the ${scope} ${unit === 'cost' ? 'spend' : 'token'} budget warning (${amounts})`
+    : `The ${scope} ${unit === 'cost' ? 'spend' : 'token'} budget is used up (${amounts})`
+}
+
+/**
+ * Checks the budgets against a turn's ledger
+ * Shared by the main agent and the subagents of the turn
+ */
+export class BudgetGuard {
+  private warned: Set<string> = new Set()
+  private asking: Promise<void> | null = null
+  private stop: BudgetStop | null = null
+
+  constructor(
+    private config: BudgetConfig,
+    private turn: UsageLedger,
+    private spent: { session: UsageTotals; daily: UsageTotals },  // Before this turn
+    private onWarning?: BudgetWarningCallback
+  ) {}
+
+  private budgets(): BudgetUsage[] {
+    const turn = this.turn.total()
+    const used: Record<BudgetUsage['scope'], UsageTotals> = {
+      turn,
+      session: addUsage(this.spent.session, turn),
+      daily: addUsage(this.spent.daily, turn)
+    }
+
+    const budgets: BudgetUsage[] = []
+    for (const scope of SCOPES) {
+      const { tokens, cost } = this.config[scope]
+      if (tokens) {
+        budgets.push({ scope, unit: 'tokens', limit: tokens, used: used[scope].inputTokens + used[scope].outputTokens })
+      }
+      if (cost) {
+        budgets.push({ scope, unit: 'cost', limit: cost, used: used[scope].cost ?? 0 })
+      }
+    }
+    return budgets
+  }
+
+  /**
+   * Check before a provider call - returns why to stop, or null to go on
+   * While the user is being asked, every caller waits for the answer
+   */
+  async check(): Promise<BudgetStop | null> {
+    while (this.asking) {
+      await this.asking
+    }
+    if (this.stop) return this.stop
+
+    const budgets = this.budgets()
+    const reached = budgets.find(b => b.used >= b.limit)
+    if (reached) {
+      this.stop = { budget: reached, declined: false }
+      return this.stop
+    }
+
+    const warning = budgets.find(b => b.used >= b.limit * this.config.warnAt && !this.warned.has(`${b.scope}:${b.unit}`))
+    if (warning && this.onWarning) {
+      this.warned.add(`${warning.scope}:${warning.unit}`)
+      this.asking = this.onWarning(warning).then(goOn => {
+        if (!goOn) this.stop = { budget: warning, declined: true }
+      }).finally(() => {
+        this.asking = null
+      })
+      await this.asking
+    }
+    return this.stop
+  }
+}
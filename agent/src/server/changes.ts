@@ -0,0 +1,195 @@
+/**
+ * Subagent Changesets
+ *
+ * Records every file a subagent creates, modifies or deletes. The first time a
+ * file is touched, its content is kept; when the subagent finishes, each file is
+ * compared with that original to build the changeset.
+ *
+ * How touched files are found:
+ * - write_file / edit_file / multi_edit / apply_patch: the paths they name
+ * - bash and other tools that may write: in a git repository the working tree is
+ *   scanned before and after the call (tracked changes and untracked files, not
+ *   ignored ones). Elsewhere only the paths a bash command visibly touches are
+ *   known (see getBashTargets).
+ *
+ * Subagents that share a working directory run concurrently, so a file another
+ * subagent changes during one of this subagent's bash commands is counted too.
+ */
+
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join, relative, resolve } from 'path'
+import { getCheckpointTargets } from './checkpoints'
+import { isReadOnlyTool } from './tools'
+import { git } from './worktree'
+import type { SubagentFileChange } from './types'
+
+// The agent's own state changes all the time and is never part of a changeset
+const IGNORED_PREFIXES = ['.agent/', '.git/']
+
+// Tools that only change the paths named in their input
+const FILE_WRITE_TOOLS = ['write_file', 'edit_file', 'multi_edit', 'apply_patch']
+
+// Working trees with more changed files than this aren't scanned
+const MAX_SCANNED_FILES = 1000
+
+// Content of each file before the subagent first changed it - null if it didn't exist
+export type FileOriginals = Record<string, string | null>
+
+// Dirty and untracked files of a working tree, with their content
+type WorkingTreeScan = Map<string, string | null>
+
+async function readContent(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Scan the files git reports as changed or untracked under `workingDir`
+ * Returns null outside a git repository, or when there are too many to scan
+ */
+async function scanWorkingTree(workingDir: string): Promise<WorkingTreeScan | null> {
+  const status = await git(['status', '--porcelain', '-z', '--untracked-files=all', '--', '.'], workingDir)
+  if (status.code !== 0) return null
+  const prefix = (await git(['rev-parse', '--show-prefix'], workingDir)).stdout.trim()
+
+  // Entries are "XY path", renames are followed by their original path
+  const paths: string[] = []
+  const entries = status.stdout.split('\0')
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]!
+    if (!entry) continue
+    paths.push(entry.slice(3).slice(prefix.length))
+    if (entry[0] === 'R' || entry[0] === 'C') {
+      paths.push(entries[++i]!.slice(prefix.length))
+    }
+  }
+  if (paths.length > MAX_SCANNED_FILES) return null
+
+  const scan: WorkingTreeScan = new Map()
+  for (const path of paths) {
+    if (!IGNORED_PREFIXES.some(p => `${path}/`.startsWith(p))) {
+      scan.set(path, await readContent(join(workingDir, path)))
+    }
+  }
+  return scan
+}
+
+/**
+ * Content of a file at HEAD - null if it isn't committed
+ */
+async function readCommitted(workingDir: string, path: string): Promise<string | null> {
+  const result = await git(['show', `HEAD:./${path}`], workingDir)
+  return result.code === 0 ? result.stdout : null
+}
+
+/**
+ * Unified diff between two versions of a file
+ */
+export async function diffContent(path: string, before: string | null, after: string | null): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'agent-diff-'))
+  try {
+    const write = async (side: string, content: string | null) => {
+      if (content === null) return '/dev/null'
+      const file = join(side, path)
+      await mkdir(dirname(join(dir, file)), { recursive: true })
+      await writeFile(join(dir, file), content, 'utf-8')
+      return file
+    }
+    const a = await write('a', before)
+    const b = await write('b', after)
+    // Exits with 1 when the files differ
+    const result = await git(['diff', '--no-index', '--no-prefix', '--no-color', '--', a, b], dir)
+    return result.stdout
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Tracks the files one subagent changes
+ * `originals` is the subagent's saved state, so a continued subagent keeps its changeset
+ */
+export class ChangeTracker {
+  constructor(
+    private workingDir: string,
+    readonly originals: FileOriginals = {}
+  ) {}
+
+  private toRelative(path: string): string | null {
+    const rel = relative(this.workingDir, resolve(this.workingDir, path))
+    if (rel.startsWith('..') || IGNORED_PREFIXES.some(p => `${rel}/`.startsWith(p))) return null
+    return rel
+  }
+
+  // Only the first original of a file counts
+  private remember(path: string, content: string | null): void {
+    if (!(path in this.originals)) {
+      this.originals[path] = content
+    }
+  }
+
+  /**
+   * Run a tool call, recording the files it changes
+   * `shellCwd` is where a bash command runs, when that isn't the working directory
+   */
+  async track<T>(name: string, input: Record<string, unknown>, run: () => Promise<T>, shellCwd?: string): Promise<T> {
+    if (isReadOnlyTool(name, input)) {
+      return run()
+    }
+
+    if (FILE_WRITE_TOOLS.includes(name)) {
+      for (const target of getCheckpointTargets(name, input, this.workingDir, shellCwd)) {
+        const path = this.toRelative(target)
+        if (path) this.remember(path, await readContent(join(this.workingDir, path)))
+      }
+      return run()
+    }
+
+    const before = await scanWorkingTree(this.workingDir)
+    if (!before) {
+      for (const target of getCheckpointTargets(name, input, this.workingDir, shellCwd)) {
+        const path = this.toRelative(target)
+        if (path) this.remember(path, await readContent(join(this.workingDir, path)))
+      }
+      return run()
+    }
+
+    try {
+      return await run()
+    } finally {
+      const after = await scanWorkingTree(this.workingDir)
+      for (const path of new Set([...before.keys(), ...(after?.keys() ?? [])])) {
+        if (path in this.originals) continue
+        if (!before.has(path)) {
+          // Clean before the call, so it started out as committed
+          this.remember(path, await readCommitted(this.workingDir, path))
+        } else if (!after?.has(path) || after.get(path) !== before.get(path)) {
+          this.remember(path, before.get(path)!)
+        }
+      }
+    }
+  }
+
+  /**
+   * Compare every touched file with its original
+   * Files that ended up unchanged are left out
+   */
+  async collect(): Promise<SubagentFileChange[]> {
+    const changes: SubagentFileChange[] = []
+    for (const [path, original] of Object.entries(this.originals)) {
+      const current = await readContent(join(this.workingDir, path))
+      if (current === original) continue
+
+      changes.push({
+        path,
+        status: original === null ? 'added' : current === null ? 'deleted' : 'modified',
+        diff: await diffContent(path, original, current)
+      })
+    }
+    return changes
+  }
+}
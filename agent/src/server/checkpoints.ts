@@ -0,0 +1,365 @@
+/**
+ * File Checkpoints
+ *
+ * Before a tool call changes a file, the file's current content is saved under
+ * .agent/checkpoints/<session>/<turn>/, so a whole turn (or one file from it)
+ * can be rolled back. Only the first snapshot of a file per turn is kept - that
+ * is the state the turn started from.
+ *
+ * What gets snapshotted:
+ * - write_file / edit_file / multi_edit: the target path (files that didn't exist are deleted on restore)
+ * - apply_patch: every path in the patch
+ * - bash: paths the command visibly removes, moves or overwrites (rm, unlink, mv, cp, > and >>)
+ *   Globs, variables and anything a script does internally can't be detected.
+ *   Relative paths are resolved in the persistent shell's directory when bash runs in one.
+ */
+
+import { readFile, writeFile, mkdir, readdir, stat, unlink, rm } from 'fs/promises'
+import { dirname, isAbsolute, join, relative, resolve } from 'path'
+import { getPatchPaths, parsePatch } from './patch'
+import type { Checkpoint, CheckpointFile } from './types'
+
+const CHECKPOINTS_DIR = '.agent/checkpoints'
+
+// Directories removed by bash are snapshotted file by file, up to this many files
+const MAX_DIRECTORY_FILES = 500
+
+// Never snapshot or restore the agent's own state
+const IGNORED_PREFIXES = ['.agent/', '.git/']
+
+// Identifies where snapshots of a tool call go
+export interface CheckpointContext {
+  sessionId: string
+  turnId: string
+}
+
+export interface RestoreResult {
+  restored: string[]  // Paths written back or deleted
+  errors: string[]
+}
+
+// Serializes manifest updates per turn - subagents write to the same turn concurrently
+const turnLocks: Map<string, Promise<void>> = new Map()
+
+// IDs come from URLs - anything but a plain name could point outside the checkpoints directory
+function checkId(kind: string, id: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid ${kind} ID: ${id}`)
+  }
+  return id
+}
+
+function getSessionDir(workingDir: string, sessionId: string): string {
+  return join(workingDir, CHECKPOINTS_DIR, checkId('session', sessionId))
+}
+
+function getTurnDir(workingDir: string, sessionId: string, turnId: string): string {
+  return join(getSessionDir(workingDir, sessionId), checkId('turn', turnId))
+}
+
+function withTurnLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = turnLocks.get(key) ?? Promise.resolve()
+  const result = previous.then(fn)
+  const done = result.then(() => {}, () => {})
+  turnLocks.set(key, done)
+  done.then(() => {
+    if (turnLocks.get(key) === done) turnLocks.delete(key)
+  })
+  return result
+}
+
+/**
+ * Split a shell command into words, honouring simple quoting
+ * Returns null for commands we can't safely reason about
+ */
+function splitWords(segment: string): string[] | null {
+  if (/[`$*?[{]/.test(segment)) return null
+  const words: string[] = []
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(segment)) !== null) {
+    words.push(match[1] ?? match[2] ?? match[3]!)
+  }
+  return words
+}
+
+/**
+ * Find the paths a bash command removes, moves or overwrites
+ */
+export function getBashTargets(command: string): string[] {
+  const targets: string[] = []
+
+  for (const segment of command.split(/&&|\|\||;|\|/)) {
+    // Output redirection overwrites (or creates) the target
+    for (const redirect of segment.matchAll(/\d?>>?\s*("[^"]+"|'[^']+'|[^\s;&|]+)/g)) {
+      const target = redirect[1]!.replace(/^["']|["']$/g, '')
+      if (!target.startsWith('&') && target !== '/dev/null') {
+        targets.push(target)
+      }
+    }
+
+    const words = splitWords(segment.replace(/\d?>>?\s*("[^"]+"|'[^']+'|[^\s;&|]+)/g, ''))
+    if (!words || words.length === 0) continue
+
+    const [program, ...args] = words[0] === 'sudo' ? words.slice(1) : words
+    const paths = args.filter(arg => !arg.startsWith('-'))
+
+    switch (program) {
+      case 'rm':
+      case 'unlink':
+      case 'rmdir':
+        targets.push(...paths)
+        break
+      case 'mv':
+        // Sources disappear, the destination may be overwritten
+        targets.push(...paths)
+        break
+      case 'cp':
+        // Only the destination changes
+        if (paths.length >= 2) targets.push(paths[paths.length - 1]!)
+        break
+      case 'git':
+        if (args[0] === 'rm' || args[0] === 'mv') {
+          targets.push(...args.slice(1).filter(arg => !arg.startsWith('-')))
+        } else if (args[0] === 'checkout' && args.includes('--')) {
+          targets.push(...args.slice(args.indexOf('--') + 1))
+        }
+        break
+    }
+  }
+
+  return targets
+}
+
+/**
+ * Get the absolute paths a tool call may change
+ * File tools' paths are relative to `workingDir`, a bash command's to `shellCwd` -
+ * where the session's shell is, which may not be the working directory
+ */
+export function getCheckpointTargets(
+  name: string,
+  input: Record<string, unknown>,
+  workingDir: string,
+  shellCwd: string = workingDir
+): string[] {
+  if ((name === 'write_file' || name === 'edit_file' || name === 'multi_edit') && typeof input.path === 'string') {
+    return [resolve(workingDir, input.path)]
+  }
+  if (name === 'apply_patch' && typeof input.patch === 'string') {
+    try {
+      return getPatchPaths(parsePatch(input.patch)).map(path => resolve(workingDir, path))
+    } catch {
+      // The tool rejects a patch it can't parse without touching anything
+      return []
+    }
+  }
+  if (name === 'bash' && typeof input.command === 'string') {
+    return getBashTargets(input.command).map(path => resolve(shellCwd, path))
+  }
+  return []
+}
+
+/**
+ * Snapshot the files a tool call is about to change
+ * Failures are logged rather than thrown - a missing snapshot shouldn't block the tool
+ */
+export async function checkpointToolCall(
+  context: CheckpointContext,
+  workingDir: string,
+  toolId: string,
+  name: string,
+  input: Record<string, unknown>,
+  shellCwd: string = workingDir
+): Promise<void> {
+  const targets = getCheckpointTargets(name, input, workingDir, shellCwd)
+  if (targets.length === 0) return
+
+  const turnDir = getTurnDir(workingDir, context.sessionId, context.turnId)
+  await withTurnLock(turnDir, async () => {
+    const checkpoint = await loadCheckpoint(workingDir, context.sessionId, context.turnId) ?? {
+      sessionId: context.sessionId,
+      turnId: context.turnId,
+      createdAt: new Date().toISOString(),
+      files: []
+    }
+    const before = checkpoint.files.length
+
+    for (const target of targets) {
+      try {
+        await snapshotPath(checkpoint, turnDir, workingDir, target, toolId, name)
+      } catch (error) {
+        console.warn(`Checkpoint of ${target} failed:`, error)
+      }
+    }
+
+    if (checkpoint.files.length > before) {
+      await mkdir(turnDir, { recursive: true })
+      await writeFile(join(turnDir, 'checkpoint.json'), JSON.stringify(checkpoint, null, 2), 'utf-8')
+    }
+  })
+}
+
+/**
+ * Add a file (or every file in a directory) to a checkpoint, unless it's already in it
+ */
+async function snapshotPath(
+  checkpoint: Checkpoint,
+  turnDir: string,
+  workingDir: string,
+  absPath: string,
+  toolId: string,
+  tool: string
+): Promise<void> {
+  const path = toCheckpointPath(absPath, workingDir)
+  if (IGNORED_PREFIXES.some(prefix => `${path}/`.startsWith(prefix))) return
+
+  let info
+  try {
+    info = await stat(absPath)
+  } catch {
+    info = null
+  }
+
+  if (info?.isDirectory()) {
+    const files = await listFiles(absPath, MAX_DIRECTORY_FILES)
+    for (const file of files) {
+      await snapshotPath(checkpoint, turnDir, workingDir, file, toolId, tool)
+    }
+    return
+  }
+
+  if (checkpoint.files.some(f => f.path === path)) return
+
+  const entry: CheckpointFile = {
+    path,
+    existed: info !== null,
+    tool,
+    toolId,
+    createdAt: new Date().toISOString()
+  }
+
+  if (info) {
+    entry.snapshot = `files/${checkpoint.files.length}`
+    await mkdir(join(turnDir, 'files'), { recursive: true })
+    await writeFile(join(turnDir, entry.snapshot), await readFile(absPath))
+  }
+
+  checkpoint.files.push(entry)
+}
+
+async function listFiles(dir: string, limit: number): Promise<string[]> {
+  const files: string[] = []
+  const walk = async (current: string) => {
+    for (const entry of await readdir(current, { withFileTypes: true })) {
+      if (files.length >= limit) return
+      const full = join(current, entry.name)
+      if (entry.isDirectory()) {
+        await walk(full)
+      } else if (entry.isFile()) {
+        files.push(full)
+      }
+    }
+  }
+  await walk(dir)
+  return files
+}
+
+// Paths are stored relative to the working directory when inside it
+function toCheckpointPath(absPath: string, workingDir: string): string {
+  const rel = relative(workingDir, absPath)
+  return rel.startsWith('..') || isAbsolute(rel) ? absPath : rel
+}
+
+/**
+ * Load the checkpoint of one turn
+ */
+export async function loadCheckpoint(workingDir: string, sessionId: string, turnId: string): Promise<Checkpoint | null> {
+  try {
+    const content = await readFile(join(getTurnDir(workingDir, sessionId, turnId), 'checkpoint.json'), 'utf-8')
+    return JSON.parse(content) as Checkpoint
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List the checkpoints of a session, oldest turn first
+ */
+export async function listCheckpoints(workingDir: string, sessionId: string): Promise<Checkpoint[]> {
+  const sessionDir = getSessionDir(workingDir, sessionId)
+  let turnIds: string[]
+  try {
+    turnIds = await readdir(sessionDir)
+  } catch {
+    return []
+  }
+
+  const checkpoints: Checkpoint[] = []
+  for (const turnId of turnIds) {
+    const checkpoint = await loadCheckpoint(workingDir, sessionId, turnId)
+    if (checkpoint) checkpoints.push(checkpoint)
+  }
+
+  checkpoints.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  return checkpoints
+}
+
+/**
+ * Restore the files of a turn to how they were before it ran
+ * Pass `path` to restore a single file. Files the turn created are deleted.
+ */
+export async function restoreCheckpoint(
+  workingDir: string,
+  sessionId: string,
+  turnId: string,
+  path?: string
+): Promise<RestoreResult> {
+  const turnDir = getTurnDir(workingDir, sessionId, turnId)
+
+  return withTurnLock(turnDir, async () => {
+    const checkpoint = await loadCheckpoint(workingDir, sessionId, turnId)
+    if (!checkpoint) {
+      throw new Error(`No checkpoint for turn ${turnId}`)
+    }
+
+    const files = path ? checkpoint.files.filter(f => f.path === path) : checkpoint.files
+    if (path && files.length === 0) {
+      throw new Error(`${path} is not in the checkpoint for turn ${turnId}`)
+    }
+
+    const result: RestoreResult = { restored: [], errors: [] }
+    const restoredAt = new Date().toISOString()
+
+    for (const file of files) {
+      const absPath = resolve(workingDir, file.path)
+      try {
+        if (file.existed && file.snapshot) {
+          await mkdir(dirname(absPath), { recursive: true })
+          await writeFile(absPath, await readFile(join(turnDir, file.snapshot)))
+        } else {
+          await unlink(absPath).catch(error => {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+          })
+        }
+        file.restoredAt = restoredAt
+        result.restored.push(file.path)
+      } catch (error) {
+        result.errors.push(`${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    if (!path) {
+      checkpoint.restoredAt = restoredAt
+    }
+    await writeFile(join(turnDir, 'checkpoint.json'), JSON.stringify(checkpoint, null, 2), 'utf-8')
+
+    return result
+  })
+}
+
+/**
+ * Remove all checkpoints of a session
+ */
+export async function deleteCheckpoints(workingDir: string, sessionId: string): Promise<void> {
+  await rm(getSessionDir(workingDir, sessionId), { recursive: true, force: true })
+}
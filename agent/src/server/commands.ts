@@ -32,16 +32,16 @@ interface ParsedFrontmatter {
  * Parse YAML frontmatter from markdown content
  * Simple parser for key: value pairs
  */
-function parseFrontmatter(content: string): { frontmatter: ParsedFrontmatter; body: string } {
+export function parseFrontmatter<T extends object = ParsedFrontmatter>(content: string): { frontmatter: T; body: string } {
   const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/)
 
   if (!frontmatterMatch) {
-    return { frontmatter: {}, body: content }
+    return { frontmatter: {} as T, body: content }
   }
 
   const frontmatterStr = frontmatterMatch[1] || ''
   const body = frontmatterMatch[2] || ''
-  const frontmatter: ParsedFrontmatter = {}
+  const frontmatter = {} as T
 
   for (const line of frontmatterStr.split('\n')) {
     const match = line.match(/^(\S+):\s*(.*)$/)
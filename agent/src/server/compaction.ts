@@ -0,0 +1,174 @@
+/**
+ * Context Compaction
+ *
+ * Keeps long conversations inside the model's context window.
+ * Older turns are summarized into a condensed message while the most
+ * recent turns stay word for word. Each compaction is recorded in the
+ * session file so it can be inspected later.
+ */
+
+import type { ChatMessage, LLMProvider, ToolDefinition } from './providers'
+import { COMPACTION_PROMPT } from './prompt'
+import { historyToChatMessages } from './history'
+import type { CompactionConfig } from './config'
+import type { CompactionRecord, Message } from './types'
+
+// Rough token estimate - providers don't expose a tokenizer, ~4 chars per token
+const CHARS_PER_TOKEN = 4
+
+export interface CompactOptions {
+  history: Message[]
+  previous?: CompactionRecord
+  provider: LLMProvider
+  contextWindow: number
+  config: CompactionConfig
+  trigger: CompactionRecord['trigger']
+  signal?: AbortSignal
+  onUsage?: (usage: { inputTokens: number; outputTokens: number }) => void  // Tokens of the summary request
+}
+
+/**
+ * Estimate the token count of a request
+ */
+export function estimateTokens(
+  messages: ChatMessage[],
+  systemPrompt: string = '',
+  tools: ToolDefinition[] = []
+): number {
+  let chars = systemPrompt.length + JSON.stringify(tools).length
+  for (const msg of messages) {
+    chars += typeof msg.content === 'string' ? msg.content.length : JSON.stringify(msg.content).length
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN)
+}
+
+/**
+ * Check whether a context of this size should be compacted
+ */
+export function needsCompaction(tokens: number, contextWindow: number, config: CompactionConfig): boolean {
+  return config.enabled && tokens >= contextWindow * config.threshold
+}
+
+/**
+ * Append the compaction summary (if any) to the system prompt
+ */
+export function withSummary(systemPrompt: string, record?: CompactionRecord): string {
+  if (!record) return systemPrompt
+  return `${systemPrompt}
+
+<conversation_summary>
+The earlier part of this conversation was compacted. Summary:
+
+${record.summary}
+</conversation_summary>`
+}
+
+/**
+ * Build provider messages from history, skipping the messages
+ * already covered by the latest compaction summary
+ */
+export function buildContext(history: Message[], record?: CompactionRecord): ChatMessage[] {
+  const start = record ? Math.min(record.compactedMessages, history.length) : 0
+  return historyToChatMessages(history.slice(start))
+}
+
+/**
+ * Truncate large tool results in place, leaving the most recent messages untouched
+ * Used mid-turn when a single turn grows past the threshold
+ * Returns the number of tool results that were truncated
+ */
+export function trimToolResults(messages: ChatMessage[], maxChars: number, keepRecent: number = 2): number {
+  let trimmed = 0
+  for (const msg of messages.slice(0, Math.max(0, messages.length - keepRecent))) {
+    if (typeof msg.content === 'string') continue
+    for (const block of msg.content) {
+      if (block.type === 'tool_result' && block.content.length > maxChars) {
+        block.content = truncate(block.content, maxChars)
+        trimmed++
+      }
+    }
+  }
+  return trimmed
+}
+
+/**
+ * Summarize older turns of a conversation
+ * Keeps the last `keepRecentTurns` user turns verbatim
+ * Returns null if there is nothing old enough to compact
+ */
+export async function compactHistory(options: CompactOptions): Promise<CompactionRecord | null> {
+  const { history, previous, provider, contextWindow, config, trigger, signal, onUsage } = options
+
+  // Cut at the start of the oldest user turn we keep
+  const turnStarts = history
+    .map((msg, i) => (msg.role === 'user' ? i : -1))
+    .filter(i => i >= 0)
+  const cutIndex = turnStarts.length > config.keepRecentTurns
+    ? turnStarts[turnStarts.length - config.keepRecentTurns]!
+    : 0
+
+  const alreadyCompacted = previous?.compactedMessages ?? 0
+  if (cutIndex <= alreadyCompacted) {
+    return null
+  }
+
+  const transcript = renderTranscript(history.slice(alreadyCompacted, cutIndex), config.maxToolOutputChars)
+  const request = previous
+    ? `<previous_summary>\n${previous.summary}\n</previous_summary>\n\n<transcript>\n${transcript}\n</transcript>`
+    : `<transcript>\n${transcript}\n</transcript>`
+
+  let summary = ''
+  for await (const event of provider.stream([{ role: 'user', content: request }], COMPACTION_PROMPT, [], signal)) {
+    if (event.type === 'text_delta') {
+      summary += event.delta
+    } else if (event.type === 'message_complete') {
+      onUsage?.(event.usage)
+    }
+  }
+
+  summary = summary.trim()
+  if (!summary) {
+    throw new Error('Compaction produced an empty summary')
+  }
+
+  const record: CompactionRecord = {
+    id: `compaction_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+    trigger,
+    provider: provider.name,
+    model: provider.model,
+    contextWindow,
+    compactedMessages: cutIndex,
+    tokensBefore: estimateTokens(buildContext(history, previous), previous?.summary),
+    tokensAfter: 0,
+    summary
+  }
+  record.tokensAfter = estimateTokens(buildContext(history, record), summary)
+
+  return record
+}
+
+/**
+ * Render messages as plain text for the summarizer
+ */
+function renderTranscript(messages: Message[], maxToolOutputChars: number): string {
+  const parts: string[] = []
+
+  for (const msg of messages) {
+    if (msg.content) {
+      parts.push(`[${msg.role}]\n${msg.content}${msg.interrupted ? '\n[interrupted by user]' : ''}`)
+    }
+    for (const tool of msg.toolCalls || []) {
+      const input = typeof tool.input === 'string' ? tool.input : JSON.stringify(tool.input)
+      const result = tool.error ? `Error: ${tool.error}` : tool.output || '(no output)'
+      parts.push(`[tool ${tool.name}] ${truncate(input, 500)}\n${truncate(result, maxToolOutputChars)}`)
+    }
+  }
+
+  return parts.join('\n\n')
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text
+  return `${text.slice(0, maxChars)}\n[... ${text.length - maxChars} more characters truncated]`
+}
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DEFAULT_COMPACTION_CONFIG, loadFullConfig } from './config'
+import { estimateCost } from './usage'
+
+let workingDir: string
+
+beforeEach(async () => {
+  workingDir = await mkdtemp(join(tmpdir(), 'config-'))
+  await mkdir(join(workingDir, '.agent'))
+})
+
+afterEach(async () => {
+  await rm(workingDir, { recursive: true, force: true })
+})
+
+const writeConfig = (config: unknown) => writeFile(join(workingDir, '.agent', 'config.json'), JSON.stringify(config))
+
+test('a pricing-only config prices its models', async () => {
+  await writeConfig({ pricing: { 'my-model': { input: 2, output: 10 } } })
+  const { pricing } = await loadFullConfig(workingDir)
+  expect(estimateCost('my-model', { inputTokens: 1_000_000, outputTokens: 100_000 }, pricing)).toBe(3)
+})
+
+test('a compaction-only config keeps the other compaction defaults', async () => {
+  await writeConfig({ compaction: { threshold: 0.5, keepRecentTurns: 2 } })
+  const { compaction } = await loadFullConfig(workingDir)
+  expect(compaction).toEqual({ ...DEFAULT_COMPACTION_CONFIG, threshold: 0.5, keepRecentTurns: 2 })
+})
+
+test('a legacy subagent config at the root still loads, next to newer keys', async () => {
+  await writeConfig({ maxConcurrent: 7, roles: {}, budget: { daily: { cost: 5 } } })
+  const config = await loadFullConfig(workingDir)
+  expect(config.subagents.maxConcurrent).toBe(7)
+  expect(config.budget.daily.cost).toBe(5)
+})
@@ -1,22 +1,44 @@
 import { readFile, writeFile, mkdir } from 'fs/promises'
 import { join, dirname } from 'path'
 import { exists } from './tools'
+import { loadRoleFiles } from './roles'
 import type { ProviderName } from './providers/types'
+import type { SubagentIsolation } from './types'
 
 // Main chat configuration
 export interface MainChatConfig {
   provider: ProviderName
   model: string
+  // Provider calls per turn before it pauses to be continued
+  maxIterations?: number
 }
 
-// Subagent role types
-export type SubagentRole = 'simple' | 'complex' | 'researcher'
+// Main chat iteration limit when the config leaves it out
+export const DEFAULT_MAIN_MAX_ITERATIONS = 25
+
+// Subagent role types - built-in roles are simple, complex and researcher
+export type SubagentRole = string
 
 // Role-specific configuration
 export interface RoleConfig {
+  // When to pick the role - shown to the main agent in the task tool
+  description?: string
+
+  // Role instructions added to the subagent's system prompt
+  prompt?: string
+
   provider: ProviderName
   model: string
   maxIterations: number
+
+  // Tools the role may use (names, or prefixes like "mcp_*"). Omitted = all subagent tools
+  tools?: string[]
+
+  // 'worktree' runs each subagent of this role in its own git worktree
+  isolation?: SubagentIsolation
+
+  // For roles from .agent/roles/ - the file that defines them
+  source?: string
 }
 
 // Subagent configuration
@@ -27,13 +49,87 @@ export interface SubagentConfig {
   // Default timeout per subagent (seconds)
   timeout: number
 
-  // Max concurrent subagents
+  // Max concurrent subagents - shared by nested subagents
   maxConcurrent: number
 
-  // Role-specific defaults
+  // How deep subagents may nest - 1 means subagents can't start their own
+  maxDepth: number
+
+  // Role-specific defaults, keyed by role name
   roles: Record<SubagentRole, RoleConfig>
 }
 
+// Context compaction configuration
+export interface CompactionConfig {
+  // Compact automatically when nearing the context window
+  enabled: boolean
+
+  // Fraction of the model's context window that triggers compaction (0-1)
+  threshold: number
+
+  // Most recent user turns kept word for word
+  keepRecentTurns: number
+
+  // Tool outputs longer than this are truncated when compacting
+  maxToolOutputChars: number
+}
+
+// Tool execution configuration
+export interface ToolConfig {
+  // Max read-only tool calls from one response that run at the same time
+  maxConcurrent: number
+  // Run the main agent's bash commands in one shell per session, so cd and variables carry over
+  persistentShell: boolean
+}
+
+// Price of a model in dollars per million tokens
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+// Limits of one budget - leave one out for no limit
+export interface BudgetLimit {
+  tokens?: number  // Input and output tokens together
+  cost?: number    // Estimated dollars, from the pricing table
+}
+
+// Token and spend budgets
+export interface BudgetConfig {
+  turn: BudgetLimit     // One turn of the main agent, its subagents included
+  session: BudgetLimit
+  daily: BudgetLimit    // Everything in this working directory, per calendar day
+  warnAt: number        // Fraction of a limit (0-1) at which the user is asked whether to go on
+}
+
+// Tool permission actions
+export type PermissionAction = 'allow' | 'ask' | 'deny'
+
+// Permission rule for a tool call
+export interface PermissionRule {
+  // Tool name, may be a glob (e.g. "mcp_*")
+  tool: string
+
+  // Glob on the call's subject: file path for file tools, command for bash,
+  // action for scud. Omitted = any call of the tool
+  pattern?: string
+
+  action: PermissionAction
+
+  // Saved from an approval prompt ("Always allow") - wins over ask rules,
+  // which would otherwise prompt for the same call again
+  approved?: boolean
+}
+
+// Tool permission configuration
+export interface PermissionConfig {
+  // Action per tool name when no rule matches ("*" for all other tools)
+  defaults: Record<string, PermissionAction>
+
+  // When several rules match, deny wins over approved allow rules, then ask, then allow
+  rules: PermissionRule[]
+}
+
 // Full agent configuration (main chat + subagents)
 export interface AgentConfig {
   // Main chat defaults
@@ -41,6 +137,21 @@ export interface AgentConfig {
 
   // Subagent settings
   subagents: SubagentConfig
+
+  // Context compaction settings
+  compaction: CompactionConfig
+
+  // Tool permission settings
+  permissions: PermissionConfig
+
+  // Tool execution settings
+  tools: ToolConfig
+
+  // Prices by model ID, for cost estimates - models without one show tokens only
+  pricing: Record<string, ModelPrice>
+
+  // Token and spend limits
+  budget: BudgetConfig
 }
 
 // Default subagent configuration
@@ -48,18 +159,25 @@ export const DEFAULT_SUBAGENT_CONFIG: SubagentConfig = {
   confirmMode: 'always',
   timeout: 120,
   maxConcurrent: 5,
+  maxDepth: 1,
   roles: {
     simple: {
+      description: 'Quick, straightforward tasks (file reads, simple edits, commands)',
+      prompt: 'Complete this task efficiently.',
       provider: 'anthropic',
       model: 'claude-3-5-haiku-20241022',
       maxIterations: 10
     },
     complex: {
+      description: 'Multi-step tasks requiring reasoning and iteration',
+      prompt: 'Carefully work through this task step by step. Think before acting.',
       provider: 'anthropic',
       model: 'claude-opus-4-5-20251101',
       maxIterations: 25
     },
     researcher: {
+      description: 'Exploring codebases, finding patterns, gathering information',
+      prompt: 'Explore and gather information thoroughly.',
       provider: 'anthropic',
       model: 'claude-sonnet-4-5-20250514',
       maxIterations: 15
@@ -67,10 +185,72 @@ export const DEFAULT_SUBAGENT_CONFIG: SubagentConfig = {
   }
 }
 
+// Settings for custom roles that leave them out
+export const DEFAULT_ROLE_CONFIG: RoleConfig = {
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-5-20250514',
+  maxIterations: 15
+}
+
+// Default compaction configuration
+export const DEFAULT_COMPACTION_CONFIG: CompactionConfig = {
+  enabled: true,
+  threshold: 0.8,
+  keepRecentTurns: 4,
+  maxToolOutputChars: 2000
+}
+
+// Default permission configuration - tools that change files or run commands ask first
+export const DEFAULT_PERMISSION_CONFIG: PermissionConfig = {
+  defaults: {
+    bash: 'ask',
+    write_file: 'ask',
+    edit_file: 'ask',
+    multi_edit: 'ask',
+    apply_patch: 'ask',
+    job_input: 'ask',
+    '*': 'allow'
+  },
+  rules: []
+}
+
+// Default tool execution configuration
+export const DEFAULT_TOOL_CONFIG: ToolConfig = {
+  maxConcurrent: 4,
+  persistentShell: false
+}
+
+// Default budgets - no limits
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  turn: {},
+  session: {},
+  daily: {},
+  warnAt: 0.8
+}
+
+// Default model prices (list prices at the time of writing - override them in config.json)
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'claude-opus-4-5-20251101': { input: 5, output: 25 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'claude-sonnet-4-5-20250514': { input: 3, output: 15 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'grok-4-1-fast-reasoning': { input: 0.2, output: 0.5 },
+  'grok-4-1-fast': { input: 0.2, output: 0.5 },
+  'grok-4-0125': { input: 3, output: 15 },
+  'grok-3-beta': { input: 3, output: 15 },
+  'gpt-5.1': { input: 1.25, output: 10 }
+}
+
 // Default full configuration
 export const DEFAULT_CONFIG: AgentConfig = {
   mainChat: undefined, // Will use first available provider
-  subagents: DEFAULT_SUBAGENT_CONFIG
+  subagents: DEFAULT_SUBAGENT_CONFIG,
+  compaction: DEFAULT_COMPACTION_CONFIG,
+  permissions: DEFAULT_PERMISSION_CONFIG,
+  tools: DEFAULT_TOOL_CONFIG,
+  pricing: DEFAULT_PRICING,
+  budget: DEFAULT_BUDGET_CONFIG
 }
 
 // Config file path relative to working directory
@@ -78,33 +258,39 @@ const CONFIG_PATH = '.agent/config.json'
 
 /**
  * Load full configuration from the working directory
- * Falls back to defaults if not present
+ * Each top-level key of the file is merged with its defaults on its own, so a file
+ * with just `permissions` or `budget` keeps the defaults for everything else
+ * Roles from .agent/roles/ are added to the defaults, so config.json can override them
  */
 export async function loadFullConfig(workingDir: string): Promise<AgentConfig> {
   const configPath = join(workingDir, CONFIG_PATH)
+  const subagentDefaults: SubagentConfig = {
+    ...DEFAULT_SUBAGENT_CONFIG,
+    roles: mergeRoles(DEFAULT_SUBAGENT_CONFIG.roles, await loadRoleFiles(workingDir))
+  }
 
   try {
     if (await exists(configPath)) {
       const content = await readFile(configPath, 'utf-8')
       const loaded = JSON.parse(content)
 
-      // Handle legacy format (flat subagent config) or new format
-      if (loaded.subagents) {
-        // New format with mainChat and subagents
-        return mergeFullConfig(DEFAULT_CONFIG, loaded)
-      } else if (loaded.roles) {
-        // Legacy format - just subagent config at root
-        return {
-          mainChat: undefined,
-          subagents: mergeSubagentConfig(DEFAULT_SUBAGENT_CONFIG, loaded)
-        }
-      }
+      // Legacy format - the subagent config at the root, next to any newer keys
+      const subagents = loaded.subagents ?? (loaded.roles ? loaded : undefined)
+      return mergeFullConfig({ ...DEFAULT_CONFIG, subagents: subagentDefaults }, { ...loaded, subagents })
     }
   } catch (error) {
     console.warn(`Failed to load config from ${configPath}:`, error)
   }
 
-  return { ...DEFAULT_CONFIG, subagents: { ...DEFAULT_SUBAGENT_CONFIG } }
+  return {
+    ...DEFAULT_CONFIG,
+    subagents: subagentDefaults,
+    compaction: { ...DEFAULT_COMPACTION_CONFIG },
+    permissions: mergePermissionConfig(DEFAULT_PERMISSION_CONFIG, {}),
+    tools: { ...DEFAULT_TOOL_CONFIG },
+    pricing: { ...DEFAULT_PRICING },
+    budget: mergeBudgetConfig(DEFAULT_BUDGET_CONFIG, {})
+  }
 }
 
 /**
@@ -117,14 +303,23 @@ export async function loadConfig(workingDir: string): Promise<SubagentConfig> {
 
 /**
  * Save full configuration to the working directory
+ * Roles from .agent/roles/ only save what the settings panel edits - the rest stays in the file
  */
 export async function saveFullConfig(workingDir: string, config: AgentConfig): Promise<void> {
   const configPath = join(workingDir, CONFIG_PATH)
 
+  const roles: Record<SubagentRole, Partial<RoleConfig>> = {}
+  for (const [name, role] of Object.entries(config.subagents.roles)) {
+    roles[name] = role.source
+      ? { provider: role.provider, model: role.model, maxIterations: role.maxIterations, isolation: role.isolation }
+      : role
+  }
+
   // Ensure directory exists
   await mkdir(dirname(configPath), { recursive: true })
 
-  await writeFile(configPath, JSON.stringify(config, null, 2), 'utf-8')
+  const saved = { ...config, subagents: { ...config.subagents, roles } }
+  await writeFile(configPath, JSON.stringify(saved, null, 2), 'utf-8')
 }
 
 /**
@@ -142,7 +337,35 @@ export async function saveConfig(workingDir: string, config: SubagentConfig): Pr
 function mergeFullConfig(defaults: AgentConfig, loaded: Partial<AgentConfig>): AgentConfig {
   return {
     mainChat: loaded.mainChat ?? defaults.mainChat,
-    subagents: mergeSubagentConfig(defaults.subagents, loaded.subagents || {})
+    subagents: mergeSubagentConfig(defaults.subagents, loaded.subagents || {}),
+    compaction: { ...defaults.compaction, ...loaded.compaction },
+    permissions: mergePermissionConfig(defaults.permissions, loaded.permissions || {}),
+    tools: { ...defaults.tools, ...loaded.tools },
+    pricing: { ...defaults.pricing, ...loaded.pricing },
+    budget: mergeBudgetConfig(defaults.budget, loaded.budget || {})
+  }
+}
+
+/**
+ * Merge budget configuration with defaults, limit by limit
+ */
+export function mergeBudgetConfig(defaults: BudgetConfig, loaded: Partial<BudgetConfig>): BudgetConfig {
+  return {
+    turn: { ...defaults.turn, ...loaded.turn },
+    session: { ...defaults.session, ...loaded.session },
+    daily: { ...defaults.daily, ...loaded.daily },
+    warnAt: loaded.warnAt ?? defaults.warnAt
+  }
+}
+
+/**
+ * Merge permission configuration with defaults
+ * Per-tool defaults are merged, rules from the file replace the default rules
+ */
+function mergePermissionConfig(defaults: PermissionConfig, loaded: Partial<PermissionConfig>): PermissionConfig {
+  return {
+    defaults: { ...defaults.defaults, ...loaded.defaults },
+    rules: [...(loaded.rules ?? defaults.rules)]
   }
 }
 
@@ -154,19 +377,36 @@ function mergeSubagentConfig(defaults: SubagentConfig, loaded: Partial<SubagentC
     confirmMode: loaded.confirmMode ?? defaults.confirmMode,
     timeout: loaded.timeout ?? defaults.timeout,
     maxConcurrent: loaded.maxConcurrent ?? defaults.maxConcurrent,
-    roles: {
-      simple: { ...defaults.roles.simple, ...loaded.roles?.simple },
-      complex: { ...defaults.roles.complex, ...loaded.roles?.complex },
-      researcher: { ...defaults.roles.researcher, ...loaded.roles?.researcher }
-    }
+    maxDepth: loaded.maxDepth ?? defaults.maxDepth,
+    roles: mergeRoles(defaults.roles, loaded.roles || {})
+  }
+}
+
+/**
+ * Merge role settings by name - roles only in `loaded` are added,
+ * with DEFAULT_ROLE_CONFIG filling in what they leave out
+ */
+function mergeRoles(
+  defaults: Record<SubagentRole, RoleConfig>,
+  loaded: Record<SubagentRole, Partial<RoleConfig>>
+): Record<SubagentRole, RoleConfig> {
+  const roles: Record<SubagentRole, RoleConfig> = {}
+  for (const name of new Set([...Object.keys(defaults), ...Object.keys(loaded)])) {
+    roles[name] = { ...DEFAULT_ROLE_CONFIG, ...defaults[name], ...loaded[name] }
   }
+  return roles
 }
 
 /**
  * Get configuration for a specific role
+ * Throws for roles that aren't configured
  */
 export function getRoleConfig(config: SubagentConfig, role: SubagentRole): RoleConfig {
-  return config.roles[role]
+  const roleConfig = config.roles[role]
+  if (!roleConfig) {
+    throw new Error(`Unknown subagent role "${role}". Available roles: ${Object.keys(config.roles).join(', ')}`)
+  }
+  return roleConfig
 }
 
 /**
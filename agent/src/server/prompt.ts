@@ -1,34 +1,72 @@
 import { readFile } from 'fs/promises'
 import { join } from 'path'
 import { exists } from './tools'
+import type { Plan, SessionMode } from './types'
 
 // Minimal system prompt (~100-150 tokens) - pi-style
 export const SYSTEM_PROMPT = `You are a coding assistant. Help with coding tasks by reading files, executing commands, editing code, and writing files.
 
-Tools: read_file, write_file, edit_file, bash, task
+Tools: read_file, write_file, edit_file, multi_edit, apply_patch, list_directory, grep, glob, bash, job_output, job_input, job_kill, task, message_subagent
 
 Guidelines:
 - Read files before editing
 - Use edit_file for precise changes (oldText must match exactly)
-- Use bash for ls, grep, find, git
-- Use task to spawn parallel subagents for independent work:
-  - 'simple' role: quick file ops, simple queries
-  - 'complex' role: multi-step implementations
-  - 'researcher' role: exploring code, finding patterns
+- Use multi_edit for several changes to one file, apply_patch for changes across files
+- Use list_directory, grep and glob to explore code, bash for git, builds and tests
+- Start servers and watchers with bash background: true, check them with job_output and stop them with job_kill when done
+- Use task to spawn parallel subagents for independent work (pick a role from the task tool)
 - Be concise`
 
 // Subagent-specific system prompt (no task tool, requires summary)
 export const SUBAGENT_SYSTEM_PROMPT = `You are a focused coding assistant working on a specific task.
 
-Tools: read_file, write_file, edit_file, bash
+Tools: read_file, write_file, edit_file, multi_edit, apply_patch, list_directory, grep, glob, bash, job_output, job_input, job_kill, scratchpad_read, scratchpad_write, message_subagent, submit_result
 
 Guidelines:
 - Read files before editing
 - Use edit_file for precise changes (oldText must match exactly)
-- Use bash for ls, grep, find, git
+- Use multi_edit for several changes to one file, apply_patch for changes across files
+- Use list_directory, grep and glob to explore code, bash for git, builds and tests
+- Start servers and watchers with bash background: true, check them with job_output and stop them with job_kill when done
 - Be concise and focused on your assigned task
+- Check the shared scratchpad before exploring, and write down what other subagents could reuse
+- Messages from the user or other agents can arrive while you work - follow them
 
-IMPORTANT: When you complete your task, output a brief summary (2-4 sentences) of what you accomplished or found. This summary will be returned to the orchestrating agent.`
+IMPORTANT: When you are done, call submit_result with your status, a brief summary (2-4 sentences) of what you accomplished or found, and any open questions. This result is returned to the orchestrating agent. Files you changed and commands you ran are reported automatically.`
+
+// Prompt for summarizing older conversation turns during compaction
+export const COMPACTION_PROMPT = `You summarize coding conversations so they can continue with less context.
+
+Write a condensed summary of the transcript you are given. Keep:
+- The user's goals, requests and stated preferences
+- Decisions made and the reasons for them
+- Files read, created or modified, with the important details learned from them
+- Commands run and their relevant results or errors
+- Work that is still open or was left unfinished
+
+Drop pleasantries, repeated tool output and anything no longer relevant. Use short bullet points grouped by topic. Output only the summary.`
+
+// Added to the system prompt in plan mode
+export const PLAN_MODE_PROMPT = `You are in plan mode. Explore and plan, but do not change anything yet.
+
+- Only read: read_file, list_directory, grep, glob, read-only bash (ls, grep, find, git status/log/diff, ...), job_output, scud list/show/stats
+- Writes, edits and other commands are rejected until the user approves a plan
+- When you understand the work, call submit_plan with a short summary and ordered, concrete steps
+- Ask the user if something important is unclear instead of guessing`
+
+/**
+ * Format an approved plan for the system prompt
+ */
+export function formatApprovedPlan(plan: Plan): string {
+  const steps = plan.steps.map((step, i) => `${i + 1}. ${step.text}`).join('\n')
+  return `<approved_plan>
+The user approved this plan. Carry it out step by step.
+
+${plan.summary}
+
+${steps}
+</approved_plan>`
+}
 
 // Instruction files to look for
 const INSTRUCTION_FILES = ['CLAUDE.md', 'AGENTS.md', '.claude/CLAUDE.md', '.agent/AGENTS.md']
@@ -48,16 +86,23 @@ export async function loadProjectInstructions(workDir: string): Promise<string |
   return null
 }
 
-export async function getSystemPrompt(workDir: string): Promise<string> {
+export async function getSystemPrompt(workDir: string, mode: SessionMode = 'execute', plan?: Plan): Promise<string> {
   const projectInstructions = await loadProjectInstructions(workDir)
 
+  let prompt = SYSTEM_PROMPT
+  if (mode === 'plan') {
+    prompt += `\n\n<plan_mode>\n${PLAN_MODE_PROMPT}\n</plan_mode>`
+  } else if (plan?.status === 'approved') {
+    prompt += `\n\n${formatApprovedPlan(plan)}`
+  }
+
   if (projectInstructions) {
-    return `${SYSTEM_PROMPT}
+    return `${prompt}
 
 <project_instructions>
 ${projectInstructions}
 </project_instructions>`
   }
 
-  return SYSTEM_PROMPT
+  return prompt
 }
@@ -1,10 +1,10 @@
 import Anthropic from '@anthropic-ai/sdk'
-import type { LLMProvider, ProviderEvent, ChatMessage, ToolDefinition, ContentBlock, ModelInfo } from './types'
+import { getContextWindow, type LLMProvider, type ProviderEvent, type ChatMessage, type ToolDefinition, type ContentBlock, type ModelInfo } from './types'
 
 export class AnthropicProvider implements LLMProvider {
   name = 'anthropic' as const
   private client: Anthropic
-  private model: string
+  model: string
 
   constructor(apiKey?: string, model?: string) {
     this.client = new Anthropic({
@@ -19,6 +19,7 @@ export class AnthropicProvider implements LLMProvider {
       return response.data.map(m => ({
         id: m.id,
         name: m.display_name || m.id,
+        contextWindow: getContextWindow('anthropic', m.id),
         created: m.created_at ? new Date(m.created_at).getTime() / 1000 : undefined
       }))
     } catch (error) {
@@ -30,14 +31,15 @@ export class AnthropicProvider implements LLMProvider {
         { id: 'claude-sonnet-4-5-20250514', name: 'Claude Sonnet 4.5' },
         { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
         { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku' },
-      ]
+      ].map(m => ({ ...m, contextWindow: getContextWindow('anthropic', m.id) }))
     }
   }
 
   async *stream(
     messages: ChatMessage[],
     systemPrompt: string,
-    tools: ToolDefinition[]
+    tools: ToolDefinition[],
+    signal?: AbortSignal
   ): AsyncGenerator<ProviderEvent> {
     // Convert to Anthropic format
     const anthropicMessages = this.convertMessages(messages)
@@ -49,7 +51,7 @@ export class AnthropicProvider implements LLMProvider {
       system: systemPrompt,
       tools: anthropicTools,
       messages: anthropicMessages,
-    })
+    }, { signal })
 
     let currentToolId: string | null = null
     let currentToolName: string | null = null
@@ -1,7 +1,9 @@
 import { AnthropicProvider } from './anthropic'
 import { createXAIProvider, createOpenAIProvider, OpenAICompatibleProvider } from './openai-compatible'
 import type { LLMProvider, ProviderName, ProviderConfig, ToolDefinition, ModelInfo } from './types'
-import { getMCPToolDefinitions } from '../mcp/tools'
+import { getMCPToolDefinitions, isReadOnlyMCPTool } from '../mcp/tools'
+import { describeRoles, isToolAllowedForRole } from '../roles'
+import type { RoleConfig } from '../config'
 export * from './types'
 
 // Provider registry
@@ -104,70 +106,144 @@ export const toolDefinitions: ToolDefinition[] = [
   },
   {
     name: 'edit_file',
-    description: 'Replace exact text in a file. oldText must match exactly (including whitespace).',
+    description: 'Replace text in a file. oldText should match exactly; small whitespace, indentation and line-ending differences are tolerated and reported. oldText must match only one place.',
     parameters: {
       type: 'object',
       properties: {
         path: { type: 'string', description: 'File path (relative or absolute)' },
-        oldText: { type: 'string', description: 'Text to find (exact match required)' },
+        oldText: { type: 'string', description: 'Text to find (copy it from the file)' },
         newText: { type: 'string', description: 'Replacement text' },
       },
       required: ['path', 'oldText', 'newText'],
     },
   },
+  {
+    name: 'multi_edit',
+    description: 'Make several replacements in one file at once. Edits apply in order, each to the result of the ones before it. If any edit fails, nothing is written.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'File path (relative or absolute)' },
+        edits: {
+          type: 'array',
+          description: 'Replacements, applied in order',
+          items: {
+            type: 'object',
+            properties: {
+              oldText: { type: 'string', description: 'Text to find (exact match required, unique unless replaceAll)' },
+              newText: { type: 'string', description: 'Replacement text' },
+              replaceAll: { type: 'boolean', description: 'Replace every occurrence' },
+            },
+            required: ['oldText', 'newText'],
+          },
+        },
+      },
+      required: ['path', 'edits'],
+    },
+  },
+  {
+    name: 'apply_patch',
+    description: 'Apply a unified diff (as from git diff or diff -u) that can create, modify, delete or rename several files. Hunks are placed where their context matches, even if line numbers are off. If any hunk fails, nothing is written.',
+    parameters: {
+      type: 'object',
+      properties: {
+        patch: { type: 'string', description: 'Unified diff with ---/+++ file headers and @@ hunks. Use /dev/null for created or deleted files' },
+      },
+      required: ['patch'],
+    },
+  },
+  {
+    name: 'list_directory',
+    description: 'List a directory as a tree with file sizes. Skips files ignored by .gitignore. Directories below the depth limit show how many entries they hold. Long listings are paged with offset/limit.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Directory path (default: working directory)' },
+        depth: { type: 'number', description: 'Levels to list (default: 2, 1 = only the directory itself)' },
+        offset: { type: 'number', description: 'Entries to skip, for the next page' },
+        limit: { type: 'number', description: 'Max entries to return (default: 200)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'grep',
+    description: 'Search file contents with a regular expression (JavaScript syntax). Skips files ignored by .gitignore and binary files. Returns "path:line: text" for each match.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'Regular expression to search for' },
+        path: { type: 'string', description: 'Directory or file to search (default: working directory)' },
+        glob: { type: 'string', description: 'Only search files matching this glob, e.g. "*.ts" or "src/**/*.{ts,tsx}"' },
+        type: { type: 'string', description: 'Only search files of this type: ts, js, py, go, rust, java, c, cpp, ruby, php, css, html, json, yaml, md, sh' },
+        ignoreCase: { type: 'boolean', description: 'Case-insensitive search' },
+        context: { type: 'number', description: 'Lines of context before and after each match (max 10)' },
+        maxResults: { type: 'number', description: 'Max matches to return (default: 100)' },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: 'glob',
+    description: 'Find files by name with a glob. "*" stays within a directory, "**" crosses directories; a pattern without "/" matches file names at any depth. Skips files ignored by .gitignore.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'Glob, e.g. "*.test.ts" or "src/**/index.{js,ts}"' },
+        path: { type: 'string', description: 'Directory to search (default: working directory)' },
+        maxResults: { type: 'number', description: 'Max files to return (default: 100)' },
+      },
+      required: ['pattern'],
+    },
+  },
   {
     name: 'bash',
-    description: 'Execute a shell command. Returns stdout/stderr. Use for ls, grep, find, git, etc.',
+    description: 'Execute a shell command. Returns stdout/stderr. Use for git, builds, tests, etc. With background: true the command keeps running (dev servers, watchers) and you get a job ID for job_output, job_input and job_kill.',
     parameters: {
       type: 'object',
       properties: {
         command: { type: 'string', description: 'Command to run' },
-        timeout: { type: 'number', description: 'Timeout in seconds (default: 30)' },
+        timeout: { type: 'number', description: 'Timeout in seconds (default: 30, ignored in the background)' },
+        background: { type: 'boolean', description: 'Start as a background job and return after its first second of output' },
       },
       required: ['command'],
     },
   },
   {
-    name: 'task',
-    description: `Spawn subagent(s) to handle tasks in parallel. Use for:
-- Parallel work that doesn't depend on each other
-- Delegating research or exploration
-- Complex subtasks that need focused attention
-
-Role selection guide:
-- simple: Quick, straightforward tasks (file reads, simple edits, commands)
-- complex: Multi-step tasks requiring reasoning and iteration
-- researcher: Exploring codebases, finding patterns, gathering information
-
-Multiple tasks execute in parallel. Results are returned when all complete.`,
+    name: 'job_output',
+    description: 'Read what a background job printed since you last read it, and whether it is still running. Without jobId, lists the background jobs.',
     parameters: {
       type: 'object',
       properties: {
-        tasks: {
-          type: 'array',
-          description: 'List of tasks to spawn as subagents',
-          items: {
-            type: 'object',
-            properties: {
-              description: {
-                type: 'string',
-                description: 'What the subagent should accomplish'
-              },
-              role: {
-                type: 'string',
-                enum: ['simple', 'complex', 'researcher'],
-                description: 'Task complexity/type for model selection'
-              },
-              context: {
-                type: 'string',
-                description: 'Optional additional context for the subagent'
-              }
-            },
-            required: ['description', 'role']
-          }
-        }
+        jobId: { type: 'string', description: 'Job ID from bash, e.g. "job_1"' },
+        wait: { type: 'number', description: 'Seconds to wait for new output or for the job to end (default: 0, max: 60)' },
       },
-      required: ['tasks'],
+      required: [],
+    },
+  },
+  {
+    name: 'job_input',
+    description: 'Write to the stdin of a running background job, e.g. to answer a prompt.',
+    parameters: {
+      type: 'object',
+      properties: {
+        jobId: { type: 'string', description: 'Job ID from bash' },
+        input: { type: 'string', description: 'Text to send' },
+        newline: { type: 'boolean', description: 'End the text with a newline (default: true)' },
+        close: { type: 'boolean', description: 'Close stdin afterwards, for programs that read until end of input' },
+      },
+      required: ['jobId', 'input'],
+    },
+  },
+  {
+    name: 'job_kill',
+    description: 'Stop a background job and the processes it started. Returns its last output.',
+    parameters: {
+      type: 'object',
+      properties: {
+        jobId: { type: 'string', description: 'Job ID from bash' },
+      },
+      required: ['jobId'],
     },
   },
   {
@@ -234,25 +310,206 @@ Examples:
   },
 ]
 
-// Tool definitions without the task tool (for subagents to prevent nesting)
-export const subagentToolDefinitions: ToolDefinition[] = toolDefinitions.filter(t => t.name !== 'task')
+/**
+ * Build the task tool, offering the configured subagent roles
+ */
+export function createTaskToolDefinition(roles: Record<string, RoleConfig>): ToolDefinition {
+  return {
+    name: 'task',
+    description: `Spawn subagent(s) to handle tasks in parallel. Use for:
+- Parallel work that doesn't depend on each other
+- Delegating research or exploration
+- Complex subtasks that need focused attention
+
+Role selection guide:
+${describeRoles(roles)}
+
+Multiple tasks execute in parallel. A task with dependsOn waits for those tasks to complete and receives their summaries in its context, e.g. research A and B, then implement C using both. Results are returned when all complete.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        tasks: {
+          type: 'array',
+          description: 'List of tasks to spawn as subagents',
+          items: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'Short ID for this task (e.g. "research-api") that other tasks can list in dependsOn'
+              },
+              description: {
+                type: 'string',
+                description: 'What the subagent should accomplish'
+              },
+              role: {
+                type: 'string',
+                enum: Object.keys(roles),
+                description: 'Task complexity/type for model selection'
+              },
+              context: {
+                type: 'string',
+                description: 'Optional additional context for the subagent'
+              },
+              isolation: {
+                type: 'string',
+                enum: ['shared', 'worktree'],
+                description: 'worktree: edit files in a separate git worktree so parallel subagents can\'t conflict; the user reviews the changes before merging. Defaults to the role setting'
+              },
+              dependsOn: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'IDs of tasks in this call that must complete before this one starts'
+              },
+              outputSchema: {
+                type: 'object',
+                description: 'Optional JSON Schema for data the subagent must return in its result (e.g. a list of findings)'
+              }
+            },
+            required: ['description', 'role']
+          }
+        }
+      },
+      required: ['tasks'],
+    },
+  }
+}
+
+// Leaves a message for a running subagent, read at its next step
+export const messageSubagentToolDefinition: ToolDefinition = {
+  name: 'message_subagent',
+  description: 'Send a message to a subagent that is still running or queued - a correction, extra context, or a request to wrap up. It reads the message before its next step.',
+  parameters: {
+    type: 'object',
+    properties: {
+      taskId: {
+        type: 'string',
+        description: 'ID of the subagent (e.g. subagent_1700000000000_3f2a9c1e_0)'
+      },
+      message: {
+        type: 'string',
+        description: 'What to tell it'
+      }
+    },
+    required: ['taskId', 'message']
+  }
+}
+
+// Scratchpad shared by the subagents of a session
+export const scratchpadToolDefinitions: ToolDefinition[] = [
+  {
+    name: 'scratchpad_read',
+    description: 'Read the scratchpad shared with the other subagents of this session, earlier turns included - facts they found, decisions, dead ends. Check it before researching something another subagent may already have covered.',
+    parameters: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'number',
+          description: 'Only return entries after this entry number'
+        }
+      },
+      required: []
+    }
+  },
+  {
+    name: 'scratchpad_write',
+    description: 'Add an entry to the shared scratchpad - a fact, location or decision the other subagents can reuse. Keep entries short and self-contained.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'The entry'
+        }
+      },
+      required: ['text']
+    }
+  }
+]
+
+// Plan mode only: ends the exploration with a plan for the user to approve
+export const submitPlanToolDefinition: ToolDefinition = {
+  name: 'submit_plan',
+  description: 'Submit your implementation plan for the user to review and approve. Call this once you have explored enough to plan the work. Ends your turn.',
+  parameters: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'What will be done and why, in a few sentences' },
+      steps: {
+        type: 'array',
+        description: 'Ordered, concrete implementation steps',
+        items: { type: 'string' }
+      },
+    },
+    required: ['summary', 'steps'],
+  },
+}
+
+/**
+ * Build the tool subagents finish with
+ * With an output schema from the parent, `output` takes that shape and is required
+ */
+export function createSubmitResultToolDefinition(outputSchema?: Record<string, unknown>): ToolDefinition {
+  return {
+    name: 'submit_result',
+    description: 'Finish your task and report the result to the orchestrating agent. Ends your work.',
+    parameters: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['success', 'partial', 'failed'],
+          description: 'success: task done; partial: some of it done; failed: could not do it'
+        },
+        summary: { type: 'string', description: 'What you accomplished or found, in 2-4 sentences' },
+        openQuestions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Questions or decisions left for the orchestrating agent or the user'
+        },
+        ...(outputSchema ? { output: { ...outputSchema, description: 'Result data in the requested shape' } } : {}),
+      },
+      required: outputSchema ? ['status', 'summary', 'output'] : ['status', 'summary'],
+    },
+  }
+}
+
+// Tools available in plan mode - bash and scud are limited to read-only use when executed
+const PLAN_MODE_TOOLS = ['read_file', 'list_directory', 'grep', 'glob', 'bash', 'job_output', 'scud']
 
 /**
  * Get all tool definitions including MCP tools
  * This is called dynamically to include tools from connected MCP servers
+ * With subagent roles, the task tool is offered for them
+ * In plan mode only non-mutating tools (and read-only MCP tools) are offered
  */
-export function getAllToolDefinitions(includeTask: boolean = true): ToolDefinition[] {
-  const baseTols = includeTask ? toolDefinitions : subagentToolDefinitions
+export function getAllToolDefinitions(roles?: Record<string, RoleConfig>, planMode: boolean = false): ToolDefinition[] {
+  if (planMode) {
+    const readOnlyTools = toolDefinitions.filter(t => PLAN_MODE_TOOLS.includes(t.name))
+    const mcpTools = getMCPToolDefinitions().filter(t => isReadOnlyMCPTool(t.name))
+    return [...readOnlyTools, ...mcpTools, submitPlanToolDefinition]
+  }
+
+  const baseTools = roles ? [...toolDefinitions, createTaskToolDefinition(roles), messageSubagentToolDefinition] : toolDefinitions
   const mcpTools = getMCPToolDefinitions()
-  return [...baseTols, ...mcpTools]
+  return [...baseTools, ...mcpTools]
 }
 
 /**
  * Get subagent tool definitions including MCP tools
+ * The task tool is only offered with `roles` - when the subagent may start its own subagents.
+ * Limited to the role's tools when it lists them; submit_result is always offered
  */
-export function getSubagentToolDefinitions(): ToolDefinition[] {
+export function getSubagentToolDefinitions(
+  role?: RoleConfig,
+  outputSchema?: Record<string, unknown>,
+  roles?: Record<string, RoleConfig>
+): ToolDefinition[] {
   const mcpTools = getMCPToolDefinitions()
-  return [...subagentToolDefinitions, ...mcpTools]
+  const taskTools = roles ? [createTaskToolDefinition(roles)] : []
+  const tools = [...toolDefinitions, ...mcpTools, ...taskTools, messageSubagentToolDefinition, ...scratchpadToolDefinitions]
+    .filter(t => isToolAllowedForRole(role, t.name))
+  return [...tools, createSubmitResultToolDefinition(outputSchema)]
 }
 
 // List available providers based on environment
@@ -1,11 +1,11 @@
 import OpenAI from 'openai'
-import type { LLMProvider, ProviderEvent, ChatMessage, ToolDefinition, ProviderName, ContentBlock, ModelInfo } from './types'
+import { getContextWindow, type LLMProvider, type ProviderEvent, type ChatMessage, type ToolDefinition, type ProviderName, type ContentBlock, type ModelInfo } from './types'
 
 // Works with xAI, OpenAI, and any OpenAI-compatible API
 export class OpenAICompatibleProvider implements LLMProvider {
   name: ProviderName
   private client: OpenAI
-  private model: string
+  model: string
   private baseURL?: string
 
   constructor(config: {
@@ -31,6 +31,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
         models.push({
           id: model.id,
           name: model.id,
+          contextWindow: getContextWindow(this.name, model.id),
           created: model.created
         })
       }
@@ -39,7 +40,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
     } catch (error) {
       console.error(`Failed to list ${this.name} models:`, error)
       // Return known models as fallback based on provider
-      return this.getFallbackModels()
+      return this.getFallbackModels().map(m => ({ ...m, contextWindow: getContextWindow(this.name, m.id) }))
     }
   }
 
@@ -67,7 +68,8 @@ export class OpenAICompatibleProvider implements LLMProvider {
   async *stream(
     messages: ChatMessage[],
     systemPrompt: string,
-    tools: ToolDefinition[]
+    tools: ToolDefinition[],
+    signal?: AbortSignal
   ): AsyncGenerator<ProviderEvent> {
     // Convert to OpenAI format
     const openaiMessages = this.convertMessages(messages, systemPrompt)
@@ -80,7 +82,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
       tools: openaiTools.length > 0 ? openaiTools : undefined,
       stream: true,
       stream_options: { include_usage: true },
-    })
+    }, { signal })
 
     // Track tool calls being built
     const toolCalls: Map<number, { id: string; name: string; arguments: string }> = new Map()
@@ -54,6 +54,36 @@ export type ContentBlock =
   | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
   | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean }
 
+// Known context windows (tokens), matched by model ID prefix - first match wins
+const CONTEXT_WINDOWS: Record<ProviderName, Array<[prefix: string, tokens: number]>> = {
+  anthropic: [
+    ['claude-', 200_000]
+  ],
+  xai: [
+    ['grok-4-1-fast', 2_000_000],
+    ['grok-4-fast', 2_000_000],
+    ['grok-4', 256_000],
+    ['grok-code-fast', 256_000],
+    ['grok-3', 131_072]
+  ],
+  openai: [
+    ['gpt-5', 400_000],
+    ['gpt-4.1', 1_047_576],
+    ['gpt-4o', 128_000],
+    ['o4-mini', 200_000],
+    ['o3', 200_000],
+    ['o1', 200_000]
+  ]
+}
+
+const DEFAULT_CONTEXT_WINDOW = 128_000
+
+// Look up the context window for a model (falls back to a conservative default)
+export function getContextWindow(provider: ProviderName, model: string): number {
+  const match = CONTEXT_WINDOWS[provider]?.find(([prefix]) => model.startsWith(prefix))
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW
+}
+
 // Model info returned by providers
 export interface ModelInfo {
   id: string
@@ -65,12 +95,15 @@ export interface ModelInfo {
 // Provider interface - all providers must implement this
 export interface LLMProvider {
   name: ProviderName
+  model: string
 
   // Stream a completion with tool support
+  // Aborting the signal cancels the underlying HTTP request
   stream(
     messages: ChatMessage[],
     systemPrompt: string,
-    tools: ToolDefinition[]
+    tools: ToolDefinition[],
+    signal?: AbortSignal
   ): AsyncGenerator<ProviderEvent>
 
   // List available models from the provider API
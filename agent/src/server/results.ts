@@ -0,0 +1,159 @@
+/**
+ * Subagent Results
+ *
+ * Subagents finish by calling submit_result with a status, a summary, open
+ * questions and - when the parent asked for it - JSON output matching a schema.
+ * Commands run are collected from the subagent's tool calls rather than trusted
+ * to the model; files changed come from its changeset (see changes.ts).
+ *
+ * The parent agent sees a compact rendering; the full report goes into the
+ * task tool's details for the UI.
+ */
+
+import type { JobOutput, Message, SubagentCommand, SubagentFileChange, SubagentReport, SubagentTask } from './types'
+
+const STATUSES: SubagentReport['status'][] = ['success', 'partial', 'failed']
+
+// Long outputs are cut in the parent's rendering - the UI has them in full
+const MAX_RENDERED_OUTPUT_CHARS = 4000
+
+/**
+ * Collect the shell commands a subagent ran
+ */
+export function collectCommands(history: Message[]): SubagentCommand[] {
+  const commands: SubagentCommand[] = []
+  for (const message of history) {
+    for (const tool of message.toolCalls ?? []) {
+      if (tool.name === 'bash' && tool.details?.type === 'command') {
+        const { command, exitCode } = tool.details.data as { command: string; exitCode: number | null }
+        commands.push({ command, exitCode })
+      } else if (tool.name === 'bash' && tool.details?.type === 'job') {
+        // Started in the background - the exit code is known only if it ended right away
+        const { job } = tool.details.data as JobOutput
+        commands.push({ command: job.command, exitCode: job.exitCode ?? null })
+      }
+    }
+  }
+  return commands
+}
+
+// JSON Schema type of a value - integers are numbers too
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value)
+  return typeOf(value) === type
+}
+
+/**
+ * Check a value against the parts of a JSON Schema the model is likely to get wrong:
+ * type, enum, required properties, and the schemas of properties and array items
+ * Returns what is wrong and where ("output.files[2].path: expected string, got number"), or null
+ */
+function findSchemaError(value: unknown, schema: Record<string, unknown>, path: string): string | null {
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[]
+    if (!types.some(type => matchesType(value, type))) {
+      return `${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return `${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    for (const key of (Array.isArray(schema.required) ? schema.required : []) as string[]) {
+      if (object[key] === undefined) {
+        return `${path}.${key}: is required`
+      }
+    }
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>
+    for (const [key, property] of Object.entries(properties)) {
+      if (object[key] === undefined || typeof property !== 'object' || property === null) continue
+      const error = findSchemaError(object[key], property, `${path}.${key}`)
+      if (error) return error
+    }
+  }
+
+  if (Array.isArray(value) && typeof schema.items === 'object' && schema.items !== null) {
+    for (let i = 0; i < value.length; i++) {
+      const error = findSchemaError(value[i], schema.items as Record<string, unknown>, `${path}[${i}]`)
+      if (error) return error
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the report from submit_result input
+ * Throws when the input is unusable, so the subagent can fix it and call again
+ */
+export function createSubagentReport(task: SubagentTask, input: Record<string, unknown>, history: Message[]): SubagentReport {
+  const status = input.status as SubagentReport['status']
+  if (!STATUSES.includes(status)) {
+    throw new Error(`status must be one of ${STATUSES.join(', ')}`)
+  }
+  if (typeof input.summary !== 'string' || !input.summary.trim()) {
+    throw new Error('summary is required')
+  }
+  if (task.outputSchema && input.output === undefined) {
+    throw new Error('output is required - it must match the output schema of the task')
+  }
+  const schemaError = task.outputSchema ? findSchemaError(input.output, task.outputSchema, 'output') : null
+  if (schemaError) {
+    throw new Error(`output does not match the output schema of the task - ${schemaError}`)
+  }
+
+  return {
+    status,
+    summary: input.summary.trim(),
+    commands: collectCommands(history),
+    openQuestions: Array.isArray(input.openQuestions)
+      ? input.openQuestions.map(q => String(q).trim()).filter(Boolean)
+      : [],
+    output: input.output
+  }
+}
+
+/**
+ * Build a report for a subagent that finished with plain text instead of submit_result
+ */
+export function reportFromText(text: string, history: Message[]): SubagentReport {
+  return {
+    status: 'success',
+    summary: text.trim(),
+    commands: collectCommands(history),
+    openQuestions: []
+  }
+}
+
+/**
+ * Compact rendering of a report and the subagent's changeset for the parent agent
+ */
+export function formatSubagentReport(report: SubagentReport, changes: SubagentFileChange[]): string {
+  const lines = [`Status: ${report.status}`, '', report.summary]
+
+  if (changes.length > 0) {
+    lines.push('', `Files changed: ${changes.map(f => `${f.path} (${f.status})`).join(', ')}`)
+  }
+  if (report.commands.length > 0) {
+    lines.push('', `Commands run: ${report.commands.map(c => `\`${c.command}\`${c.exitCode ? ` (exit ${c.exitCode})` : ''}`).join(', ')}`)
+  }
+  if (report.openQuestions.length > 0) {
+    lines.push('', 'Open questions:', ...report.openQuestions.map(q => `- ${q}`))
+  }
+  if (report.output !== undefined) {
+    const output = JSON.stringify(report.output, null, 2)
+    lines.push('', 'Output:', '```json', output.length > MAX_RENDERED_OUTPUT_CHARS
+      ? `${output.slice(0, MAX_RENDERED_OUTPUT_CHARS)}\n[Output truncated...]`
+      : output, '```')
+  }
+
+  return lines.join('\n')
+}
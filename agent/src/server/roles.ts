@@ -0,0 +1,99 @@
+/**
+ * Subagent Roles
+ *
+ * Besides the built-in roles (simple, complex, researcher), a project can define
+ * its own in .agent/config.json (subagents.roles) or as markdown files in
+ * .agent/roles/<name>.md:
+ *
+ *   ---
+ *   description: Writes and runs tests for a change
+ *   model: claude-sonnet-4-5-20250514
+ *   maxIterations: 20
+ *   tools: read_file, edit_file, bash
+ *   ---
+ *   You write focused tests. Run them before you finish.
+ *
+ * The body is the role's system prompt. Settings from config.json override the
+ * file, so provider and model can still be changed in the settings panel.
+ */
+
+import { readdir, readFile } from 'fs/promises'
+import { join } from 'path'
+import { parseFrontmatter } from './commands'
+import type { RoleConfig } from './config'
+import type { ProviderName } from './providers/types'
+import type { SubagentIsolation } from './types'
+
+const ROLES_DIR = '.agent/roles'
+
+interface RoleFrontmatter {
+  description?: string
+  provider?: string
+  model?: string
+  maxIterations?: string
+  tools?: string
+  isolation?: string
+}
+
+/**
+ * Load the roles defined in .agent/roles/*.md, keyed by file name
+ * Files that can't be read are skipped with a warning
+ */
+export async function loadRoleFiles(workingDir: string): Promise<Record<string, Partial<RoleConfig>>> {
+  const roles: Record<string, Partial<RoleConfig>> = {}
+
+  let entries: string[]
+  try {
+    entries = await readdir(join(workingDir, ROLES_DIR))
+  } catch {
+    return roles
+  }
+
+  for (const entry of entries.filter(name => name.endsWith('.md')).sort()) {
+    const source = join(ROLES_DIR, entry)
+    try {
+      const { frontmatter, body } = parseFrontmatter<RoleFrontmatter>(await readFile(join(workingDir, source), 'utf-8'))
+      const role: Partial<RoleConfig> = { source }
+
+      if (body.trim()) role.prompt = body.trim()
+      if (frontmatter.description) role.description = frontmatter.description
+      if (frontmatter.provider) role.provider = frontmatter.provider as ProviderName
+      if (frontmatter.model) role.model = frontmatter.model
+      if (frontmatter.maxIterations) {
+        // An invalid value leaves the key out, so the default still applies
+        const maxIterations = Number(frontmatter.maxIterations)
+        if (Number.isInteger(maxIterations) && maxIterations > 0) {
+          role.maxIterations = maxIterations
+        } else {
+          console.warn(`Ignoring maxIterations "${frontmatter.maxIterations}" in ${source} - it must be a positive integer`)
+        }
+      }
+      if (frontmatter.tools) role.tools = frontmatter.tools.replace(/^\[|\]$/g, '').split(',').map(s => s.trim()).filter(Boolean)
+      if (frontmatter.isolation) role.isolation = frontmatter.isolation as SubagentIsolation
+
+      roles[entry.replace(/\.md$/, '')] = role
+    } catch (error) {
+      console.warn(`Failed to load role from ${source}:`, error)
+    }
+  }
+
+  return roles
+}
+
+/**
+ * Check whether a role may use a tool
+ * Entries are tool names, or prefixes ending in "*" (e.g. "mcp_*"); no list allows every tool
+ */
+export function isToolAllowedForRole(role: RoleConfig | undefined, name: string): boolean {
+  if (!role?.tools) return true
+  return role.tools.some(tool => tool.endsWith('*') ? name.startsWith(tool.slice(0, -1)) : name === tool)
+}
+
+/**
+ * List the roles for the task tool, one "- name: description" line each
+ */
+export function describeRoles(roles: Record<string, RoleConfig>): string {
+  return Object.entries(roles)
+    .map(([name, role]) => `- ${name}${role.description ? `: ${role.description}` : ''}`)
+    .join('\n')
+}
@@ -0,0 +1,115 @@
+/**
+ * Shared Scratchpad
+ *
+ * Subagents start with a fresh context, so parallel researchers tend to rediscover
+ * the same facts. All subagents of a session - including nested and continued
+ * ones - share a scratchpad they can read and append to with the scratchpad_read
+ * and scratchpad_write tools. Its entries are saved with the session.
+ *
+ * Entries are sent to the client as they are written, and the ones written during
+ * a task call are summarized in that call's result for the parent.
+ */
+
+import type { PendingToolCall, ToolCallOutcome } from './execution'
+import type { ScratchpadEntry } from './types'
+
+// Limits for the summary in the parent's tool result - the UI shows everything
+const MAX_SUMMARY_ENTRIES = 20
+const MAX_SUMMARY_ENTRY_CHARS = 300
+
+export class Scratchpad {
+  private listeners: Set<(entry: ScratchpadEntry) => void> = new Set()
+
+  /**
+   * `entries` is the session's list - new entries are appended to it
+   */
+  constructor(readonly entries: ScratchpadEntry[] = []) {}
+
+  append(taskId: string, author: string, text: string): ScratchpadEntry {
+    const entry: ScratchpadEntry = {
+      id: this.entries.length + 1,
+      taskId,
+      author,
+      text,
+      createdAt: new Date().toISOString()
+    }
+    this.entries.push(entry)
+    for (const listener of this.listeners) {
+      listener(entry)
+    }
+    return entry
+  }
+
+  /**
+   * Entries written after entry `since` (all of them by default)
+   */
+  read(since: number = 0): ScratchpadEntry[] {
+    return this.entries.filter(entry => entry.id > since)
+  }
+
+  /**
+   * Call `listener` for every new entry, until the returned function is called
+   */
+  onAppend(listener: (entry: ScratchpadEntry) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
+
+function formatEntry(entry: ScratchpadEntry): string {
+  return `#${entry.id} [${entry.createdAt}] ${entry.author} (${entry.taskId}):\n${entry.text}`
+}
+
+/**
+ * Run a scratchpad_read or scratchpad_write call for a subagent
+ * Never throws - bad input becomes an error result
+ */
+export function scratchpadCall(scratchpad: Scratchpad, call: PendingToolCall, taskId: string, author: string): ToolCallOutcome {
+  let output: string
+  let error: string | undefined
+
+  if (call.name === 'scratchpad_write') {
+    const text = typeof call.input.text === 'string' ? call.input.text.trim() : ''
+    if (text) {
+      const entry = scratchpad.append(taskId, author, text)
+      output = `Added entry #${entry.id}.`
+    } else {
+      output = ''
+      error = 'text is required'
+    }
+  } else {
+    const since = typeof call.input.since === 'number' ? call.input.since : 0
+    const entries = scratchpad.read(since)
+    output = entries.length > 0
+      ? entries.map(formatEntry).join('\n\n')
+      : since > 0 ? `No entries after #${since}.` : 'The scratchpad is empty.'
+  }
+
+  if (error) {
+    return {
+      event: { type: 'tool_result', id: call.id, output: '', error },
+      result: { type: 'tool_result', tool_use_id: call.id, content: `Error: ${error}`, is_error: true }
+    }
+  }
+  return {
+    event: { type: 'tool_result', id: call.id, output },
+    result: { type: 'tool_result', tool_use_id: call.id, content: output }
+  }
+}
+
+/**
+ * Short summary of scratchpad entries for the parent's tool result
+ */
+export function summarizeScratchpad(entries: ScratchpadEntry[]): string {
+  const shown = entries.slice(-MAX_SUMMARY_ENTRIES)
+  const lines = shown.map(entry => {
+    const text = entry.text.length > MAX_SUMMARY_ENTRY_CHARS
+      ? `${entry.text.slice(0, MAX_SUMMARY_ENTRY_CHARS)}...`
+      : entry.text
+    return `- ${entry.author}: ${text.replace(/\n+/g, ' ')}`
+  })
+  if (entries.length > shown.length) {
+    lines.unshift(`(${entries.length - shown.length} earlier entries left out)`)
+  }
+  return lines.join('\n')
+}
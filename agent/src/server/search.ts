@@ -0,0 +1,206 @@
+/**
+ * File Search
+ *
+ * Lists the files the grep and glob tools look through, and the directory trees
+ * of list_directory. Files git ignores are left out: inside a git repository git
+ * itself decides, so every .gitignore, .git/info/exclude and the global excludes
+ * apply. Elsewhere the .gitignore files found on the way are applied.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises'
+import { join } from 'path'
+import { globToRegExp } from './permissions'
+import { git } from './worktree'
+import type { TreeEntry } from './types'
+
+// Skipped by the walk even without a .gitignore
+const ALWAYS_IGNORED = ['.git', 'node_modules']
+
+// Files listed at most - keeps a search of a huge tree bounded
+const MAX_LISTED_FILES = 50000
+
+// Entries read at most for a directory tree
+const MAX_TREE_ENTRIES = 10000
+
+interface IgnoreRule {
+  regex: RegExp
+  negated: boolean
+  dirOnly: boolean
+}
+
+/**
+ * Parse a .gitignore in directory `base` (relative to the walk's root)
+ * Covers the common syntax: comments, "!" negation, trailing "/" for
+ * directories, and patterns anchored by a "/"
+ */
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+  for (const raw of content.split('\n')) {
+    let line = raw.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const negated = line.startsWith('!')
+    if (negated) line = line.slice(1)
+    const dirOnly = line.endsWith('/')
+    if (dirOnly) line = line.slice(0, -1)
+
+    // A pattern with a slash is relative to the .gitignore, one without matches at any depth
+    const anchored = line.includes('/')
+    if (line.startsWith('/')) line = line.slice(1)
+    const pattern = (base ? `${base}/` : '') + (anchored ? line : `**/${line}`)
+    rules.push({ regex: globToRegExp(pattern, true), negated, dirOnly })
+  }
+  return rules
+}
+
+function isIgnored(path: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue
+    if (rule.regex.test(path)) {
+      ignored = !rule.negated
+    }
+  }
+  return ignored
+}
+
+async function walk(root: string, dir: string, rules: IgnoreRule[], files: string[], signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted || files.length >= MAX_LISTED_FILES) return
+
+  let entries
+  try {
+    entries = await readdir(join(root, dir), { withFileTypes: true })
+  } catch {
+    return
+  }
+
+  if (entries.some(entry => entry.isFile() && entry.name === '.gitignore')) {
+    try {
+      const content = await readFile(join(root, dir, '.gitignore'), 'utf-8')
+      rules = [...rules, ...parseGitignore(content, dir)]
+    } catch {
+      // Unreadable .gitignore - search as if it weren't there
+    }
+  }
+
+  for (const entry of entries) {
+    const path = dir ? `${dir}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      if (!ALWAYS_IGNORED.includes(entry.name) && !isIgnored(path, true, rules)) {
+        await walk(root, path, rules, files, signal)
+      }
+    } else if (entry.isFile() && !isIgnored(path, false, rules)) {
+      files.push(path)
+    }
+  }
+}
+
+/**
+ * Files under `root` that git doesn't ignore, relative to `root` and sorted
+ * Tracked files deleted from the working tree can be listed - callers skip
+ * what they can't read
+ */
+export async function listFiles(root: string, signal?: AbortSignal): Promise<string[]> {
+  const result = await git(['ls-files', '-z', '--cached', '--others', '--exclude-standard'], root)
+
+  let files: string[]
+  if (result.code === 0) {
+    files = [...new Set(result.stdout.split('\0').filter(Boolean))]
+  } else {
+    // Not a git repository
+    files = []
+    await walk(root, '', [], files, signal)
+  }
+  return files.sort().slice(0, MAX_LISTED_FILES)
+}
+
+/**
+ * Paths under `root` that git ignores, relative to `root` - ignored directories
+ * are listed once, ending in "/". Null outside a git repository
+ */
+async function gitIgnoredPaths(root: string): Promise<Set<string> | null> {
+  const result = await git(['ls-files', '-z', '--others', '--ignored', '--exclude-standard', '--directory'], root)
+  if (result.code !== 0) return null
+  return new Set(result.stdout.split('\0').filter(Boolean))
+}
+
+interface TreeWalk {
+  root: string
+  maxDepth: number
+  gitIgnored: Set<string> | null
+  count: number
+  truncated: boolean
+}
+
+async function readTreeDir(walk: TreeWalk, dir: string, depth: number, rules: IgnoreRule[]): Promise<TreeEntry[]> {
+  const entries = await readdir(join(walk.root, dir), { withFileTypes: true })
+
+  if (!walk.gitIgnored && entries.some(entry => entry.isFile() && entry.name === '.gitignore')) {
+    try {
+      const content = await readFile(join(walk.root, dir, '.gitignore'), 'utf-8')
+      rules = [...rules, ...parseGitignore(content, dir)]
+    } catch {
+      // Unreadable .gitignore - list as if it weren't there
+    }
+  }
+
+  // Directories first, then by name
+  entries.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+
+  const tree: TreeEntry[] = []
+  for (const entry of entries) {
+    const path = dir ? `${dir}/${entry.name}` : entry.name
+    const isDir = entry.isDirectory()
+    if (entry.name === '.git') continue
+    if (walk.gitIgnored
+      ? walk.gitIgnored.has(isDir ? `${path}/` : path)
+      : (isDir && ALWAYS_IGNORED.includes(entry.name)) || isIgnored(path, isDir, rules)) {
+      continue
+    }
+
+    if (walk.count >= MAX_TREE_ENTRIES) {
+      walk.truncated = true
+      break
+    }
+    walk.count++
+
+    if (isDir) {
+      if (depth < walk.maxDepth) {
+        tree.push({ name: entry.name, path, type: 'directory', children: await readTreeDir(walk, path, depth + 1, rules) })
+      } else {
+        // Below the depth limit - only say how much is in it
+        const inside = await readdir(join(walk.root, path)).catch(() => [])
+        tree.push({ name: entry.name, path, type: 'directory', entryCount: inside.length })
+      }
+    } else if (entry.isSymbolicLink()) {
+      tree.push({ name: entry.name, path, type: 'symlink' })
+    } else {
+      const size = await stat(join(walk.root, path)).then(s => s.size).catch(() => undefined)
+      tree.push({ name: entry.name, path, type: 'file', size })
+    }
+  }
+  return tree
+}
+
+/**
+ * Directory tree under `root` down to `maxDepth` levels (1 = only its entries)
+ * Paths are relative to `root`. Truncated when the tree is too big to read whole
+ */
+export async function readTree(root: string, maxDepth: number): Promise<{ entries: TreeEntry[]; truncated: boolean }> {
+  const walk: TreeWalk = { root, maxDepth, gitIgnored: await gitIgnoredPaths(root), count: 0, truncated: false }
+  const entries = await readTreeDir(walk, '', 1, [])
+  return { entries, truncated: walk.truncated }
+}
+
+/**
+ * Matcher for a glob on relative paths
+ * "**" crosses directories and "{a,b}" matches either; a glob without a "/"
+ * matches the file name at any depth ("*.ts" finds every TypeScript file)
+ */
+export function createGlobMatcher(glob: string): (path: string) => boolean {
+  const regex = globToRegExp(glob, true)
+  if (glob.includes('/')) {
+    return path => regex.test(path)
+  }
+  return path => regex.test(path.slice(path.lastIndexOf('/') + 1))
+}
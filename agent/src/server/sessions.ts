@@ -1,6 +1,8 @@
 import { readFile, writeFile, mkdir, readdir, stat } from 'fs/promises'
 import { join, dirname } from 'path'
-import type { Message, ToolCall } from './types'
+import type { CompactionRecord, Message, Plan, ScratchpadEntry, SessionMode, ToolCall, UsageBreakdown, UsageTotals } from './types'
+import type { PermissionRule } from './config'
+import { addUsageByKey, mergeUsageBreakdown } from './usage'
 
 // Session data model
 export interface Session {
@@ -11,9 +13,23 @@ export interface Session {
   createdAt: string
   updatedAt: string
   metadata: {
-    totalTokens: { input: number; output: number }
+    totalTokens: { input: number; output: number }  // Subagents' included
+    cost?: number                                   // Estimated, in dollars
+    usageByRole?: Record<string, UsageTotals>       // "main" is the main agent
+    usageByModel?: Record<string, UsageTotals>
     toolCalls: number
+    // Last reported context size per model
+    contextUsage?: Record<string, { usedTokens: number; contextWindow: number }>
   }
+  // Summaries of older turns, oldest first - the last one is in effect
+  compactions?: CompactionRecord[]
+  // Tool calls the user allowed for the rest of this session
+  permissions?: PermissionRule[]
+  // Plan mode: the latest proposed or approved plan
+  mode?: SessionMode
+  plan?: Plan
+  // What subagents wrote to the session's shared scratchpad, oldest first
+  scratchpad?: ScratchpadEntry[]
 }
 
 // Default sessions directory
@@ -41,7 +57,8 @@ export async function createSession(workingDir: string): Promise<Session> {
     metadata: {
       totalTokens: { input: 0, output: 0 },
       toolCalls: 0
-    }
+    },
+    compactions: []
   }
   return session
 }
@@ -111,17 +128,28 @@ export async function deleteSession(workingDir: string, sessionId: string): Prom
   }
 }
 
+// Add the usage of a turn or a continued subagent to the session's totals
+export function addSessionUsage(session: Session, usage: UsageBreakdown): void {
+  const { metadata } = session
+  metadata.totalTokens.input += usage.total.inputTokens
+  metadata.totalTokens.output += usage.total.outputTokens
+  if (usage.total.cost !== undefined) {
+    metadata.cost = (metadata.cost ?? 0) + usage.total.cost
+  }
+  addUsageByKey(metadata.usageByRole ??= {}, usage.byRole)
+  addUsageByKey(metadata.usageByModel ??= {}, usage.byModel)
+}
+
 // Update session with new message and token usage
 export function updateSessionMessage(
   session: Session,
   message: Message,
-  tokens?: { input: number; output: number }
+  usage?: UsageBreakdown
 ): void {
   session.messages.push(message)
 
-  if (tokens) {
-    session.metadata.totalTokens.input += tokens.input
-    session.metadata.totalTokens.output += tokens.output
+  if (usage) {
+    addSessionUsage(session, usage)
   }
 
   // Count tool calls
@@ -129,3 +157,30 @@ export function updateSessionMessage(
     session.metadata.toolCalls += message.toolCalls.length
   }
 }
+
+// Add the output of a continued turn to the turn's assistant message
+export function extendSessionMessage(
+  session: Session,
+  message: Message,
+  usage?: UsageBreakdown
+): void {
+  const last = session.messages.at(-1)
+  if (last?.role !== 'assistant') {
+    updateSessionMessage(session, message, usage)
+    return
+  }
+
+  const toolCalls = [...(last.toolCalls ?? []), ...(message.toolCalls ?? [])]
+  last.content = [last.content, message.content].filter(Boolean).join('\n\n')
+  last.toolCalls = toolCalls.length > 0 ? toolCalls : undefined
+  last.interrupted = message.interrupted
+  last.hitMaxIterations = message.hitMaxIterations
+
+  if (usage) {
+    last.usage = mergeUsageBreakdown(last.usage, usage)
+    addSessionUsage(session, usage)
+  }
+  if (message.toolCalls) {
+    session.metadata.toolCalls += message.toolCalls.length
+  }
+}
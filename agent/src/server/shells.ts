@@ -0,0 +1,479 @@
+/**
+ * Shell Sessions and Background Jobs
+ *
+ * With `tools.persistentShell` on, the main agent's bash commands run one after
+ * another in a long-lived bash process per chat session, so `cd`, exported
+ * variables and an activated virtualenv carry over to the next command. Each
+ * command is passed to `eval` and followed by a marker with its exit code and
+ * the shell's directory - output before the marker is the command's. A command
+ * that times out or is interrupted takes the shell down with it, and the next
+ * one starts a fresh shell in the working directory.
+ *
+ * Background jobs are commands bash starts without waiting for them: dev
+ * servers, watchers, long builds. Their output (stdout and stderr, as it comes)
+ * is kept in memory. The agent reads what is new since its last read, writes to
+ * their stdin and kills them; the UI follows the same output by offset. Jobs
+ * and shells run in their own process groups, so killing one also stops the
+ * processes it started.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process'
+import { randomBytes } from 'crypto'
+import type { JobOutput, JobSummary } from './types'
+
+// Output kept per shell command - longer output is cut, like a one-off bash call's
+const MAX_STDOUT = 100000
+const MAX_STDERR = 50000
+
+// Output kept per job - the oldest is dropped first
+const MAX_JOB_OUTPUT = 1_000_000
+
+// Output one read of a job returns - the newest part when there is more
+const MAX_JOB_READ = 30000
+
+// Finished jobs still listed - older ones are forgotten
+const MAX_FINISHED_JOBS = 20
+
+/**
+ * Stop a process and everything it started
+ * Asks first, then kills whatever is left a second later
+ */
+function terminateGroup(pid: number | undefined): void {
+  if (pid === undefined) return
+  const signal = (name: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, name)
+    } catch {
+      // Already gone
+    }
+  }
+  signal('SIGTERM')
+  setTimeout(() => signal('SIGKILL'), 1000).unref()
+}
+
+// Quote text so bash reads it back unchanged
+function quoteForBash(text: string): string {
+  return `$'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`
+}
+
+export interface ShellCommandResult {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  cwd: string           // The shell's directory after the command
+  timedOut: boolean
+  interrupted: boolean
+  exited: boolean       // The shell itself ended (e.g. `exit`) - the next command gets a new one
+  reset: boolean        // The session's previous shell had ended, so earlier state is gone
+}
+
+/**
+ * A long-lived bash process running one command at a time
+ */
+class Shell {
+  private proc: ChildProcessWithoutNullStreams
+  private marker = `__agent_done_${randomBytes(6).toString('hex')}__`
+  private stdout = ''
+  private stderr = ''
+  private onChange: (() => void) | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+  alive = true
+  cwd: string
+
+  constructor(cwd: string) {
+    this.cwd = cwd
+    this.proc = spawn('bash', ['--noprofile', '--norc'], { cwd, env: process.env, detached: true })
+    this.proc.stdout.on('data', (data) => {
+      this.stdout += data.toString()
+      this.onChange?.()
+    })
+    this.proc.stderr.on('data', (data) => {
+      this.stderr += data.toString()
+      this.onChange?.()
+    })
+    this.proc.on('close', () => {
+      this.alive = false
+      this.onChange?.()
+    })
+    this.proc.on('error', () => {
+      this.alive = false
+      this.onChange?.()
+    })
+    // Writing to a shell that just ended fails - its 'close' already says so
+    this.proc.stdin.on('error', () => {})
+  }
+
+  /**
+   * Run a command after the ones already waiting
+   */
+  run(command: string, timeout: number, signal?: AbortSignal): Promise<Omit<ShellCommandResult, 'reset'>> {
+    const result = this.queue.then(() => this.execute(command, timeout, signal))
+    this.queue = result.catch(() => {})
+    return result
+  }
+
+  private execute(command: string, timeout: number, signal?: AbortSignal): Promise<Omit<ShellCommandResult, 'reset'>> {
+    this.stdout = ''
+    this.stderr = ''
+
+    return new Promise((resolve) => {
+      if (!this.alive) {
+        // An earlier command in the queue ended the shell
+        resolve({ stdout: '', stderr: '', exitCode: null, cwd: this.cwd, timedOut: false, interrupted: false, exited: true })
+        return
+      }
+
+      let timedOut = false
+      let interrupted = false
+      let stdoutCut = false
+      let stderrCut = false
+
+      const finish = (exitCode: number | null) => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        this.onChange = null
+
+        // Output up to the markers - a shell that ended never printed them
+        const beforeMarker = (text: string) => this.alive ? text.slice(0, text.lastIndexOf(`\n${this.marker}`)) : text
+        let stdout = beforeMarker(this.stdout)
+        let stderr = beforeMarker(this.stderr)
+        if (stdoutCut) stdout = stdout.slice(0, MAX_STDOUT) + '\n[Output truncated...]'
+        if (stderrCut) stderr = stderr.slice(0, MAX_STDERR) + '\n[Stderr truncated...]'
+        resolve({ stdout, stderr, exitCode, cwd: this.cwd, timedOut, interrupted, exited: !this.alive })
+      }
+
+      this.onChange = () => {
+        // Keep the start of long output, and the end where the marker arrives
+        if (this.stdout.length > MAX_STDOUT + 4096) {
+          this.stdout = this.stdout.slice(0, MAX_STDOUT) + this.stdout.slice(-4096)
+          stdoutCut = true
+        }
+        if (this.stderr.length > MAX_STDERR + 4096) {
+          this.stderr = this.stderr.slice(0, MAX_STDERR) + this.stderr.slice(-4096)
+          stderrCut = true
+        }
+
+        if (!this.alive) {
+          finish(this.proc.exitCode)
+          return
+        }
+        const done = this.stdout.match(new RegExp(`\\n${this.marker} (\\d+) (.*)\\n$`))
+        if (done && this.stderr.endsWith(`\n${this.marker}\n`)) {
+          this.cwd = done[2]!
+          finish(parseInt(done[1]!))
+        }
+      }
+
+      const timer = setTimeout(() => {
+        timedOut = true
+        this.close()
+        finish(null)
+      }, timeout)
+
+      const onAbort = () => {
+        interrupted = true
+        this.close()
+        finish(null)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      // The command can't read the rest of the script: its stdin is /dev/null
+      this.proc.stdin.write([
+        `__agent_command=${quoteForBash(command)}`,
+        'eval "$__agent_command" < /dev/null',
+        `builtin printf '\\n%s %d %s\\n' '${this.marker}' "$?" "$PWD"`,
+        `builtin printf '\\n%s\\n' '${this.marker}' >&2`,
+        ''
+      ].join('\n'))
+    })
+  }
+
+  close(): void {
+    if (!this.alive) return
+    this.alive = false
+    terminateGroup(this.proc.pid)
+  }
+}
+
+// Persistent shells by session ID
+const shells: Map<string, Shell> = new Map()
+// Sessions whose shell ended - their next command reports that state was lost
+const endedShells: Set<string> = new Set()
+
+/**
+ * Run a command in the session's shell, starting one in `workingDir` if needed
+ */
+export async function runInShell(
+  sessionId: string,
+  command: string,
+  workingDir: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<ShellCommandResult> {
+  let shell = shells.get(sessionId)
+  if (!shell?.alive) {
+    shell = new Shell(workingDir)
+    shells.set(sessionId, shell)
+  }
+
+  const reset = endedShells.delete(sessionId)
+  const result = await shell.run(command, timeout, signal)
+  if (!shell.alive) {
+    shells.delete(sessionId)
+    endedShells.add(sessionId)
+  }
+  return { ...result, reset }
+}
+
+/**
+ * Directory the session's shell is in after its last command, if it has one
+ */
+export function getShellCwd(sessionId: string): string | null {
+  const shell = shells.get(sessionId)
+  return shell?.alive ? shell.cwd : null
+}
+
+/**
+ * Directory and exported variables of the session's shell, if it has one
+ * Background jobs start from them so they see what earlier commands set up
+ */
+export async function getShellEnvironment(sessionId: string): Promise<{ cwd: string; env: Record<string, string> } | null> {
+  const shell = shells.get(sessionId)
+  if (!shell?.alive) return null
+
+  const result = await shell.run('env -0', 5000)
+  if (result.exitCode !== 0) return null
+  const env: Record<string, string> = {}
+  for (const entry of result.stdout.split('\0')) {
+    const equals = entry.indexOf('=')
+    if (equals > 0) env[entry.slice(0, equals)] = entry.slice(equals + 1)
+  }
+  return { cwd: result.cwd, env }
+}
+
+/**
+ * End the session's shell - when the session is deleted
+ */
+export function closeShell(sessionId: string): void {
+  shells.get(sessionId)?.close()
+  shells.delete(sessionId)
+  endedShells.delete(sessionId)
+}
+
+interface Job {
+  summary: JobSummary
+  proc: ChildProcessWithoutNullStreams
+  output: string     // The kept end of the output
+  dropped: number    // Characters dropped from the start of `output`
+  readOffset: number // Where the agent's next read starts
+  killed: boolean
+  listeners: Set<() => void>
+}
+
+const jobs: Map<string, Job> = new Map()
+let jobCounter = 0
+
+function notify(job: Job): void {
+  for (const listener of job.listeners) listener()
+}
+
+function summarize(job: Job): JobSummary {
+  return { ...job.summary, outputLength: job.dropped + job.output.length }
+}
+
+// Forget the oldest finished jobs beyond the limit
+function pruneJobs(): void {
+  const finished = [...jobs.values()].filter(job => job.summary.status !== 'running')
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(job.summary.id)
+  }
+}
+
+// A session only sees its own jobs - another session's are reported as missing
+function getJob(id: string, sessionId: string | undefined): Job {
+  const job = jobs.get(id)
+  if (!job || job.summary.sessionId !== sessionId) {
+    throw new Error(`No job ${id} - running jobs: ${listJobs(sessionId).filter(j => j.status === 'running').map(j => j.id).join(', ') || 'none'}`)
+  }
+  return job
+}
+
+/**
+ * Start a command in the background
+ */
+export function startJob(options: { command: string; cwd: string; env?: Record<string, string>; sessionId?: string }): JobSummary {
+  const id = `job_${++jobCounter}`
+  const proc = spawn('bash', ['-c', options.command], {
+    cwd: options.cwd,
+    env: options.env ?? process.env,
+    detached: true
+  })
+
+  const job: Job = {
+    summary: {
+      id,
+      command: options.command,
+      cwd: options.cwd,
+      pid: proc.pid,
+      status: 'running',
+      sessionId: options.sessionId,
+      startedAt: new Date().toISOString(),
+      outputLength: 0
+    },
+    proc,
+    output: '',
+    dropped: 0,
+    readOffset: 0,
+    killed: false,
+    listeners: new Set()
+  }
+
+  const append = (data: Buffer) => {
+    job.output += data.toString()
+    if (job.output.length > MAX_JOB_OUTPUT) {
+      const excess = job.output.length - MAX_JOB_OUTPUT
+      job.output = job.output.slice(excess)
+      job.dropped += excess
+    }
+    notify(job)
+  }
+  proc.stdout.on('data', append)
+  proc.stderr.on('data', append)
+
+  const end = (exitCode: number | null) => {
+    if (job.summary.status !== 'running') return
+    job.summary.status = job.killed ? 'killed' : 'exited'
+    job.summary.exitCode = exitCode
+    job.summary.endedAt = new Date().toISOString()
+    notify(job)
+    pruneJobs()
+  }
+  proc.on('close', end)
+  proc.on('error', (error) => {
+    job.output += `\n[Could not start: ${error.message}]\n`
+    end(null)
+  })
+
+  jobs.set(id, job)
+  return summarize(job)
+}
+
+/**
+ * Jobs of a session (without one, the jobs started outside any session), newest first
+ */
+export function listJobs(sessionId: string | undefined): JobSummary[] {
+  return [...jobs.values()]
+    .filter(job => job.summary.sessionId === sessionId)
+    .map(summarize)
+    .reverse()
+}
+
+/**
+ * Wait until a job prints something new or ends, at most `timeout` ms
+ */
+export function waitForJob(id: string, sessionId: string | undefined, timeout: number, signal?: AbortSignal): Promise<void> {
+  const job = getJob(id, sessionId)
+  if (job.summary.status !== 'running' || job.dropped + job.output.length > job.readOffset) {
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      job.listeners.delete(done)
+      resolve()
+    }
+    const timer = setTimeout(done, timeout)
+    signal?.addEventListener('abort', done, { once: true })
+    job.listeners.add(done)
+  })
+}
+
+/**
+ * Output of a job from `offset` on, as much as one read returns
+ * Output no longer kept, or beyond the read limit, is skipped from the front
+ */
+export function getJobOutput(id: string, sessionId: string | undefined, offset: number): JobOutput {
+  const job = getJob(id, sessionId)
+  const end = job.dropped + job.output.length
+  const from = Math.max(0, Math.min(offset, end))
+  const start = Math.max(from, job.dropped, end - MAX_JOB_READ)
+  return {
+    job: summarize(job),
+    output: job.output.slice(start - job.dropped),
+    offset: start,
+    skipped: start - from
+  }
+}
+
+/**
+ * What a job printed since the agent last read it
+ */
+export function readNewJobOutput(id: string, sessionId: string | undefined): JobOutput {
+  const job = getJob(id, sessionId)
+  const result = getJobOutput(id, sessionId, job.readOffset)
+  job.readOffset = result.offset + result.output.length
+  return result
+}
+
+/**
+ * Write to a running job's stdin
+ */
+export function writeJobInput(id: string, sessionId: string | undefined, text: string, close: boolean = false): JobSummary {
+  const job = getJob(id, sessionId)
+  if (job.summary.status !== 'running' || !job.proc.stdin.writable) {
+    throw new Error(`${id} is not reading input - it has ${job.summary.status === 'running' ? 'closed its stdin' : 'ended'}`)
+  }
+  job.proc.stdin.write(text)
+  if (close) job.proc.stdin.end()
+  return summarize(job)
+}
+
+/**
+ * Stop a job and what it started, waiting a moment for it to end
+ */
+export async function killJob(id: string, sessionId: string | undefined): Promise<JobSummary> {
+  const job = getJob(id, sessionId)
+  if (job.summary.status === 'running') {
+    job.killed = true
+    terminateGroup(job.proc.pid)
+    await new Promise<void>((resolve) => {
+      const onEnd = () => {
+        if (job.summary.status === 'running') return
+        clearTimeout(timer)
+        job.listeners.delete(onEnd)
+        resolve()
+      }
+      const timer = setTimeout(() => {
+        job.listeners.delete(onEnd)
+        resolve()
+      }, 2000)
+      job.listeners.add(onEnd)
+    })
+  }
+  return summarize(job)
+}
+
+/**
+ * Stop a session's jobs and forget them - when the session is deleted
+ */
+export async function stopSessionJobs(sessionId: string): Promise<void> {
+  const owned = [...jobs.values()].filter(job => job.summary.sessionId === sessionId)
+  await Promise.all(owned.map(job => killJob(job.summary.id, sessionId)))
+  for (const job of owned) {
+    jobs.delete(job.summary.id)
+  }
+}
+
+/**
+ * Stop every job and shell - when the server shuts down
+ */
+export function stopAll(): void {
+  for (const job of jobs.values()) {
+    if (job.summary.status === 'running') terminateGroup(job.proc.pid)
+  }
+  for (const shell of shells.values()) {
+    shell.close()
+  }
+}
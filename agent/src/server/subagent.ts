@@ -1,8 +1,24 @@
+import { randomUUID } from 'crypto'
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { dirname, join } from 'path'
 import { getProvider, getSubagentToolDefinitions, type ChatMessage, type ContentBlock, type ProviderName } from './providers'
 import { SUBAGENT_SYSTEM_PROMPT, loadProjectInstructions } from './prompt'
-import { executeTool } from './tools'
-import type { SubagentConfig, SubagentRole } from './config'
-import type { AgentEvent, Message, SubagentTask, ToolCall, ToolResultDetails } from './types'
+import { historyToChatMessages } from './history'
+import { groupToolCalls, runConcurrently, runToolCall, type PendingToolCall, type ToolCallOutcome } from './execution'
+import type { ToolApprovalCallback } from './permissions'
+import type { ToolContext } from './tools'
+import { killJob } from './shells'
+import type { CheckpointContext } from './checkpoints'
+import { DEFAULT_ROLE_CONFIG, getRoleConfig, loadFullConfig, type RoleConfig, type SubagentConfig } from './config'
+import { isToolAllowedForRole } from './roles'
+import { createSubagentReport, formatSubagentReport, reportFromText } from './results'
+import { ChangeTracker, type FileOriginals } from './changes'
+import { closeInbox, formatSubagentMessage, hasMessages, messageSubagentCall, openInbox, takeMessages } from './inbox'
+import { Scratchpad, scratchpadCall, summarizeScratchpad } from './scratchpad'
+import { UsageLedger, estimateCost } from './usage'
+import { formatBudgetStop, type BudgetGuard } from './budget'
+import { canUseWorktree, collectWorktreeChanges, createWorktree, mergeWorktree, removeWorktree } from './worktree'
+import type { AgentEvent, JobOutput, Message, SubagentFileChange, SubagentIsolation, SubagentReport, SubagentTask, ToolCall, ToolResult, ToolResultDetails, WorktreeChanges, WorktreeInfo } from './types'
 
 const DOOM_LOOP_THRESHOLD = 3
 
@@ -33,576 +49,1111 @@ function checkDoomLoop(
   return false
 }
 
+// Abort controllers for running subagents, keyed by task ID
+const activeSubagents: Map<string, AbortController> = new Map()
+
+// Subagents waiting for a free slot - calling the entry drops the task from its queue
+const queuedSubagents: Map<string, () => void> = new Map()
+
+/**
+ * Create an abort controller for a subagent, linked to the parent turn's signal
+ * so stopping the turn stops every subagent, while each can still be stopped alone
+ */
+function createSubagentController(taskId: string, parentSignal?: AbortSignal): AbortController {
+  const controller = new AbortController()
+  if (parentSignal?.aborted) {
+    controller.abort()
+  } else {
+    parentSignal?.addEventListener('abort', () => controller.abort(), { once: true })
+  }
+  activeSubagents.set(taskId, controller)
+  openInbox(taskId)
+  return controller
+}
+
+/**
+ * Stop a single running or queued subagent
+ * Returns false if no subagent with that ID is running or queued
+ */
+export function cancelSubagent(taskId: string): boolean {
+  const controller = activeSubagents.get(taskId)
+  if (controller) {
+    controller.abort()
+    return true
+  }
+
+  const dequeue = queuedSubagents.get(taskId)
+  if (!dequeue) return false
+  dequeue()
+  return true
+}
+
+/**
+ * Record an interruption in the subagent's history, keeping any partial output
+ */
+function markInterrupted(history: Message[], partialText: string): void {
+  if (partialText) {
+    history.push({ role: 'assistant', content: partialText, interrupted: true })
+    return
+  }
+
+  const last = history[history.length - 1]
+  if (last?.role !== 'assistant') return
+  last.interrupted = true
+  for (const tool of last.toolCalls || []) {
+    if (tool.status === 'pending' || tool.status === 'running') {
+      tool.status = 'error'
+      tool.error = 'Interrupted'
+    }
+  }
+}
+
+/**
+ * Handle a submit_result call
+ * Returns the report, or no report and an error result for the subagent to fix
+ */
+function submitResult(
+  task: SubagentTask,
+  call: PendingToolCall,
+  history: Message[]
+): { report?: SubagentReport; outcome: ToolCallOutcome } {
+  let report: SubagentReport | undefined
+  let outcome: ToolCallOutcome
+  try {
+    if (hasMessages(task.id)) {
+      throw new Error('New messages arrived - read them, then call submit_result again')
+    }
+    report = createSubagentReport(task, call.input, history)
+    outcome = {
+      event: { type: 'tool_result', id: call.id, output: 'Result submitted.' },
+      result: { type: 'tool_result', tool_use_id: call.id, content: 'Result submitted.' }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+    outcome = {
+      event: { type: 'tool_result', id: call.id, output: '', error: errorMsg },
+      result: { type: 'tool_result', tool_use_id: call.id, content: `Error: ${errorMsg}`, is_error: true }
+    }
+  }
+
+  const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === call.id)
+  if (historyTool) {
+    historyTool.status = outcome.event.error ? 'error' : 'done'
+    historyTool.output = outcome.event.output || undefined
+    historyTool.error = outcome.event.error
+  }
+
+  return { report, outcome }
+}
+
+/**
+ * Run the tool calls from one subagent response
+ * Read-only calls run concurrently, the rest one at a time in order.
+ * Files the calls change are recorded in the subagent's changeset.
+ * Updates the subagent's UI history and returns the results in call order.
+ */
+async function* executeSubagentTools(
+  calls: PendingToolCall[],
+  task: SubagentTask,
+  history: Message[],
+  toolCallHistory: ToolCallTracker[],
+  workingDir: string,
+  maxConcurrent: number,
+  signal: AbortSignal,
+  changes: ChangeTracker,
+  scratchpad: Scratchpad,
+  onToolApproval?: ToolApprovalCallback,
+  checkpoint?: CheckpointContext,
+  role?: RoleConfig,
+  context?: ToolContext
+): AsyncGenerator<AgentEvent, ContentBlock[]> {
+  const taskId = task.id
+  const results: ContentBlock[] = []
+  const historyTools = history[history.length - 1]?.toolCalls
+
+  const record = (call: PendingToolCall, outcome: ToolCallOutcome) => {
+    results[calls.indexOf(call)] = outcome.result
+
+    // Update history
+    const historyTool = historyTools?.find(t => t.id === call.id)
+    if (historyTool) {
+      historyTool.status = outcome.event.error ? 'error' : 'done'
+      historyTool.output = outcome.event.output || undefined
+      historyTool.details = outcome.event.details
+      historyTool.error = outcome.event.error
+    }
+  }
+
+  for (const batch of groupToolCalls(calls)) {
+    // Remaining tools stay pending if the subagent was stopped
+    if (signal.aborted) break
+
+    const runnable: PendingToolCall[] = []
+    for (const call of batch) {
+      // Tools outside the role's list are refused even if the model calls them
+      if (!isToolAllowedForRole(role, call.name)) {
+        const error = `${call.name} is not available to this subagent's role`
+        const outcome: ToolCallOutcome = {
+          event: { type: 'tool_result', id: call.id, output: '', error },
+          result: { type: 'tool_result', tool_use_id: call.id, content: `Error: ${error}`, is_error: true }
+        }
+        yield { type: 'subagent_progress', taskId, event: outcome.event }
+        record(call, outcome)
+      } else if (checkDoomLoop(toolCallHistory, call.name, call.input)) {
+        // Doom loop - same call repeated
+        const outcome: ToolCallOutcome = {
+          event: {
+            type: 'tool_result',
+            id: call.id,
+            output: '',
+            error: `Doom loop detected: ${call.name} called ${DOOM_LOOP_THRESHOLD}+ times with identical arguments.`
+          },
+          result: {
+            type: 'tool_result',
+            tool_use_id: call.id,
+            content: `Error: Detected repeated identical calls to ${call.name}. Please try a different approach.`,
+            is_error: true
+          }
+        }
+        yield { type: 'subagent_progress', taskId, event: outcome.event }
+        record(call, outcome)
+      } else {
+        runnable.push(call)
+      }
+    }
+
+    for await (const update of runConcurrently(
+      runnable,
+      maxConcurrent,
+      call => {
+        switch (call.name) {
+          case 'message_subagent':
+            return Promise.resolve(messageSubagentCall(call, `subagent ${taskId}`))
+          case 'scratchpad_read':
+          case 'scratchpad_write':
+            return Promise.resolve(scratchpadCall(scratchpad, call, taskId, `${task.role}: ${task.description}`))
+          default:
+            return changes.track(call.name, call.input, () => runToolCall(call, workingDir, signal, onToolApproval, taskId, checkpoint, context))
+        }
+      },
+      signal
+    )) {
+      const call = runnable[update.index]!
+      if (update.type === 'start') {
+        yield { type: 'subagent_progress', taskId, event: { type: 'tool_running', id: call.id } }
+      } else {
+        yield { type: 'subagent_progress', taskId, event: update.result.event }
+        record(call, update.result)
+      }
+    }
+  }
+
+  return results.filter(Boolean)
+}
+
 export interface ParentConfig {
   provider?: string
   model?: string
 }
 
+export type SubagentStatus = 'running' | 'completed' | 'max_iterations' | 'interrupted' | 'timeout' | 'error'
+
+export interface SubagentUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+/**
+ * Everything needed to pause a subagent and pick it up again later
+ * Saved to .agent/subagents/<taskId>.json after every iteration
+ */
+export interface SubagentState {
+  task: SubagentTask
+  provider: ProviderName
+  model: string
+  messages: ChatMessage[]             // Provider context
+  history: Message[]                  // UI history
+  iterations: number                  // Iterations used so far, across continuations
+  maxIterations: number               // Stop once `iterations` reaches this
+  toolCallHistory: ToolCallTracker[]  // Doom loop tracker
+  usage: SubagentUsage
+  status: SubagentStatus
+  summary?: string
+  report?: SubagentReport             // Set once it completes
+  originals: FileOriginals            // Files it touched, as they were before - for the changeset
+  changes?: SubagentFileChange[]      // Set once it completes
+  error?: string
+  checkpoint?: CheckpointContext      // Turn whose checkpoint collects this subagent's file changes
+  isolation: SubagentIsolation
+  worktree?: WorktreeInfo             // Set while the subagent has a worktree (isolation 'worktree')
+  depth: number                       // 1 for the main agent's subagents, 2 for theirs, ...
+  parentTaskId?: string               // The subagent that started this one, if nested
+  cwd?: string                        // Directory its tools run in, if not the working directory
+  createdAt: string
+  updatedAt: string
+}
+
 export interface SubagentOptions {
   task: SubagentTask
   workingDir: string
   config: SubagentConfig
   parentConfig?: ParentConfig  // Inherit provider/model from parent if not specified
+  signal?: AbortSignal  // Parent turn's cancellation signal
+  onToolApproval?: ToolApprovalCallback  // Asks the user about tool calls that need approval
+  checkpoint?: CheckpointContext  // Snapshots go into the parent turn's checkpoint
+  nesting: SubagentNesting
   // NO parent history - subagents get fresh context only
 }
 
+// Shared by every subagent in a tree - the ones started by one main agent turn
+export interface SubagentTree {
+  slots: SubagentSlots      // Concurrency budget
+  scratchpad: Scratchpad
+  usage: UsageLedger        // Rolled up into the turn that started the tree
+  budget?: BudgetGuard      // The turn's budgets - none for a tree without limits
+}
+
+// Where a batch of subagents sits in the subagent tree
+export interface SubagentNesting extends SubagentTree {
+  depth: number          // Depth of the subagents in the batch
+  parentTaskId?: string  // The subagent that started the batch, if nested
+  cwd?: string           // Directory the batch's tools run in, if not the working directory
+}
+
+export interface ContinueSubagentOptions {
+  taskId: string
+  workingDir: string
+  iterations?: number  // Extra iterations - defaults to the role's maxIterations
+  signal?: AbortSignal
+  onToolApproval?: ToolApprovalCallback
+  usage?: UsageLedger  // Collects the tokens the continuation uses
+  budget?: BudgetGuard // Checked against `usage`
+  scratchpad?: Scratchpad  // The session's scratchpad
+}
+
+const SUBAGENTS_DIR = '.agent/subagents'
+const CONTINUE_PROMPT = 'Continue working on the task. You have more iterations available now.'
+const RESULT_REMINDER = 'Call submit_result to finish - the task asks for output matching its schema.'
+const NESTING_PROMPT = 'You can hand parts of your task to your own subagents with the task tool. Only split work that is big enough to be worth it - you get their results back before you continue.'
+
 /**
- * Build the prompt for a subagent based on its task and role
+ * Build the prompt for a subagent based on its task
  */
 function buildSubagentPrompt(task: SubagentTask): string {
-  const rolePrompts: Record<SubagentRole, string> = {
-    simple: 'Complete this task efficiently.',
-    complex: 'Carefully work through this task step by step. Think before acting.',
-    researcher: 'Explore and gather information thoroughly.'
-  }
-
-  return `${rolePrompts[task.role]}
-
-Task: ${task.description}
+  return `Task: ${task.description}
 ${task.context ? `\nContext: ${task.context}` : ''}`
 }
 
 /**
- * Run a single subagent to completion
- * Yields progress events and returns the final result
+ * Build the subagent system prompt with the role's instructions and project instructions
  */
-export async function* runSubagent(
-  options: SubagentOptions
-): AsyncGenerator<AgentEvent> {
-  const { task, workingDir, config, parentConfig } = options
+async function buildSubagentSystemPrompt(workingDir: string, role?: RoleConfig, worktree?: WorktreeInfo, canNest: boolean = false): Promise<string> {
+  let prompt = SUBAGENT_SYSTEM_PROMPT
+  if (role?.prompt) {
+    prompt += `\n\n<role>\n${role.prompt}\n</role>`
+  }
+  if (canNest) {
+    prompt += `\n\n${NESTING_PROMPT}`
+  }
+  if (worktree) {
+    prompt += `\n\nYou are working in an isolated git worktree on branch ${worktree.branch}. Use relative paths - your changes are reviewed by the user before they reach the main working directory.`
+  }
 
-  // Get role config (with user overrides)
-  // Priority: task override > parent config > role config
-  const roleConfig = config.roles[task.role]
-  const providerName = task.provider || parentConfig?.provider || roleConfig.provider
-  const model = task.model || parentConfig?.model || roleConfig.model
-  const maxIterations = roleConfig.maxIterations
+  const projectInstructions = await loadProjectInstructions(workingDir)
+  return projectInstructions
+    ? `${prompt}\n\n<project_instructions>\n${projectInstructions}\n</project_instructions>`
+    : prompt
+}
 
-  // Build subagent prompt
-  const userPrompt = buildSubagentPrompt(task)
+function getStatePath(workingDir: string, taskId: string): string {
+  // IDs come from URLs too - anything but a plain name could point outside the state directory
+  if (!/^[\w-]+$/.test(taskId)) {
+    throw new Error(`Invalid subagent ID: ${taskId}`)
+  }
+  return join(workingDir, SUBAGENTS_DIR, `${taskId}.json`)
+}
 
-  // Get system prompt with project instructions
-  const projectInstructions = await loadProjectInstructions(workingDir)
-  const systemPrompt = projectInstructions
-    ? `${SUBAGENT_SYSTEM_PROMPT}\n\n<project_instructions>\n${projectInstructions}\n</project_instructions>`
-    : SUBAGENT_SYSTEM_PROMPT
+/**
+ * A subagent's conversation loop plus its state
+ * run() works until the task is done, the iteration budget runs out or it is stopped;
+ * extend() adds iterations so run() can pick up where it left off
+ */
+export class SubagentRuntime {
+  constructor(
+    readonly state: SubagentState,
+    private workingDir: string
+  ) {}
+
+  /**
+   * Start a new subagent for a task
+   * Priority for provider/model: task override > parent config > role config
+   * Nested subagents work in their parent's directory, without a worktree of their own
+   */
+  static create(
+    task: SubagentTask,
+    workingDir: string,
+    config: SubagentConfig,
+    parentConfig?: ParentConfig,
+    checkpoint?: CheckpointContext,
+    nesting?: SubagentNesting
+  ): SubagentRuntime {
+    const roleConfig = getRoleConfig(config, task.role)
+    const userPrompt = buildSubagentPrompt(task)
+    const now = new Date().toISOString()
+
+    return new SubagentRuntime({
+      task,
+      provider: (task.provider || parentConfig?.provider || roleConfig.provider) as ProviderName,
+      model: task.model || parentConfig?.model || roleConfig.model,
+      messages: [{ role: 'user', content: userPrompt }],
+      history: [{ role: 'user', content: userPrompt }],
+      iterations: 0,
+      maxIterations: roleConfig.maxIterations,
+      toolCallHistory: [],
+      originals: {},
+      usage: { inputTokens: 0, outputTokens: 0 },
+      status: 'running',
+      checkpoint,
+      isolation: nesting?.parentTaskId ? 'shared' : task.isolation ?? roleConfig.isolation ?? 'shared',
+      depth: nesting?.depth ?? 1,
+      parentTaskId: nesting?.parentTaskId,
+      cwd: nesting?.cwd,
+      createdAt: now,
+      updatedAt: now
+    }, workingDir)
+  }
 
-  yield { type: 'subagent_start', taskId: task.id, description: task.description, role: task.role }
+  /**
+   * Load a saved subagent
+   * One that was still running when the server stopped is treated as interrupted
+   */
+  static async load(workingDir: string, taskId: string): Promise<SubagentRuntime | null> {
+    let state: SubagentState
+    try {
+      state = JSON.parse(await readFile(getStatePath(workingDir, taskId), 'utf-8')) as SubagentState
+    } catch {
+      return null
+    }
 
-  // Get the LLM provider
-  const provider = getProvider({
-    provider: providerName as ProviderName,
-    model: model
-  })
+    if (state.status === 'running' && !activeSubagents.has(taskId)) {
+      markInterrupted(state.history, '')
+      state.status = 'interrupted'
+    }
+    return new SubagentRuntime(state, workingDir)
+  }
 
-  // Build messages - start fresh (no parent history)
-  const messages: ChatMessage[] = [{ role: 'user', content: userPrompt }]
+  async save(): Promise<void> {
+    this.state.updatedAt = new Date().toISOString()
+    const path = getStatePath(this.workingDir, this.state.task.id)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, JSON.stringify(this.state, null, 2), 'utf-8')
+  }
 
-  // Track history for UI expandable view
-  const history: Message[] = [{ role: 'user', content: userPrompt }]
+  /**
+   * Allow more iterations and ask the model to keep going
+   * The provider context is rebuilt from history, which closes any tool calls
+   * that were cut off when the subagent stopped
+   */
+  extend(iterations: number): void {
+    const { state } = this
+    state.maxIterations = state.iterations + iterations
+    state.history.push({ role: 'user', content: CONTINUE_PROMPT })
+    state.messages = historyToChatMessages(state.history)
+    state.status = 'running'
+    state.summary = undefined
+    state.report = undefined
+    state.changes = undefined
+    state.error = undefined
+  }
 
-  const toolCallHistory: ToolCallTracker[] = []
-  let iterations = 0
-  let finalOutput = ''
+  /**
+   * Run until the task is done, the iteration budget is used up, or the subagent is stopped
+   * After `timeout` seconds (wall clock, 0 = none) the provider stream and running tools are aborted
+   * `tree` holds the concurrency budget - this subagent holds one of its slots while it runs -
+   * and the scratchpad and usage ledger it shares with the other subagents of the tree
+   * Yields progress events; the final event reports the outcome
+   */
+  async *run(
+    tree: SubagentTree,
+    signal?: AbortSignal,
+    onToolApproval?: ToolApprovalCallback,
+    timeout: number = 0
+  ): AsyncGenerator<AgentEvent> {
+    const { state } = this
+    const { task, history, messages } = state
+    const { tools: toolConfig, subagents, pricing } = await loadFullConfig(this.workingDir)
+    // The role may have been removed since a saved subagent started - it then keeps every tool
+    const role: RoleConfig | undefined = subagents.roles[task.role]
+    // Subagents saved before nesting existed have no depth
+    const canNest = (state.depth ?? 1) < subagents.maxDepth && isToolAllowedForRole(role, 'task')
+
+    yield { type: 'subagent_start', taskId: task.id, description: task.description, role: task.role, dependsOn: task.dependsOn }
+
+    const provider = getProvider({ provider: state.provider, model: state.model })
+    const controller = createSubagentController(task.id, signal)
+    state.status = 'running'
+    let textContent = ''
+    let resultReminderSent = false
+
+    // Wall-clock limit - aborting the controller also stops running tools
+    let timedOut = false
+    const timer = timeout > 0
+      ? setTimeout(() => { timedOut = true; controller.abort() }, timeout * 1000)
+      : undefined
 
-  try {
-    while (iterations < maxIterations) {
-      iterations++
-
-      // Track tool calls from this iteration
-      const pendingTools: Map<string, { name: string; input: Record<string, unknown> }> = new Map()
-      let textContent = ''
-
-      // Stream from provider - use subagent tool definitions (no task tool, includes MCP tools)
-      const tools = getSubagentToolDefinitions()
-      for await (const event of provider.stream(messages, systemPrompt, tools)) {
-        switch (event.type) {
-          case 'text_delta':
-            textContent += event.delta
-            yield { type: 'subagent_progress', taskId: task.id, event: { type: 'text_delta', delta: event.delta }, timestamp: Date.now() }
-            break
-
-          case 'tool_start':
-            yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_start', id: event.id, name: event.name }, timestamp: Date.now() }
-            pendingTools.set(event.id, { name: event.name, input: {} })
-            break
-
-          case 'tool_input_delta':
-            yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_input_delta', id: event.id, partialJson: event.partialJson }, timestamp: Date.now() }
-            break
-
-          case 'tool_complete':
-            const tool = pendingTools.get(event.id)
-            if (tool) {
-              tool.input = event.input
-            }
-            break
+    try {
+      // Isolated subagents edit files in their own worktree
+      if (state.isolation === 'worktree' && !state.worktree) {
+        if (await canUseWorktree(this.workingDir)) {
+          state.worktree = await createWorktree(this.workingDir, task.id)
+          await this.save()
+        } else {
+          console.warn(`Subagent ${task.id}: ${this.workingDir} is not a git repository with commits, running without a worktree`)
+          state.isolation = 'shared'
         }
       }
-
-      // Track assistant message in history
-      if (textContent || pendingTools.size > 0) {
-        const toolCalls: ToolCall[] = []
-        for (const [id, tool] of pendingTools) {
-          toolCalls.push({
-            id,
-            name: tool.name,
-            input: tool.input,
-            status: 'pending'
-          })
+      const toolDir = state.worktree?.path ?? state.cwd ?? this.workingDir
+      // Worktree changes are reviewed and merged instead of being checkpointed
+      const checkpoint = state.worktree ? undefined : state.checkpoint
+      // Background jobs belong to the parent's session, so its jobs panel shows them and deleting it stops them
+      const toolContext: ToolContext = { sessionId: state.checkpoint?.sessionId }
+      const systemPrompt = await buildSubagentSystemPrompt(toolDir, role, state.worktree, canNest)
+      // Subagents saved before changesets were recorded have no originals yet
+      const changes = new ChangeTracker(toolDir, state.originals ??= {})
+
+      while (state.iterations < state.maxIterations) {
+        if (controller.signal.aborted) {
+          yield* this.finishInterrupted('', timedOut ? timeout : undefined)
+          return
         }
-        history.push({
-          role: 'assistant',
-          content: textContent,
-          toolCalls: toolCalls.length > 0 ? toolCalls : undefined
-        })
-      }
-
-      // If no tools were called, we're done
-      if (pendingTools.size === 0) {
-        finalOutput = textContent
-        break
-      }
-
-      // Build assistant message with tool uses
-      const assistantContent: ContentBlock[] = []
-      if (textContent) {
-        assistantContent.push({ type: 'text', text: textContent })
-      }
-      for (const [id, tool] of pendingTools) {
-        assistantContent.push({
-          type: 'tool_use',
-          id,
-          name: tool.name,
-          input: tool.input
-        })
-      }
-      messages.push({ role: 'assistant', content: assistantContent })
 
-      // Execute tools and collect results
-      const toolResults: ContentBlock[] = []
+        const budgetStop = await tree.budget?.check()
+        if (budgetStop) {
+          yield* this.finishInterrupted('', undefined, formatBudgetStop(budgetStop))
+          return
+        }
 
-      for (const [id, tool] of pendingTools) {
-        // Check for doom loop
-        if (checkDoomLoop(toolCallHistory, tool.name, tool.input)) {
-          const errorEvent: AgentEvent = {
-            type: 'tool_result',
-            id,
-            output: '',
-            error: `Doom loop detected: ${tool.name} called ${DOOM_LOOP_THRESHOLD}+ times with identical arguments.`
-          }
-          yield { type: 'subagent_progress', taskId: task.id, event: errorEvent, timestamp: Date.now() }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: `Error: Detected repeated identical calls to ${tool.name}. Please try a different approach.`,
-            is_error: true
-          })
+        // Messages sent while it was working are read before the next step
+        for (const message of takeMessages(task.id)) {
+          const content = formatSubagentMessage(message)
+          messages.push({ role: 'user', content })
+          history.push({ role: 'user', content })
+          yield { type: 'subagent_message', taskId: task.id, message: message.text, from: message.from }
+        }
 
-          // Update history
-          const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === id)
-          if (historyTool) {
-            historyTool.status = 'error'
-            historyTool.error = 'Doom loop detected'
+        state.iterations++
+
+        // Track tool calls from this iteration
+        const pendingTools: Map<string, { name: string; input: Record<string, unknown> }> = new Map()
+        textContent = ''
+
+        // Stream from provider - use subagent tool definitions (task tool only below maxDepth, includes MCP tools, limited to the role's)
+        const tools = getSubagentToolDefinitions(role, task.outputSchema, canNest ? subagents.roles : undefined)
+        for await (const event of provider.stream(messages, systemPrompt, tools, controller.signal)) {
+          switch (event.type) {
+            case 'text_delta':
+              textContent += event.delta
+              yield { type: 'subagent_progress', taskId: task.id, event: { type: 'text_delta', delta: event.delta }, timestamp: Date.now() }
+              break
+
+            case 'tool_start':
+              yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_start', id: event.id, name: event.name }, timestamp: Date.now() }
+              pendingTools.set(event.id, { name: event.name, input: {} })
+              break
+
+            case 'tool_input_delta':
+              yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_input_delta', id: event.id, partialJson: event.partialJson }, timestamp: Date.now() }
+              break
+
+            case 'tool_complete':
+              const tool = pendingTools.get(event.id)
+              if (tool) {
+                tool.input = event.input
+              }
+              break
+
+            case 'message_complete':
+              state.usage.inputTokens += event.usage.inputTokens
+              state.usage.outputTokens += event.usage.outputTokens
+              tree.usage.add(task.role, state.model, { ...event.usage, cost: estimateCost(state.model, event.usage, pricing) }, task.id)
+              yield {
+                type: 'subagent_usage',
+                taskId: task.id,
+                role: task.role,
+                model: state.model,
+                usage: { ...state.usage, cost: estimateCost(state.model, state.usage, pricing) }
+              }
+              break
           }
-          continue
         }
 
-        yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_running', id }, timestamp: Date.now() }
-
-        try {
-          const result = await executeTool(tool.name, tool.input, workingDir)
-          const resultEvent: AgentEvent = {
-            type: 'tool_result',
-            id,
-            output: result.output,
-            details: result.details
+        // Track assistant message in history
+        if (textContent || pendingTools.size > 0) {
+          const toolCalls: ToolCall[] = []
+          for (const [id, tool] of pendingTools) {
+            toolCalls.push({
+              id,
+              name: tool.name,
+              input: tool.input,
+              status: 'pending'
+            })
           }
-          yield { type: 'subagent_progress', taskId: task.id, event: resultEvent, timestamp: Date.now() }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: result.output
+          history.push({
+            role: 'assistant',
+            content: textContent,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined
           })
+        }
 
-          // Update history
-          const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === id)
-          if (historyTool) {
-            historyTool.status = 'done'
-            historyTool.output = result.output
-            historyTool.details = result.details
+        // If no tools were called, we're done - the text is taken as the summary
+        if (pendingTools.size === 0) {
+          // Unless messages came in meanwhile - it gets to read them first
+          if (hasMessages(task.id)) {
+            messages.push({ role: 'assistant', content: textContent || '(no response)' })
+            await this.save()
+            continue
           }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-          const errorEvent: AgentEvent = {
-            type: 'tool_result',
-            id,
-            output: '',
-            error: errorMsg
+          // Output for a schema only comes through submit_result, so ask for it once
+          if (task.outputSchema && !resultReminderSent) {
+            resultReminderSent = true
+            messages.push({ role: 'assistant', content: textContent || '(no response)' })
+            messages.push({ role: 'user', content: RESULT_REMINDER })
+            history.push({ role: 'user', content: RESULT_REMINDER })
+            await this.save()
+            continue
           }
-          yield { type: 'subagent_progress', taskId: task.id, event: errorEvent, timestamp: Date.now() }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: `Error: ${errorMsg}`,
-            is_error: true
+          yield* this.complete(reportFromText(textContent, history), changes)
+          return
+        }
+
+        // Build assistant message with tool uses
+        const assistantContent: ContentBlock[] = []
+        if (textContent) {
+          assistantContent.push({ type: 'text', text: textContent })
+        }
+        for (const [id, tool] of pendingTools) {
+          assistantContent.push({
+            type: 'tool_use',
+            id,
+            name: tool.name,
+            input: tool.input
           })
+        }
+        messages.push({ role: 'assistant', content: assistantContent })
+
+        // Execute tools and collect results - nested tasks run after the other tools,
+        // and submit_result ends the task after all of them
+        const calls = [...pendingTools].map(([id, tool]) => ({ id, ...tool }))
+        const submitCall = calls.find(call => call.name === 'submit_result')
+        const taskCalls = canNest ? calls.filter(call => call.name === 'task') : []
+        const toolResults = yield* executeSubagentTools(
+          calls.filter(call => call !== submitCall && !taskCalls.includes(call)), task, history, state.toolCallHistory,
+          toolDir, toolConfig.maxConcurrent, controller.signal, changes, tree.scratchpad, onToolApproval, checkpoint, role, toolContext
+        )
+
+        for (const call of taskCalls) {
+          if (controller.signal.aborted) break
+          const outcome = yield* this.runNestedTasks(call, subagents, {
+            depth: (state.depth ?? 1) + 1, slots: tree.slots, scratchpad: tree.scratchpad, usage: tree.usage, budget: tree.budget,
+            parentTaskId: task.id, cwd: toolDir
+          }, controller.signal, onToolApproval, checkpoint)
+          toolResults.push(outcome.result)
+        }
 
-          // Update history
-          const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === id)
-          if (historyTool) {
-            historyTool.status = 'error'
-            historyTool.error = errorMsg
+        if (submitCall && !controller.signal.aborted) {
+          const { report, outcome } = submitResult(task, submitCall, history)
+          yield { type: 'subagent_progress', taskId: task.id, event: outcome.event }
+          toolResults.push(outcome.result)
+          if (report) {
+            messages.push({ role: 'user', content: toolResults })
+            yield* this.complete(report, changes)
+            return
           }
         }
-      }
 
-      // Add tool results as user message
-      messages.push({ role: 'user', content: toolResults })
-    }
+        // Add tool results as user message
+        messages.push({ role: 'user', content: toolResults })
+        await this.save()
+      }
 
-    // If we hit max iterations without finishing, emit special event
-    if (iterations >= maxIterations && !finalOutput) {
+      // Out of iterations - the user can continue it with more
+      state.status = 'max_iterations'
+      await this.save()
       yield {
         type: 'subagent_max_iterations',
         taskId: task.id,
-        iterations: maxIterations,
+        iterations: state.iterations,
         fullHistory: history
       }
-      return
+    } catch (error) {
+      // Provider stream throws when aborted - report as an interruption, not an error
+      if (controller.signal.aborted) {
+        yield* this.finishInterrupted(textContent, timedOut ? timeout : undefined)
+        return
+      }
+      state.status = 'error'
+      state.error = error instanceof Error ? error.message : 'Unknown error'
+      await this.save()
+      yield {
+        type: 'subagent_error',
+        taskId: task.id,
+        error: state.error,
+        fullHistory: history
+      }
+    } finally {
+      clearTimeout(timer)
+      activeSubagents.delete(task.id)
+      closeInbox(task.id)
     }
+  }
 
-    yield {
-      type: 'subagent_complete',
-      taskId: task.id,
-      summary: finalOutput,
-      fullHistory: history
+  /**
+   * Run the subagents from one of this subagent's task calls
+   * Events of the nested subagents are wrapped in this subagent's progress events.
+   * Its slot is given back while it waits for them, so they can use it.
+   */
+  private async *runNestedTasks(
+    call: PendingToolCall,
+    config: SubagentConfig,
+    nesting: SubagentNesting,
+    signal: AbortSignal,
+    onToolApproval?: ToolApprovalCallback,
+    checkpoint?: CheckpointContext
+  ): AsyncGenerator<AgentEvent, ToolCallOutcome> {
+    const { state } = this
+    const taskId = state.task.id
+    yield { type: 'subagent_progress', taskId, event: { type: 'tool_running', id: call.id } }
+
+    let outcome: ToolCallOutcome
+    try {
+      const tasks = createSubagentTasks(call.input, config)
+      nesting.slots.release()
+      let result: ToolResult
+      try {
+        const batch = runTaskTool(tasks, this.workingDir, config, {
+          parentConfig: { provider: state.provider, model: state.model },
+          signal,
+          onToolApproval,
+          checkpoint,
+          nesting
+        })
+        let next = await batch.next()
+        while (!next.done) {
+          yield { type: 'subagent_progress', taskId, event: next.value }
+          next = await batch.next()
+        }
+        result = next.value
+      } finally {
+        await nesting.slots.take()
+      }
+      outcome = {
+        event: { type: 'tool_result', id: call.id, output: result.output, details: result.details },
+        result: { type: 'tool_result', tool_use_id: call.id, content: result.output }
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error'
+      outcome = {
+        event: { type: 'tool_result', id: call.id, output: '', error: errorMsg },
+        result: { type: 'tool_result', tool_use_id: call.id, content: `Error: ${errorMsg}`, is_error: true }
+      }
     }
-  } catch (error) {
-    yield {
-      type: 'subagent_error',
-      taskId: task.id,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      fullHistory: history
+
+    const historyTool = state.history[state.history.length - 1]?.toolCalls?.find(t => t.id === call.id)
+    if (historyTool) {
+      historyTool.status = outcome.event.error ? 'error' : 'done'
+      historyTool.output = outcome.event.output || undefined
+      historyTool.details = outcome.event.details
+      historyTool.error = outcome.event.error
+    }
+    yield { type: 'subagent_progress', taskId, event: outcome.event }
+    return outcome
+  }
+
+  /**
+   * Record the finished task and report it, with its changeset and worktree changes for review
+   */
+  private async *complete(report: SubagentReport, tracker: ChangeTracker): AsyncGenerator<AgentEvent> {
+    const { state } = this
+    const changes = await tracker.collect()
+    const worktree = state.worktree ? await collectWorktreeChanges(state.worktree) : undefined
+    state.status = 'completed'
+    state.summary = report.summary
+    state.report = report
+    state.changes = changes
+    await this.save()
+    yield { type: 'subagent_complete', taskId: state.task.id, summary: report.summary, report, changes, fullHistory: state.history, worktree }
+  }
+
+  /**
+   * Stop the background jobs this subagent started - nothing is left to read them once it stops
+   */
+  private async stopJobs(): Promise<void> {
+    for (const message of this.state.history) {
+      for (const tool of message.toolCalls ?? []) {
+        if (tool.name !== 'bash' || tool.details?.type !== 'job') continue
+        const { job } = tool.details.data as JobOutput
+        if (job.status !== 'running') continue
+        try {
+          await killJob(job.id, job.sessionId)
+        } catch {
+          // Already gone
+        }
+      }
+    }
+  }
+
+  /**
+   * Record a stop - by the user, by the timeout when `timeout` is given, or for `reason`
+   */
+  private async *finishInterrupted(partialText: string, timeout?: number, reason?: string): AsyncGenerator<AgentEvent> {
+    const { state } = this
+    markInterrupted(state.history, partialText)
+    state.status = timeout ? 'timeout' : 'interrupted'
+    await this.stopJobs()
+    await this.save()
+
+    if (timeout) {
+      yield { type: 'subagent_timeout', taskId: state.task.id, timeout, fullHistory: state.history }
+    } else {
+      yield { type: 'subagent_interrupted', taskId: state.task.id, fullHistory: state.history, reason }
     }
   }
 }
 
-export interface ContinueSubagentOptions {
-  task: SubagentTask
-  workingDir: string
-  config: SubagentConfig
-  existingHistory: Message[]
-  parentConfig?: ParentConfig
+/**
+ * Run a single subagent to completion
+ * Yields progress events and returns the final result
+ */
+export async function* runSubagent(
+  options: SubagentOptions
+): AsyncGenerator<AgentEvent> {
+  const { task, workingDir, config, parentConfig, signal, onToolApproval, checkpoint, nesting } = options
+  const runtime = SubagentRuntime.create(task, workingDir, config, parentConfig, checkpoint, nesting)
+  yield* runtime.run(nesting, signal, onToolApproval, config.timeout)
 }
 
 /**
- * Continue a subagent that hit max iterations
- * Resumes from existing history with fresh iteration count
+ * Continue a saved subagent that ran out of iterations, was stopped, timed out or failed
+ * Uses the provider, model and history it had, with a fresh iteration budget
  */
 export async function* continueSubagent(
   options: ContinueSubagentOptions
 ): AsyncGenerator<AgentEvent> {
-  const { task, workingDir, config, existingHistory, parentConfig } = options
+  const { taskId, workingDir, iterations, signal, onToolApproval, usage = new UsageLedger(), budget, scratchpad = new Scratchpad() } = options
 
-  // Get role config (with user overrides)
-  const roleConfig = config.roles[task.role]
-  const providerName = task.provider || parentConfig?.provider || roleConfig.provider
-  const model = task.model || parentConfig?.model || roleConfig.model
-  const maxIterations = roleConfig.maxIterations
+  const runtime = await loadIdleSubagent(workingDir, taskId)
+  const { subagents } = await loadFullConfig(workingDir)
+  runtime.extend(iterations ?? subagents.roles[runtime.state.task.role]?.maxIterations ?? DEFAULT_ROLE_CONFIG.maxIterations)
 
-  // Build system prompt
-  const projectInstructions = await loadProjectInstructions(workingDir)
-  const systemPrompt = projectInstructions
-    ? `${SUBAGENT_SYSTEM_PROMPT}\n\n<project_instructions>\n${projectInstructions}\n</project_instructions>`
-    : SUBAGENT_SYSTEM_PROMPT
+  // A continued subagent starts a tree of its own
+  const slots = new SubagentSlots(subagents.maxConcurrent)
+  slots.tryTake()
+  yield* runtime.run({ slots, scratchpad, usage, budget }, signal, onToolApproval, subagents.timeout)
+}
 
-  yield { type: 'subagent_start', taskId: task.id, description: task.description, role: task.role }
+/**
+ * Load a subagent that isn't running, for changes to its worktree
+ */
+async function loadIdleSubagent(workingDir: string, taskId: string): Promise<SubagentRuntime> {
+  const runtime = await SubagentRuntime.load(workingDir, taskId)
+  if (!runtime) {
+    throw new Error(`No saved subagent ${taskId}`)
+  }
+  if (activeSubagents.has(taskId)) {
+    throw new Error(`Subagent ${taskId} is still running`)
+  }
+  return runtime
+}
 
-  // Get the LLM provider
-  const provider = getProvider({
-    provider: providerName as ProviderName,
-    model: model
-  })
+/**
+ * Get the changes in a subagent's worktree, or null if it has none
+ */
+export async function getSubagentWorktree(workingDir: string, taskId: string): Promise<WorktreeChanges | null> {
+  const runtime = await SubagentRuntime.load(workingDir, taskId)
+  const worktree = runtime?.state.worktree
+  return worktree ? collectWorktreeChanges(worktree) : null
+}
 
-  // Convert existing history to ChatMessage format
-  const messages: ChatMessage[] = []
-  for (const msg of existingHistory) {
-    if (msg.role === 'user') {
-      messages.push({ role: 'user', content: msg.content })
-    } else if (msg.role === 'assistant') {
-      const content: ContentBlock[] = []
-      if (msg.content) {
-        content.push({ type: 'text', text: msg.content })
-      }
-      if (msg.toolCalls) {
-        for (const tool of msg.toolCalls) {
-          content.push({
-            type: 'tool_use',
-            id: tool.id,
-            name: tool.name,
-            input: tool.input
-          })
-        }
-      }
-      messages.push({ role: 'assistant', content })
-
-      // Add tool results as user message if tools were called
-      if (msg.toolCalls?.length) {
-        const toolResults: ContentBlock[] = msg.toolCalls.map(tool => ({
-          type: 'tool_result' as const,
-          tool_use_id: tool.id,
-          content: tool.output || '',
-          is_error: tool.status === 'error'
-        }))
-        messages.push({ role: 'user', content: toolResults })
-      }
-    }
+/**
+ * Merge a subagent's worktree changes into the working directory
+ * With `files`, only those files are merged and the worktree is kept for the rest;
+ * merging everything removes the worktree. Returns the merged paths.
+ */
+export async function mergeSubagentWorktree(workingDir: string, taskId: string, files?: string[]): Promise<string[]> {
+  const runtime = await loadIdleSubagent(workingDir, taskId)
+  const { worktree } = runtime.state
+  if (!worktree) {
+    throw new Error(`Subagent ${taskId} has no worktree`)
   }
 
-  // Add a continuation prompt
-  messages.push({
-    role: 'user',
-    content: 'Continue working on the task. You have more iterations available now.'
-  })
+  const merged = await mergeWorktree(workingDir, worktree, files)
+  if (!files || files.length === 0) {
+    await removeWorktree(workingDir, worktree)
+    runtime.state.worktree = undefined
+  } else {
+    worktree.merged = [...(worktree.merged ?? []), ...merged]
+  }
+  await runtime.save()
+  return merged
+}
 
-  // Track history for UI expandable view (start from existing)
-  const history: Message[] = [...existingHistory, { role: 'user', content: 'Continue working on the task. You have more iterations available now.' }]
+/**
+ * Throw away a subagent's worktree and branch
+ */
+export async function discardSubagentWorktree(workingDir: string, taskId: string): Promise<void> {
+  const runtime = await loadIdleSubagent(workingDir, taskId)
+  if (!runtime.state.worktree) return
 
-  const toolCallHistory: ToolCallTracker[] = []
-  let iterations = 0
-  let finalOutput = ''
+  await removeWorktree(workingDir, runtime.state.worktree)
+  runtime.state.worktree = undefined
+  await runtime.save()
+}
 
-  try {
-    while (iterations < maxIterations) {
-      iterations++
-
-      // Track tool calls from this iteration
-      const pendingTools: Map<string, { name: string; input: Record<string, unknown> }> = new Map()
-      let textContent = ''
-
-      // Stream from provider (includes MCP tools)
-      const continueTools = getSubagentToolDefinitions()
-      for await (const event of provider.stream(messages, systemPrompt, continueTools)) {
-        switch (event.type) {
-          case 'text_delta':
-            textContent += event.delta
-            yield { type: 'subagent_progress', taskId: task.id, event: { type: 'text_delta', delta: event.delta }, timestamp: Date.now() }
-            break
-
-          case 'tool_start':
-            yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_start', id: event.id, name: event.name }, timestamp: Date.now() }
-            pendingTools.set(event.id, { name: event.name, input: {} })
-            break
-
-          case 'tool_input_delta':
-            yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_input_delta', id: event.id, partialJson: event.partialJson }, timestamp: Date.now() }
-            break
-
-          case 'tool_complete':
-            const tool = pendingTools.get(event.id)
-            if (tool) {
-              tool.input = event.input
-            }
-            break
-        }
-      }
+/**
+ * Load the saved state of a subagent, e.g. to show it after a server restart
+ */
+export async function loadSubagentState(workingDir: string, taskId: string): Promise<SubagentState | null> {
+  const runtime = await SubagentRuntime.load(workingDir, taskId)
+  return runtime?.state ?? null
+}
 
-      // Track assistant message in history
-      if (textContent || pendingTools.size > 0) {
-        const toolCalls: ToolCall[] = []
-        for (const [id, tool] of pendingTools) {
-          toolCalls.push({
-            id,
-            name: tool.name,
-            input: tool.input,
-            status: 'pending'
-          })
-        }
-        history.push({
-          role: 'assistant',
-          content: textContent,
-          toolCalls: toolCalls.length > 0 ? toolCalls : undefined
-        })
-      }
+/**
+ * Order tasks so each one comes after the tasks it depends on
+ * Throws for dependencies on tasks that aren't in the list, and for cycles
+ */
+export function sortTaskGraph(tasks: SubagentTask[]): SubagentTask[] {
+  const byId = new Map(tasks.map(task => [task.id, task]))
+  const visited: Map<string, 'visiting' | 'done'> = new Map()
+  const sorted: SubagentTask[] = []
+
+  const visit = (task: SubagentTask, path: SubagentTask[]) => {
+    const mark = visited.get(task.id)
+    if (mark === 'done') return
+    if (mark === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(task)), task]
+      throw new Error(`Task dependencies form a cycle: ${cycle.map(t => `"${t.description}"`).join(' -> ')}`)
+    }
 
-      // If no tools were called, we're done
-      if (pendingTools.size === 0) {
-        finalOutput = textContent
-        break
+    visited.set(task.id, 'visiting')
+    for (const id of task.dependsOn ?? []) {
+      const dependency = byId.get(id)
+      if (!dependency) {
+        throw new Error(`Task "${task.description}" depends on unknown task "${id}"`)
       }
+      visit(dependency, [...path, task])
+    }
+    visited.set(task.id, 'done')
+    sorted.push(task)
+  }
 
-      // Build assistant message with tool uses
-      const assistantContent: ContentBlock[] = []
-      if (textContent) {
-        assistantContent.push({ type: 'text', text: textContent })
-      }
-      for (const [id, tool] of pendingTools) {
-        assistantContent.push({
-          type: 'tool_use',
-          id,
-          name: tool.name,
-          input: tool.input
-        })
-      }
-      messages.push({ role: 'assistant', content: assistantContent })
+  tasks.forEach(task => visit(task, []))
+  return sorted
+}
 
-      // Execute tools and collect results
-      const toolResults: ContentBlock[] = []
+/**
+ * Add the results of a task's completed dependencies to its context
+ */
+function withDependencyResults(task: SubagentTask, tasks: SubagentTask[], results: Map<string, string>): SubagentTask {
+  if (!task.dependsOn?.length) return task
 
-      for (const [id, tool] of pendingTools) {
-        // Check for doom loop
-        if (checkDoomLoop(toolCallHistory, tool.name, tool.input)) {
-          const errorEvent: AgentEvent = {
-            type: 'tool_result',
-            id,
-            output: '',
-            error: `Doom loop detected: ${tool.name} called ${DOOM_LOOP_THRESHOLD}+ times with identical arguments.`
-          }
-          yield { type: 'subagent_progress', taskId: task.id, event: errorEvent, timestamp: Date.now() }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: `Error: Detected repeated identical calls to ${tool.name}. Please try a different approach.`,
-            is_error: true
-          })
+  const sections = task.dependsOn.map(id => {
+    const dependency = tasks.find(t => t.id === id)
+    return `### ${dependency?.description ?? id}\n\n${results.get(id) ?? '(no result)'}`
+  })
+  const dependencyContext = `Results of the tasks this one depends on:\n\n${sections.join('\n\n')}`
 
-          // Update history
-          const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === id)
-          if (historyTool) {
-            historyTool.status = 'error'
-            historyTool.error = 'Doom loop detected'
-          }
-          continue
-        }
+  return { ...task, context: task.context ? `${task.context}\n\n${dependencyContext}` : dependencyContext }
+}
 
-        yield { type: 'subagent_progress', taskId: task.id, event: { type: 'tool_running', id }, timestamp: Date.now() }
+/**
+ * Slots for running subagents, shared by everything in one subagent tree
+ * A subagent that waits for its own subagents gives its slot back meanwhile,
+ * so at most `limit` subagents are working at any time
+ */
+export class SubagentSlots {
+  private used = 0
+  private listeners: Set<() => void> = new Set()
 
-        try {
-          const result = await executeTool(tool.name, tool.input, workingDir)
-          const resultEvent: AgentEvent = {
-            type: 'tool_result',
-            id,
-            output: result.output,
-            details: result.details
-          }
-          yield { type: 'subagent_progress', taskId: task.id, event: resultEvent, timestamp: Date.now() }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: result.output
-          })
+  constructor(readonly limit: number) {}
 
-          // Update history
-          const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === id)
-          if (historyTool) {
-            historyTool.status = 'done'
-            historyTool.output = result.output
-            historyTool.details = result.details
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error'
-          const errorEvent: AgentEvent = {
-            type: 'tool_result',
-            id,
-            output: '',
-            error: errorMsg
-          }
-          yield { type: 'subagent_progress', taskId: task.id, event: errorEvent, timestamp: Date.now() }
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: id,
-            content: `Error: ${errorMsg}`,
-            is_error: true
-          })
+  tryTake(): boolean {
+    if (this.used >= Math.max(1, this.limit)) return false
+    this.used++
+    return true
+  }
 
-          // Update history
-          const historyTool = history[history.length - 1]?.toolCalls?.find(t => t.id === id)
-          if (historyTool) {
-            historyTool.status = 'error'
-            historyTool.error = errorMsg
-          }
+  /**
+   * Wait for a free slot and take it
+   */
+  take(): Promise<void> {
+    if (this.tryTake()) return Promise.resolve()
+    return new Promise(resolve => {
+      const listener = () => {
+        if (this.tryTake()) {
+          this.listeners.delete(listener)
+          resolve()
         }
       }
+      this.listeners.add(listener)
+    })
+  }
 
-      // Add tool results as user message
-      messages.push({ role: 'user', content: toolResults })
-    }
-
-    // If we hit max iterations without finishing, emit special event
-    if (iterations >= maxIterations && !finalOutput) {
-      yield {
-        type: 'subagent_max_iterations',
-        taskId: task.id,
-        iterations: maxIterations,
-        fullHistory: history
-      }
-      return
+  release(): void {
+    this.used--
+    for (const listener of [...this.listeners]) {
+      listener()
     }
+  }
 
-    yield {
-      type: 'subagent_complete',
-      taskId: task.id,
-      summary: finalOutput,
-      fullHistory: history
-    }
-  } catch (error) {
-    yield {
-      type: 'subagent_error',
-      taskId: task.id,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      fullHistory: history
-    }
+  /**
+   * Call `listener` whenever a slot is released, until the returned function is called
+   */
+  onRelease(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
   }
 }
 
 /**
- * Run multiple subagents in parallel
+ * Tell a task about the other tasks in its batch, so it can message them
+ */
+function withSiblings(task: SubagentTask, tasks: SubagentTask[]): SubagentTask {
+  const siblings = tasks.filter(t => t.id !== task.id)
+  if (siblings.length === 0) return task
+
+  const siblingContext = `Other subagents working alongside you (reach them with message_subagent):\n${siblings.map(t => `- ${t.id}: ${t.description}`).join('\n')}`
+  return { ...task, context: task.context ? `${task.context}\n\n${siblingContext}` : siblingContext }
+}
+
+/**
+ * Run multiple subagents within the tree's concurrency budget (`config.maxConcurrent`)
+ * Tasks start once the tasks they depend on have completed, in topological order;
+ * if a dependency doesn't complete or reports failure, the tasks depending on it are skipped.
+ * Tasks that can't start right away are queued.
+ * Without `nesting`, the tasks are the main agent's and start a new tree.
+ * Entries written to the tree's scratchpad are yielded by the top-level batch.
  * Merges their event streams and yields events as they arrive (true streaming)
  */
 export async function* runSubagentsParallel(
   tasks: SubagentTask[],
   workingDir: string,
   config: SubagentConfig,
-  parentConfig?: ParentConfig
+  parentConfig?: ParentConfig,
+  signal?: AbortSignal,
+  onToolApproval?: ToolApprovalCallback,
+  checkpoint?: CheckpointContext,
+  nesting: SubagentNesting = {
+    depth: 1,
+    slots: new SubagentSlots(config.maxConcurrent),
+    scratchpad: new Scratchpad(),
+    usage: new UsageLedger()
+  }
 ): AsyncGenerator<AgentEvent> {
-  // Create a queue to collect events from all generators
+  // Create a queue to collect events from all subagents
   const eventQueue: AgentEvent[] = []
   let resolveWaiting: (() => void) | null = null
   let allDone = false
 
-  // Create generators for each subagent
-  const generators = tasks.map(task =>
-    runSubagent({ task, workingDir, config, parentConfig })
-  )
+  const push = (event: AgentEvent) => {
+    eventQueue.push(event)
+    // Wake up the consumer if it's waiting
+    if (resolveWaiting) {
+      resolveWaiting()
+      resolveWaiting = null
+    }
+  }
+
+  const { slots } = nesting
+  const pending = sortTaskGraph(tasks)
+  const results: Map<string, string> = new Map()  // Rendered reports of tasks that succeeded
+  const failed: Set<string> = new Set()           // Tasks that failed, ended without completing, or never ran
+  let running = 0
+  let stopListening = () => {}
 
-  // Start all generators concurrently, pushing events to queue
-  const runGenerator = async (gen: AsyncGenerator<AgentEvent>) => {
+  const take = (task: SubagentTask) => {
+    pending.splice(pending.indexOf(task), 1)
+    queuedSubagents.delete(task.id)
+  }
+
+  // A task that will never run
+  const drop = (task: SubagentTask) => {
+    take(task)
+    failed.add(task.id)
+    closeInbox(task.id)
+  }
+
+  const run = async (task: SubagentTask) => {
+    running++
     try {
-      for await (const event of gen) {
-        eventQueue.push(event)
-        // Wake up the consumer if it's waiting
-        if (resolveWaiting) {
-          resolveWaiting()
-          resolveWaiting = null
+      const withResults = withSiblings(withDependencyResults(task, tasks, results), tasks)
+      for await (const event of runSubagent({ task: withResults, workingDir, config, parentConfig, signal, onToolApproval, checkpoint, nesting })) {
+        if (event.type === 'subagent_complete' && event.report.status !== 'failed') {
+          results.set(task.id, formatSubagentReport(event.report, event.changes))
         }
+        push(event)
       }
     } catch (error) {
-      // Generator threw an error - this shouldn't happen since runSubagent catches errors
+      // Shouldn't happen since the runtime catches errors
       console.error('Subagent generator error:', error)
     }
+    if (!results.has(task.id)) {
+      failed.add(task.id)
+    }
+    running--
+    // Wakes this batch's scheduler and any other waiting for a slot
+    slots.release()
   }
 
-  // Start all generators
-  const generatorPromises = generators.map(runGenerator)
+  // Start every task whose dependencies have completed, while slots are free
+  // Pending tasks are in topological order, so skipped tasks cascade in one pass
+  const schedule = () => {
+    for (const task of [...pending]) {
+      const failedDependency = task.dependsOn?.find(id => failed.has(id))
+
+      if (signal?.aborted) {
+        // Stopped before it got a slot
+        drop(task)
+        push({ type: 'subagent_interrupted', taskId: task.id, fullHistory: [] })
+      } else if (failedDependency) {
+        drop(task)
+        const dependency = tasks.find(t => t.id === failedDependency)
+        push({ type: 'subagent_error', taskId: task.id, error: `Skipped: "${dependency?.description}" did not finish successfully`, fullHistory: [] })
+      } else if ((task.dependsOn ?? []).every(id => results.has(id)) && slots.tryTake()) {
+        take(task)
+        run(task)
+      }
+    }
 
-  // Mark as done when all generators complete
-  Promise.all(generatorPromises).then(() => {
-    allDone = true
-    if (resolveWaiting) {
-      resolveWaiting()
-      resolveWaiting = null
+    if (running === 0 && pending.length === 0) {
+      stopListening()
+      allDone = true
+      if (resolveWaiting) {
+        resolveWaiting()
+        resolveWaiting = null
+      }
     }
+  }
+
+  const stopSlots = slots.onRelease(schedule)
+  const stopEntries = nesting.parentTaskId
+    ? () => {}
+    : nesting.scratchpad.onAppend(entry => push({ type: 'scratchpad_entry', entry }))
+  stopListening = () => {
+    stopSlots()
+    stopEntries()
+  }
+  schedule()
+
+  // Tasks that didn't get a slot or are waiting for dependencies are queued
+  pending.forEach((task, i) => {
+    openInbox(task.id)
+    queuedSubagents.set(task.id, () => {
+      if (!pending.includes(task)) return
+      drop(task)
+      push({ type: 'subagent_interrupted', taskId: task.id, fullHistory: [] })
+      schedule()
+    })
+    push({ type: 'subagent_queued', taskId: task.id, description: task.description, role: task.role, position: i + 1, dependsOn: task.dependsOn })
   })
 
   // Yield events as they arrive
@@ -612,7 +1163,7 @@ export async function* runSubagentsParallel(
       yield eventQueue.shift()!
     }
 
-    // If all generators are done and queue is empty, we're finished
+    // If all workers are done and queue is empty, we're finished
     if (allDone && eventQueue.length === 0) {
       break
     }
@@ -623,3 +1174,124 @@ export async function* runSubagentsParallel(
     })
   }
 }
+
+interface TaskToolInput {
+  tasks: Array<{
+    id?: string
+    description: string
+    role: string
+    context?: string
+    isolation?: SubagentIsolation
+    dependsOn?: string[]
+    outputSchema?: Record<string, unknown>
+  }>
+}
+
+/**
+ * Turn the task tool's input into subagent tasks with unique IDs
+ * dependsOn refers to the IDs the model gave the tasks.
+ * Throws for roles that aren't configured and broken dependencies, so the model can fix the call
+ */
+export function createSubagentTasks(input: Record<string, unknown>, config: SubagentConfig): SubagentTask[] {
+  const taskInput = input as unknown as TaskToolInput
+  // Two task calls in the same millisecond still get different IDs
+  const batchId = `${Date.now()}_${randomUUID().slice(0, 8)}`
+  const givenIds = taskInput.tasks.map((t, i) => t.id ?? `task${i + 1}`)
+  const duplicates = [...new Set(givenIds.filter((id, i) => givenIds.indexOf(id) !== i))]
+  if (duplicates.length > 0) {
+    throw new Error(`Task IDs must be unique - used more than once: ${duplicates.map(id => `"${id}"`).join(', ')}`)
+  }
+  const taskIds = new Map(givenIds.map((id, i) => [id, `subagent_${batchId}_${i}`]))
+  const tasks: SubagentTask[] = taskInput.tasks.map((t, i) => ({
+    id: `subagent_${batchId}_${i}`,
+    description: t.description,
+    role: t.role,
+    context: t.context,
+    isolation: t.isolation,
+    dependsOn: t.dependsOn?.length ? t.dependsOn.map(dep => taskIds.get(dep) ?? dep) : undefined,
+    outputSchema: t.outputSchema
+  }))
+
+  tasks.forEach(t => getRoleConfig(config, t.role))
+  sortTaskGraph(tasks)
+  return tasks
+}
+
+export interface TaskToolOptions {
+  parentConfig?: ParentConfig
+  signal?: AbortSignal
+  onToolApproval?: ToolApprovalCallback
+  checkpoint?: CheckpointContext
+  nesting?: SubagentNesting  // For tasks started by a subagent
+  scratchpad?: Scratchpad    // For tasks started by the main agent - shared by its task calls in a turn
+  usage?: UsageLedger        // For tasks started by the main agent - the turn's ledger
+  budget?: BudgetGuard       // For tasks started by the main agent - the turn's budgets
+}
+
+/**
+ * Run the tasks of a task call and collect their results
+ * Yields the subagents' events; returns the compact results for the calling agent
+ * and the full reports and histories for the UI
+ */
+export async function* runTaskTool(
+  tasks: SubagentTask[],
+  workingDir: string,
+  config: SubagentConfig,
+  options: TaskToolOptions = {}
+): AsyncGenerator<AgentEvent, ToolResult> {
+  const { parentConfig, signal, onToolApproval, checkpoint } = options
+  const nesting: SubagentNesting = options.nesting ?? {
+    depth: 1,
+    slots: new SubagentSlots(config.maxConcurrent),
+    scratchpad: options.scratchpad ?? new Scratchpad(),
+    usage: options.usage ?? new UsageLedger(),
+    budget: options.budget
+  }
+  const firstEntry = nesting.scratchpad.entries.length
+  const summaries: Map<string, string> = new Map()
+  const results: Array<{ taskId: string; summary: string; report?: SubagentReport; changes?: SubagentFileChange[]; fullHistory: Message[] }> = []
+
+  for await (const event of runSubagentsParallel(tasks, workingDir, config, parentConfig, signal, onToolApproval, checkpoint, nesting)) {
+    yield event
+
+    if (event.type === 'subagent_complete') {
+      // Worktree changes haven't reached the working directory yet
+      const files = event.worktree?.files ?? []
+      const rendered = formatSubagentReport(event.report, event.changes)
+      summaries.set(event.taskId, files.length > 0
+        ? `${rendered}\n\n(Changes to ${files.map(f => f.path).join(', ')} are on branch ${event.worktree!.branch}, waiting for the user to review and merge them.)`
+        : rendered)
+      results.push({
+        taskId: event.taskId,
+        summary: event.summary,
+        report: event.report,
+        changes: event.changes,
+        fullHistory: event.fullHistory
+      })
+    } else if (event.type === 'subagent_error') {
+      summaries.set(event.taskId, `Error: ${event.error}`)
+      results.push({ taskId: event.taskId, summary: `Error: ${event.error}`, fullHistory: event.fullHistory })
+    } else if (event.type === 'subagent_interrupted') {
+      const summary = event.reason ? `${event.reason}. Stopped before completing.` : 'Stopped by user before completing.'
+      summaries.set(event.taskId, summary)
+      results.push({ taskId: event.taskId, summary, fullHistory: event.fullHistory })
+    } else if (event.type === 'subagent_timeout') {
+      const summary = `Timed out after ${event.timeout}s before completing.`
+      summaries.set(event.taskId, summary)
+      results.push({ taskId: event.taskId, summary, fullHistory: event.fullHistory })
+    }
+  }
+
+  // Compact results for the calling agent (lean context - the full reports and history go to the UI)
+  let output = tasks.map((task, i) =>
+    `## Task ${i + 1} (${task.id}): ${task.description}\n${summaries.get(task.id) || '(no result)'}`
+  ).join('\n\n')
+
+  // What the subagents wrote to the scratchpad during this call
+  const scratchpad = nesting.scratchpad.entries.slice(firstEntry)
+  if (scratchpad.length > 0) {
+    output += `\n\n## Scratchpad\n${summarizeScratchpad(scratchpad)}`
+  }
+
+  return { output, details: { type: 'subagent', data: { tasks, results, scratchpad } } }
+}
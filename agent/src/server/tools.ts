@@ -1,8 +1,14 @@
 import { spawn } from 'child_process'
-import { readFile, writeFile, mkdir, stat, readdir } from 'fs/promises'
-import { dirname, join, isAbsolute } from 'path'
-import type { ToolResult } from './types'
-import { isMCPTool, executeMCPTool } from './mcp/tools'
+import { readFile, writeFile, mkdir, stat, readdir, unlink } from 'fs/promises'
+import { dirname, join, isAbsolute, relative } from 'path'
+import type { DirectoryTree, JobOutput, JobSummary, SearchMatch, SearchResults, SubagentFileChange, ToolResult, TreeEntry } from './types'
+import { isMCPTool, isReadOnlyMCPTool, executeMCPTool } from './mcp/tools'
+import { createGlobMatcher, listFiles, readTree } from './search'
+import { applyHunks, parsePatch, type HunkPlacement } from './patch'
+import { diffContent } from './changes'
+import { describeEditMiss, describeMatch, findEditMatch, fitLineEndings, readTextFile, writeTextFile, type TextEncoding } from './editing'
+import { hasShellSubstitution, splitShellCommand } from './permissions'
+import { getShellCwd, getShellEnvironment, killJob, listJobs, readNewJobOutput, runInShell, startJob, waitForJob, writeJobInput } from './shells'
 
 // Tool definitions are now in providers/index.ts for provider-agnostic format
 
@@ -64,7 +70,7 @@ async function readFileTool(
     if (pathStat.isDirectory()) {
       const entries = await readdir(filePath)
       return {
-        output: `Error: ${input.path} is a directory. Contents: ${entries.slice(0, 20).join(', ')}${entries.length > 20 ? '...' : ''}`,
+        output: `Error: ${input.path} is a directory - use list_directory to see it. Contents: ${entries.slice(0, 20).join(', ')}${entries.length > 20 ? '...' : ''}`,
         details: { type: 'error', data: { isDirectory: true, entries } }
       }
     }
@@ -160,64 +166,115 @@ async function editFileTool(
 ): Promise<ToolResult> {
   const filePath = resolvePath(input.path, workingDir)
 
-  try {
-    const content = await readFile(filePath, 'utf-8')
-
-    // Check if oldText exists
-    if (!content.includes(input.oldText)) {
-      // Try to find similar lines to help
-      const oldLines = input.oldText.split('\n')
-      const contentLines = content.split('\n')
-      const firstOldLine = oldLines[0]?.trim() ?? ''
-
-      const similar: string[] = []
-      contentLines.forEach((line, i) => {
-        if (line.includes(firstOldLine.slice(0, 20)) ||
-            firstOldLine.includes(line.trim().slice(0, 20))) {
-          similar.push(`Line ${i + 1}: ${line.slice(0, 100)}`)
-        }
-      })
+  if (typeof input.oldText !== 'string' || !input.oldText || typeof input.newText !== 'string') {
+    return {
+      output: 'Error: oldText and newText are required',
+      details: { type: 'error', data: { invalidEdit: true } }
+    }
+  }
 
-      const hint = similar.length > 0
-        ? `\nSimilar lines found:\n${similar.slice(0, 5).join('\n')}`
-        : '\nNo similar lines found. The text may not exist in this file.'
+  try {
+    const { content, encoding } = await readTextFile(filePath)
 
+    const match = findEditMatch(content, input.oldText, input.newText)
+    if (!match.found) {
       return {
-        output: `Error: oldText not found in ${input.path}.${hint}`,
+        output: `Error: ${describeEditMiss(match, input.path)}`,
         details: {
           type: 'error',
-          data: { notFound: true, similarLines: similar.slice(0, 5) }
+          data: match.ambiguous
+            ? { multipleMatches: match.lines.length, strategy: match.strategy, lines: match.lines }
+            : { notFound: true, closest: match.closest }
         }
       }
     }
 
-    // Check for multiple matches
-    const matchCount = content.split(input.oldText).length - 1
-    if (matchCount > 1) {
-      return {
-        output: `Error: oldText found ${matchCount} times in ${input.path}. Please provide more context to make the match unique.`,
-        details: { type: 'error', data: { multipleMatches: matchCount } }
-      }
-    }
-
-    // Perform replacement
-    const newContent = content.replace(input.oldText, input.newText)
-    await writeFile(filePath, newContent, 'utf-8')
-
-    // Calculate line numbers for the change
-    const beforeLines = content.slice(0, content.indexOf(input.oldText)).split('\n')
-    const startLine = beforeLines.length
+    // Perform replacement - line endings and encoding stay as they were
+    const newContent = content.slice(0, match.start) + match.replacement + content.slice(match.end)
+    await writeTextFile(filePath, newContent, encoding)
 
+    const how = describeMatch(match.strategy, match.similarity)
     return {
-      output: `Edited ${input.path} at line ${startLine}`,
+      output: `Edited ${input.path} at line ${match.line}${how ? ` (${how})` : ''}`,
       details: {
         type: 'diff',
         data: {
           path: input.path,
-          before: input.oldText,
-          after: input.newText,
-          startLine
+          before: content.slice(match.start, match.end),
+          after: match.replacement,
+          startLine: match.line,
+          strategy: match.strategy,
+          similarity: match.similarity
+        }
+      }
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      output: `Error editing ${input.path}: ${msg}`,
+      details: { type: 'error', data: { error: msg } }
+    }
+  }
+}
+
+interface MultiEditInput {
+  path: string
+  edits: { oldText: string; newText: string; replaceAll?: boolean }[]
+}
+
+async function multiEditTool(input: MultiEditInput, workingDir: string): Promise<ToolResult> {
+  const filePath = resolvePath(input.path, workingDir)
+  if (!Array.isArray(input.edits) || input.edits.length === 0) {
+    return {
+      output: 'Error: edits must list at least one { oldText, newText } replacement',
+      details: { type: 'error', data: { missing: 'edits' } }
+    }
+  }
+
+  try {
+    const { content: original, encoding } = await readTextFile(filePath)
+
+    // Apply the edits in memory, each to the result of the ones before it - one failure and nothing is written
+    let content = original
+    const notes: string[] = []
+    for (const [i, edit] of input.edits.entries()) {
+      const failed = (reason: string, data: Record<string, unknown>): ToolResult => ({
+        output: `Error: edit ${i + 1} of ${input.edits.length} failed: ${reason}\nNothing was written to ${input.path}.`,
+        details: { type: 'error', data: { editIndex: i, ...data } }
+      })
+
+      if (typeof edit.oldText !== 'string' || typeof edit.newText !== 'string' || !edit.oldText) {
+        return failed('oldText and newText are required', { invalidEdit: true })
+      }
+
+      // replaceAll only takes exact matches
+      if (edit.replaceAll) {
+        if (!content.includes(edit.oldText)) {
+          return failed(`oldText not found in ${input.path}${i > 0 ? ' (after the edits before it)' : ''}`, { notFound: true })
         }
+        content = content.split(edit.oldText).join(fitLineEndings(content, edit.newText))
+        continue
+      }
+
+      const match = findEditMatch(content, edit.oldText, edit.newText)
+      if (!match.found) {
+        const reason = describeEditMiss(match, i > 0 ? `${input.path} (after the edits before it)` : input.path)
+        return failed(reason, match.ambiguous
+          ? { multipleMatches: match.lines.length, strategy: match.strategy, lines: match.lines }
+          : { notFound: true, closest: match.closest })
+      }
+      const how = describeMatch(match.strategy, match.similarity)
+      if (how) notes.push(`edit ${i + 1}: ${how}`)
+      content = content.slice(0, match.start) + match.replacement + content.slice(match.end)
+    }
+
+    await writeTextFile(filePath, content, encoding)
+
+    return {
+      output: `Applied ${input.edits.length} edit${input.edits.length === 1 ? '' : 's'} to ${input.path}${notes.length > 0 ? `\n${notes.join('\n')}` : ''}`,
+      details: {
+        type: 'patch',
+        data: { files: [{ path: input.path, status: 'modified', diff: await diffContent(input.path, original, content) }] }
       }
     }
   } catch (error) {
@@ -229,12 +286,238 @@ async function editFileTool(
   }
 }
 
+// Lines of a file without its line endings - CRLF files are patched line by line too
+function splitLines(content: string): string[] {
+  const lines = content.split(/\r?\n/)
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+function joinLines(lines: string[], eol: string, finalNewline: boolean): string {
+  if (lines.length === 0) return ''
+  return lines.join(eol) + (finalNewline ? eol : '')
+}
+
+// How hunks that didn't apply cleanly were placed, e.g. "hunk 2: 3 lines below its header's position"
+function describePlacements(placements: HunkPlacement[]): string[] {
+  return placements.flatMap((placement, i) => {
+    const notes: string[] = []
+    if (placement.moved !== 0) {
+      const lines = Math.abs(placement.moved)
+      notes.push(`${lines} line${lines === 1 ? '' : 's'} ${placement.moved > 0 ? 'below' : 'above'} its header's position`)
+    }
+    if (placement.fuzz > 0) notes.push(`with ${placement.fuzz} context line${placement.fuzz === 1 ? '' : 's'} dropped`)
+    if (placement.loose) notes.push('ignoring whitespace')
+    return notes.length > 0 ? [`hunk ${i + 1}: ${notes.join(', ')}`] : []
+  })
+}
+
+async function applyPatchTool(input: { patch: string }, workingDir: string): Promise<ToolResult> {
+  const failed = (message: string, data: Record<string, unknown>): ToolResult => ({
+    output: `Error: ${message}\nNothing was written.`,
+    details: { type: 'error', data }
+  })
+
+  let filePatches
+  try {
+    filePatches = parsePatch(typeof input.patch === 'string' ? input.patch : '')
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error'
+    return failed(msg, { invalidPatch: true })
+  }
+
+  // Work out the new content of every file before writing any of them
+  // A file the patch touches twice sees the result of the first change
+  const originals: Map<string, string | null> = new Map()
+  const contents: Map<string, string | null> = new Map()
+  // Files are written back with the encoding and BOM they were read with - a renamed file keeps its own
+  const encodings: Map<string, TextEncoding> = new Map()
+  const current = async (path: string): Promise<string | null> => {
+    if (!contents.has(path)) {
+      const file = await readTextFile(resolvePath(path, workingDir)).catch(() => null)
+      originals.set(path, file?.content ?? null)
+      contents.set(path, file?.content ?? null)
+      if (file) encodings.set(path, file.encoding)
+    }
+    return contents.get(path)!
+  }
+
+  const summary: string[] = []
+  for (const file of filePatches) {
+    const path = file.newPath ?? file.oldPath!
+    const before = file.oldPath ? await current(file.oldPath) : null
+    if (file.oldPath && before === null) {
+      return failed(`${file.oldPath} does not exist`, { notFound: file.oldPath })
+    }
+    if (file.newPath && file.newPath !== file.oldPath && await current(file.newPath) !== null) {
+      return failed(`${file.newPath} already exists - the patch ${file.oldPath ? 'renames a file to it' : 'creates it'}`, { exists: file.newPath })
+    }
+
+    let lines: string[]
+    let placements: HunkPlacement[]
+    try {
+      ({ lines, placements } = applyHunks(before === null ? [] : splitLines(before), file.hunks, path))
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error'
+      return failed(msg, { path, hunkFailed: true })
+    }
+
+    if (file.oldPath && file.oldPath !== file.newPath) {
+      contents.set(file.oldPath, null)
+    }
+    if (file.newPath) {
+      // "\ No newline at end of file" on the last hunk decides, otherwise the file keeps its ending
+      const marker = file.hunks[file.hunks.length - 1]?.noNewlineAtEnd
+      const finalNewline = marker?.new ? false : marker?.old ? true : before === null || before === '' || before.endsWith('\n')
+      contents.set(file.newPath, joinLines(lines, before?.includes('\r\n') ? '\r\n' : '\n', finalNewline))
+      const encoding = file.oldPath ? encodings.get(file.oldPath) : undefined
+      if (encoding) encodings.set(file.newPath, encoding)
+    }
+
+    const notes = describePlacements(placements)
+    const status = !file.oldPath ? 'A' : !file.newPath ? 'D' : file.oldPath !== file.newPath ? 'R' : 'M'
+    const name = status === 'R' ? `${file.oldPath} -> ${file.newPath}` : path
+    summary.push(`${status} ${name}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`)
+  }
+
+  const setContent = async (path: string, content: string | null) => {
+    const filePath = resolvePath(path, workingDir)
+    if (content === null) {
+      await unlink(filePath)
+    } else {
+      await mkdir(dirname(filePath), { recursive: true })
+      await writeTextFile(filePath, content, encodings.get(path) ?? { encoding: 'utf8', bom: false })
+    }
+  }
+
+  const written: string[] = []
+  try {
+    for (const [path, content] of contents) {
+      if (content === originals.get(path)) continue
+      written.push(path)
+      await setContent(path, content)
+    }
+  } catch (error) {
+    // All or nothing - put back what was already written (the failed file may be half-written too)
+    const unrestored: string[] = []
+    for (const path of written.reverse()) {
+      try {
+        const original = originals.get(path) ?? null
+        if (original !== null || await stat(resolvePath(path, workingDir)).then(() => true, () => false)) {
+          await setContent(path, original)
+        }
+      } catch {
+        unrestored.push(path)
+      }
+    }
+    const msg = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      output: unrestored.length > 0
+        ? `Error writing the patch: ${msg}\nCould not restore: ${unrestored.join(', ')}`
+        : `Error writing the patch: ${msg}\nNothing was written.`,
+      details: { type: 'error', data: { error: msg, unrestored } }
+    }
+  }
+
+  const files: SubagentFileChange[] = []
+  for (const path of written) {
+    const before = originals.get(path) ?? null
+    const after = contents.get(path) ?? null
+    files.push({
+      path,
+      status: before === null ? 'added' : after === null ? 'deleted' : 'modified',
+      diff: await diffContent(path, before, after)
+    })
+  }
+
+  return {
+    output: `Applied patch to ${filePatches.length} file${filePatches.length === 1 ? '' : 's'}:\n${summary.join('\n')}`,
+    details: { type: 'patch', data: { files } }
+  }
+}
+
+interface BashInput {
+  command: string
+  timeout?: number
+  background?: boolean
+}
+
+// Where a tool call runs, beyond its working directory
+export interface ToolContext {
+  sessionId?: string        // Chat session - owns the persistent shell and lists the jobs
+  persistentShell?: boolean // Run bash in the session's long-lived shell
+}
+
+/**
+ * Directory a bash call runs in - the session shell's when there is one, since `cd` moves it
+ */
+export function getBashCwd(workingDir: string, context?: ToolContext): string {
+  const shellSession = context?.persistentShell ? context.sessionId : undefined
+  return (shellSession && getShellCwd(shellSession)) || workingDir
+}
+
+// How long a background job is watched before bash returns
+const JOB_START_WAIT = 1000
+
+// Combine a command's output and what happened to it, for the model
+function formatCommandOutput(
+  result: { stdout: string; stderr: string; exitCode: number | null; timedOut: boolean; interrupted: boolean },
+  timeout: number
+): string {
+  let output = ''
+  if (result.stdout) output += result.stdout
+  if (result.stderr) output += (output ? '\n\nSTDERR:\n' : 'STDERR:\n') + result.stderr
+  if (result.timedOut) output += '\n[Command timed out after ' + (timeout / 1000) + 's]'
+  if (result.interrupted) output += '\n[Command interrupted by user]'
+  if (result.exitCode !== 0 && result.exitCode !== null) output += `\n[Exit code: ${result.exitCode}]`
+  return output
+}
+
 async function bashTool(
-  input: { command: string; timeout?: number },
-  workingDir: string
+  input: BashInput,
+  workingDir: string,
+  signal?: AbortSignal,
+  context?: ToolContext
 ): Promise<ToolResult> {
   const timeout = (input.timeout || 30) * 1000
 
+  if (signal?.aborted) {
+    return {
+      output: 'Command not run: interrupted by user',
+      details: { type: 'error', data: { interrupted: true } }
+    }
+  }
+
+  const shellSession = context?.persistentShell ? context.sessionId : undefined
+
+  if (input.background) {
+    return startJobTool(input.command, workingDir, context?.sessionId, shellSession)
+  }
+
+  if (shellSession) {
+    const result = await runInShell(shellSession, input.command, workingDir, timeout, signal)
+    let output = formatCommandOutput(result, timeout)
+    if (result.reset) output = '[The previous shell had ended - this ran in a new one, so the working directory and variables were reset]\n' + output
+    if (result.exited && !result.timedOut && !result.interrupted) output += '\n[The shell exited - the next command starts a new one]'
+    if (result.timedOut || result.interrupted) output += '\n[The shell was stopped - the next command starts a new one]'
+
+    return {
+      output: output || '(no output)',
+      details: {
+        type: 'command',
+        data: {
+          command: input.command,
+          exitCode: result.exitCode,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          killed: result.timedOut,
+          interrupted: result.interrupted,
+          cwd: result.cwd
+        }
+      }
+    }
+  }
+
   return new Promise((resolve) => {
     const proc = spawn('bash', ['-c', input.command], {
       cwd: workingDir,
@@ -244,13 +527,25 @@ async function bashTool(
     let stdout = ''
     let stderr = ''
     let killed = false
+    let interrupted = false
 
-    const timer = setTimeout(() => {
-      killed = true
+    const terminate = () => {
       proc.kill('SIGTERM')
       setTimeout(() => proc.kill('SIGKILL'), 1000)
+    }
+
+    const timer = setTimeout(() => {
+      killed = true
+      terminate()
     }, timeout)
 
+    // Kill the child process if the turn is cancelled
+    const onAbort = () => {
+      interrupted = true
+      terminate()
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
     proc.stdout.on('data', (data) => {
       stdout += data.toString()
       // Truncate if too large
@@ -268,12 +563,9 @@ async function bashTool(
 
     proc.on('close', (code) => {
       clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
 
-      let output = ''
-      if (stdout) output += stdout
-      if (stderr) output += (output ? '\n\nSTDERR:\n' : 'STDERR:\n') + stderr
-      if (killed) output += '\n[Command timed out after ' + (timeout / 1000) + 's]'
-      if (code !== 0 && code !== null) output += `\n[Exit code: ${code}]`
+      const output = formatCommandOutput({ stdout, stderr, exitCode: code, timedOut: killed, interrupted }, timeout)
 
       resolve({
         output: output || '(no output)',
@@ -284,7 +576,8 @@ async function bashTool(
             exitCode: code,
             stdout,
             stderr,
-            killed
+            killed,
+            interrupted
           }
         }
       })
@@ -292,6 +585,7 @@ async function bashTool(
 
     proc.on('error', (error) => {
       clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
       resolve({
         output: `Error executing command: ${error.message}`,
         details: { type: 'error', data: { error: error.message } }
@@ -300,6 +594,402 @@ async function bashTool(
   })
 }
 
+// Describe a job's state: "running, pid 123" or "exited with code 1"
+function describeJobStatus(job: JobSummary): string {
+  if (job.status === 'running') return `running, pid ${job.pid}`
+  if (job.status === 'killed') return 'killed'
+  return job.exitCode === null ? 'exited' : `exited with code ${job.exitCode}`
+}
+
+function formatJobOutput(read: JobOutput): string {
+  const { job } = read
+  let output = `${job.id} (${describeJobStatus(job)}): ${job.command}`
+  if (read.skipped > 0) output += `\n[${read.skipped} earlier characters skipped]`
+  output += read.output ? `\n${read.output.replace(/\n$/, '')}` : '\n(no new output)'
+  return output
+}
+
+/**
+ * Start a command as a background job and show what it printed at first
+ * With a persistent shell it starts from the shell's directory and variables
+ */
+async function startJobTool(
+  command: string,
+  workingDir: string,
+  sessionId?: string,
+  shellSession?: string
+): Promise<ToolResult> {
+  const shell = shellSession ? await getShellEnvironment(shellSession) : null
+  const job = startJob({ command, cwd: shell?.cwd ?? workingDir, env: shell?.env, sessionId })
+
+  await new Promise(resolve => setTimeout(resolve, JOB_START_WAIT))
+  const read = readNewJobOutput(job.id, sessionId)
+
+  let output = formatJobOutput(read)
+  if (read.job.status === 'running') {
+    output = `Started ${output}\n[Running in the background - use job_output to read new output, job_input to write to its stdin and job_kill to stop it]`
+  }
+  return {
+    output,
+    details: { type: 'job', data: read }
+  }
+}
+
+async function jobOutputTool(
+  input: { jobId?: string; wait?: number },
+  signal?: AbortSignal,
+  context?: ToolContext
+): Promise<ToolResult> {
+  if (!input.jobId) {
+    const jobs = listJobs(context?.sessionId)
+    if (jobs.length === 0) {
+      return { output: 'No background jobs' }
+    }
+    return {
+      output: jobs.map(job => `${job.id} (${describeJobStatus(job)}): ${job.command}`).join('\n')
+    }
+  }
+
+  try {
+    if (input.wait) {
+      await waitForJob(input.jobId, context?.sessionId, Math.min(input.wait, 60) * 1000, signal)
+    }
+    const read = readNewJobOutput(input.jobId, context?.sessionId)
+    return {
+      output: formatJobOutput(read),
+      details: { type: 'job', data: read }
+    }
+  } catch (error) {
+    return {
+      output: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: { type: 'error', data: { jobId: input.jobId } }
+    }
+  }
+}
+
+function jobInputTool(
+  input: { jobId: string; input: string; newline?: boolean; close?: boolean },
+  context?: ToolContext
+): ToolResult {
+  try {
+    const text = input.newline === false ? input.input : `${input.input}\n`
+    const job = writeJobInput(input.jobId, context?.sessionId, text, input.close)
+    return {
+      output: `Wrote ${text.length} characters to ${job.id}${input.close ? ' and closed its stdin' : ''} - use job_output to see its response`
+    }
+  } catch (error) {
+    return {
+      output: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: { type: 'error', data: { jobId: input.jobId } }
+    }
+  }
+}
+
+async function jobKillTool(input: { jobId: string }, context?: ToolContext): Promise<ToolResult> {
+  try {
+    await killJob(input.jobId, context?.sessionId)
+    const read = readNewJobOutput(input.jobId, context?.sessionId)
+    return {
+      output: formatJobOutput(read),
+      details: { type: 'job', data: read }
+    }
+  } catch (error) {
+    return {
+      output: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      details: { type: 'error', data: { jobId: input.jobId } }
+    }
+  }
+}
+
+// Search limits
+const DEFAULT_MAX_RESULTS = 100
+const MAX_RESULTS_LIMIT = 1000
+const MAX_MATCH_LINE_CHARS = 300
+const MAX_GREP_FILE_BYTES = 1_000_000
+
+// Extensions for grep's `type` filter
+const FILE_TYPES: Record<string, string[]> = {
+  ts: ['ts', 'tsx', 'mts', 'cts'],
+  js: ['js', 'jsx', 'mjs', 'cjs'],
+  py: ['py', 'pyi'],
+  go: ['go'],
+  rust: ['rs'],
+  java: ['java'],
+  c: ['c', 'h'],
+  cpp: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'h'],
+  ruby: ['rb'],
+  php: ['php'],
+  css: ['css', 'scss', 'sass', 'less'],
+  html: ['html', 'htm'],
+  json: ['json'],
+  yaml: ['yaml', 'yml'],
+  md: ['md', 'markdown'],
+  sh: ['sh', 'bash', 'zsh'],
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_MATCH_LINE_CHARS ? `${line.slice(0, MAX_MATCH_LINE_CHARS)}...` : line
+}
+
+function searchLimit(maxResults: number | undefined): number {
+  return Math.min(Math.max(1, maxResults || DEFAULT_MAX_RESULTS), MAX_RESULTS_LIMIT)
+}
+
+/**
+ * Resolve the directory or file a search starts from
+ * Returns the files to look at, relative to `root`
+ */
+async function searchTargets(
+  path: string,
+  workingDir: string,
+  signal?: AbortSignal
+): Promise<{ root: string; files: string[] } | ToolResult> {
+  const target = resolvePath(path, workingDir)
+  try {
+    const targetStat = await stat(target)
+    if (targetStat.isFile()) {
+      return { root: dirname(target), files: [relative(dirname(target), target)] }
+    }
+    return { root: target, files: await listFiles(target, signal) }
+  } catch {
+    return {
+      output: `Error: ${path} not found`,
+      details: { type: 'error', data: { notFound: true } }
+    }
+  }
+}
+
+interface GrepInput {
+  pattern: string
+  path?: string
+  glob?: string
+  type?: string
+  ignoreCase?: boolean
+  context?: number
+  maxResults?: number
+}
+
+async function grepTool(input: GrepInput, workingDir: string, signal?: AbortSignal): Promise<ToolResult> {
+  let regex: RegExp
+  try {
+    regex = new RegExp(input.pattern, input.ignoreCase ? 'i' : '')
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      output: `Error: invalid pattern: ${msg}`,
+      details: { type: 'error', data: { error: msg } }
+    }
+  }
+
+  const extensions = input.type ? FILE_TYPES[input.type] : undefined
+  if (input.type && !extensions) {
+    return {
+      output: `Error: unknown type "${input.type}". Known types: ${Object.keys(FILE_TYPES).join(', ')}`,
+      details: { type: 'error', data: { unknownType: input.type } }
+    }
+  }
+
+  const targets = await searchTargets(input.path || '.', workingDir, signal)
+  if ('output' in targets) return targets
+
+  const matchesGlob = input.glob ? createGlobMatcher(input.glob) : () => true
+  const context = Math.min(Math.max(0, input.context || 0), 10)
+  const limit = searchLimit(input.maxResults)
+
+  const matches: SearchMatch[] = []
+  const outputLines: string[] = []
+  let truncated = false
+
+  for (const file of targets.files) {
+    if (signal?.aborted || truncated) break
+    if (!matchesGlob(file)) continue
+    if (extensions && !extensions.includes(file.slice(file.lastIndexOf('.') + 1))) continue
+
+    const filePath = join(targets.root, file)
+    let lines: string[]
+    try {
+      if ((await stat(filePath)).size > MAX_GREP_FILE_BYTES || await isBinaryFile(filePath)) continue
+      lines = (await readFile(filePath, 'utf-8')).split('\n')
+    } catch {
+      continue
+    }
+    if (lines[lines.length - 1] === '') lines.pop()
+
+    const hits: number[] = []
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i]!)) continue
+      if (matches.length + hits.length >= limit) {
+        truncated = true
+        break
+      }
+      hits.push(i)
+    }
+    if (hits.length === 0) continue
+
+    // ripgrep-style output: "path:line: text" for matches, "path-line- text" for context
+    const displayPath = relative(workingDir, filePath)
+    const hitSet = new Set(hits)
+    let printed = -1
+    for (const i of hits) {
+      const start = Math.max(0, i - context)
+      const end = Math.min(lines.length - 1, i + context)
+      // Separate groups that don't touch, within a file and across files
+      if (context > 0 && outputLines.length > 0 && (printed < 0 || start > printed + 1)) {
+        outputLines.push('--')
+      }
+      for (let j = Math.max(start, printed + 1); j <= end; j++) {
+        const sep = hitSet.has(j) ? ':' : '-'
+        outputLines.push(`${displayPath}${sep}${j + 1}${sep} ${clipLine(lines[j]!)}`)
+      }
+      printed = Math.max(printed, end)
+
+      matches.push({
+        path: displayPath,
+        line: i + 1,
+        match: clipLine(lines[i]!),
+        ...(context > 0 && {
+          before: lines.slice(start, i).map(clipLine),
+          after: lines.slice(i + 1, end + 1).map(clipLine)
+        })
+      })
+    }
+  }
+
+  const results: SearchResults = { tool: 'grep', pattern: input.pattern, matches, truncated }
+  let output = outputLines.length > 0
+    ? outputLines.join('\n')
+    : `No matches for /${input.pattern}/ in ${input.path || '.'}`
+  if (truncated) output += `\n\n[Showing the first ${limit} matches - narrow the search or raise maxResults]`
+  if (signal?.aborted) output += '\n[Search interrupted by user]'
+
+  return { output, details: { type: 'search', data: results } }
+}
+
+async function globTool(
+  input: { pattern: string; path?: string; maxResults?: number },
+  workingDir: string,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  const targets = await searchTargets(input.path || '.', workingDir, signal)
+  if ('output' in targets) return targets
+
+  const matchesGlob = createGlobMatcher(input.pattern)
+  const limit = searchLimit(input.maxResults)
+
+  const matches: SearchMatch[] = []
+  let truncated = false
+  for (const file of targets.files) {
+    if (!matchesGlob(file)) continue
+    // Skip tracked files deleted from the working tree
+    const filePath = join(targets.root, file)
+    if (!await exists(filePath)) continue
+    if (matches.length >= limit) {
+      truncated = true
+      break
+    }
+    matches.push({ path: relative(workingDir, filePath) })
+  }
+
+  const results: SearchResults = { tool: 'glob', pattern: input.pattern, matches, truncated }
+  let output = matches.length > 0
+    ? matches.map(m => m.path).join('\n')
+    : `No files match ${input.pattern} in ${input.path || '.'}`
+  if (truncated) output += `\n\n[Showing the first ${limit} files - narrow the pattern or raise maxResults]`
+
+  return { output, details: { type: 'search', data: results } }
+}
+
+// Directory listing limits
+const DEFAULT_TREE_DEPTH = 2
+const MAX_TREE_DEPTH = 10
+const DEFAULT_TREE_LIMIT = 200
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// How an entry reads in the listing, e.g. "src/ (12 entries)" or "index.ts (2.1 KB)"
+function formatTreeEntry(entry: TreeEntry): string {
+  switch (entry.type) {
+    case 'directory':
+      if (entry.entryCount === undefined) return `${entry.name}/`
+      return `${entry.name}/ (${entry.entryCount} ${entry.entryCount === 1 ? 'entry' : 'entries'})`
+    case 'symlink':
+      return `${entry.name}@`
+    default:
+      return entry.size !== undefined ? `${entry.name} (${formatSize(entry.size)})` : entry.name
+  }
+}
+
+// Entries in display order with their depth
+function flattenTree(entries: TreeEntry[], depth: number = 0, into: { entry: TreeEntry; depth: number }[] = []) {
+  for (const entry of entries) {
+    into.push({ entry, depth })
+    if (entry.children) flattenTree(entry.children, depth + 1, into)
+  }
+  return into
+}
+
+async function listDirectoryTool(
+  input: { path?: string; depth?: number; offset?: number; limit?: number },
+  workingDir: string
+): Promise<ToolResult> {
+  const path = input.path || '.'
+  const dirPath = resolvePath(path, workingDir)
+  const depth = Math.min(Math.max(1, input.depth || DEFAULT_TREE_DEPTH), MAX_TREE_DEPTH)
+  const offset = Math.max(0, input.offset || 0)
+  const limit = Math.max(1, input.limit || DEFAULT_TREE_LIMIT)
+
+  try {
+    if (!(await stat(dirPath)).isDirectory()) {
+      return {
+        output: `Error: ${path} is a file - use read_file to read it`,
+        details: { type: 'error', data: { notDirectory: true } }
+      }
+    }
+
+    const tree = await readTree(dirPath, depth)
+    const flat = flattenTree(tree.entries)
+    const page = flat.slice(offset, offset + limit)
+
+    // Rebuild the page as a tree, with paths relative to the working directory
+    const entries: TreeEntry[] = []
+    const parents: TreeEntry[] = []
+    for (const { entry, depth: level } of page) {
+      const shown: TreeEntry = { ...entry, path: relative(workingDir, join(dirPath, entry.path)), children: entry.children && [] }
+      parents.length = Math.min(parents.length, level)
+      const parent = parents[parents.length - 1]
+      if (parent && parents.length === level) {
+        parent.children!.push(shown)
+      } else {
+        // Its directory is on an earlier page - name it by its path
+        entries.push(level > 0 ? { ...shown, name: entry.path } : shown)
+      }
+      if (shown.children) parents[level] = shown
+    }
+
+    const lines = flattenTree(entries).map(({ entry, depth: level }) => `${'  '.repeat(level)}${formatTreeEntry(entry)}`)
+    let output = lines.length > 0 ? lines.join('\n') : `${path} is empty`
+    if (offset + page.length < flat.length) {
+      output += `\n\n[Showing entries ${offset + 1}-${offset + page.length} of ${flat.length} - use offset ${offset + page.length} for more]`
+    }
+    if (tree.truncated) {
+      output += `\n[Listing stopped at ${flat.length} entries - list a subdirectory or lower the depth]`
+    }
+
+    const data: DirectoryTree = { path, entries, offset, total: flat.length }
+    return { output, details: { type: 'tree', data } }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      output: `Error listing ${path}: ${msg}`,
+      details: { type: 'error', data: { error: msg } }
+    }
+  }
+}
+
 // SCUD tool types
 interface ScudInput {
   action: 'list' | 'show' | 'set-status' | 'next' | 'stats' | 'parse-prd' | 'expand'
@@ -370,7 +1060,7 @@ function parseScudOutput(action: string, output: string): Record<string, unknown
 }
 
 // SCUD tool implementation
-async function scudTool(input: ScudInput, workingDir: string): Promise<ToolResult> {
+async function scudTool(input: ScudInput, workingDir: string, signal?: AbortSignal): Promise<ToolResult> {
   // Build command based on action
   let command = 'scud'
 
@@ -448,7 +1138,8 @@ async function scudTool(input: ScudInput, workingDir: string): Promise<ToolResul
   return new Promise((resolve) => {
     const proc = spawn('bash', ['-c', command], {
       cwd: workingDir,
-      env: process.env
+      env: process.env,
+      signal
     })
 
     let stdout = ''
@@ -492,11 +1183,90 @@ async function scudTool(input: ScudInput, workingDir: string): Promise<ToolResul
   })
 }
 
+// SCUD actions that only read task state
+const READ_ONLY_SCUD_ACTIONS = ['list', 'show', 'stats']
+
+/**
+ * Check if a tool call only reads state, so it can run alongside other reads
+ */
+export function isReadOnlyTool(name: string, input: Record<string, unknown>): boolean {
+  if (isMCPTool(name)) {
+    return isReadOnlyMCPTool(name)
+  }
+
+  switch (name) {
+    case 'read_file':
+    case 'list_directory':
+    case 'grep':
+    case 'glob':
+    case 'scratchpad_read':
+    case 'job_output':
+      return true
+    case 'scud':
+      return READ_ONLY_SCUD_ACTIONS.includes(input.action as string)
+    default:
+      return false
+  }
+}
+
+// Commands that only read - used by plan mode to allow exploration through bash
+const READ_ONLY_COMMANDS = [
+  'ls', 'cat', 'head', 'tail', 'wc', 'grep', 'rg', 'find', 'tree', 'file', 'stat',
+  'du', 'df', 'pwd', 'which', 'echo', 'diff', 'sort', 'uniq', 'cut', 'basename', 'dirname', 'realpath'
+]
+const READ_ONLY_GIT_COMMANDS = ['status', 'log', 'diff', 'show', 'blame', 'ls-files', 'rev-parse']
+// Git commands that also write when given arguments - only these listing flags are allowed
+const GIT_LISTING_FLAGS: Record<string, string[]> = {
+  branch: ['-a', '-r', '-v', '-vv', '--all', '--list', '--show-current'],
+  remote: ['-v']
+}
+// Flags that make a read-only program write or run something (sort -o out, rg --pre=cmd)
+const WRITE_FLAGS: Record<string, RegExp> = {
+  find: /\s-(exec|execdir|delete|ok|fprint|fls)/,
+  sort: /\s(-[a-zA-Z]*o|--output|--compress-program)/,
+  rg: /\s--pre\b/,
+  tree: /\s-o\b/,
+  git: /\s--output\b/
+}
+
+/**
+ * Check if a shell command only reads state
+ * Conservative: every part of a pipeline or command list must be a known read-only
+ * program, and redirects, substitutions and write flags (find -delete) are rejected
+ */
+export function isReadOnlyCommand(command: string): boolean {
+  if (command.includes('>') || hasShellSubstitution(command)) {
+    return false
+  }
+
+  const segments = splitShellCommand(command)
+  return segments.length > 0 && segments.every(segment => {
+    const [program = '', subcommand, ...args] = segment.split(/\s+/)
+    if (WRITE_FLAGS[program]?.test(segment)) {
+      return false
+    }
+    if (program === 'git') {
+      const listingFlags = GIT_LISTING_FLAGS[subcommand || '']
+      if (listingFlags) {
+        return args.every(arg => listingFlags.includes(arg))
+      }
+      return READ_ONLY_GIT_COMMANDS.includes(subcommand || '')
+    }
+    // "uniq in out" writes its second file
+    if (program === 'uniq' && [subcommand, ...args].filter(arg => arg && !arg.startsWith('-')).length > 1) {
+      return false
+    }
+    return READ_ONLY_COMMANDS.includes(program)
+  })
+}
+
 // Main tool executor
 export async function executeTool(
   name: string,
   input: Record<string, unknown>,
-  workingDir: string
+  workingDir: string,
+  signal?: AbortSignal,
+  context?: ToolContext
 ): Promise<ToolResult> {
   // Check if this is an MCP tool
   if (isMCPTool(name)) {
@@ -510,10 +1280,26 @@ export async function executeTool(
       return writeFileTool(input as { path: string; content: string }, workingDir)
     case 'edit_file':
       return editFileTool(input as { path: string; oldText: string; newText: string }, workingDir)
+    case 'list_directory':
+      return listDirectoryTool(input as { path?: string; depth?: number; offset?: number; limit?: number }, workingDir)
+    case 'grep':
+      return grepTool(input as unknown as GrepInput, workingDir, signal)
+    case 'glob':
+      return globTool(input as { pattern: string; path?: string; maxResults?: number }, workingDir, signal)
+    case 'multi_edit':
+      return multiEditTool(input as unknown as MultiEditInput, workingDir)
+    case 'apply_patch':
+      return applyPatchTool(input as { patch: string }, workingDir)
     case 'bash':
-      return bashTool(input as { command: string; timeout?: number }, workingDir)
+      return bashTool(input as unknown as BashInput, workingDir, signal, context)
+    case 'job_output':
+      return jobOutputTool(input as { jobId?: string; wait?: number }, signal, context)
+    case 'job_input':
+      return jobInputTool(input as { jobId: string; input: string; newline?: boolean; close?: boolean }, context)
+    case 'job_kill':
+      return jobKillTool(input as { jobId: string }, context)
     case 'scud':
-      return scudTool(input as ScudInput, workingDir)
+      return scudTool(input as ScudInput, workingDir, signal)
     default:
       return {
         output: `Unknown tool: ${name}`,
@@ -1,10 +1,15 @@
 import type { ProviderName } from './providers/types'
+import type { PermissionRule } from './config'
 
 // Message types for conversation history
 export interface Message {
   role: 'user' | 'assistant'
   content: string
   toolCalls?: ToolCall[]
+  interrupted?: boolean  // Turn was stopped by the user before completing
+  turnId?: string        // Checkpoint of the files this turn changed (assistant messages)
+  usage?: UsageBreakdown // Tokens this turn used, its subagents' included (assistant messages)
+  hitMaxIterations?: boolean  // Turn paused at the iteration limit and can be continued
 }
 
 export interface ToolCall {
@@ -17,6 +22,29 @@ export interface ToolCall {
   error?: string
 }
 
+// Tokens used, with the estimated cost in dollars if any of the models has a price
+export interface UsageTotals {
+  inputTokens: number
+  outputTokens: number
+  cost?: number
+}
+
+// Usage of a turn - the main agent's role is "main"
+export interface UsageBreakdown {
+  total: UsageTotals
+  byRole: Record<string, UsageTotals>
+  byModel: Record<string, UsageTotals>
+  bySubagent: Record<string, UsageTotals & { role: string; model: string }>
+}
+
+// One of the budgets in config.json and how much of it is used
+export interface BudgetUsage {
+  scope: 'turn' | 'session' | 'daily'
+  unit: 'tokens' | 'cost'  // Cost is in estimated dollars
+  limit: number
+  used: number
+}
+
 // Structured tool result - keeps LLM context lean, UI data separate
 export interface ToolResult {
   output: string        // For LLM (concise)
@@ -24,12 +52,132 @@ export interface ToolResult {
 }
 
 export interface ToolResultDetails {
-  type: 'file' | 'diff' | 'command' | 'error' | 'subagent'
+  type: 'file' | 'diff' | 'patch' | 'command' | 'error' | 'subagent' | 'search' | 'tree' | 'job'
   data: unknown
 }
 
-// Subagent types
-export type SubagentRole = 'simple' | 'complex' | 'researcher'
+// An entry of a directory listing
+export interface TreeEntry {
+  name: string
+  path: string            // Relative to the working directory
+  type: 'file' | 'directory' | 'symlink'
+  size?: number           // Bytes, files only
+  entryCount?: number     // Directories below the depth limit: how many entries they hold
+  children?: TreeEntry[]  // Directories within the depth limit
+}
+
+// The data of 'tree' details - one page of a directory listing
+export interface DirectoryTree {
+  path: string
+  entries: TreeEntry[]  // Entries whose directory is on an earlier page start at the top level
+  offset: number
+  total: number         // Entries in the whole listing
+}
+
+// A grep match or glob result - the data of 'search' details
+export interface SearchMatch {
+  path: string        // Relative to the working directory
+  line?: number       // 1-indexed, grep only
+  match?: string      // The matching line, grep only
+  before?: string[]   // Context lines
+  after?: string[]
+}
+
+export interface SearchResults {
+  tool: 'grep' | 'glob'
+  pattern: string
+  matches: SearchMatch[]
+  truncated: boolean  // More matches than maxResults
+}
+
+// A command started in the background with bash
+export interface JobSummary {
+  id: string
+  command: string
+  cwd: string
+  pid?: number
+  status: 'running' | 'exited' | 'killed'
+  exitCode?: number | null
+  sessionId?: string   // Session whose agent started it
+  startedAt: string
+  endedAt?: string
+  outputLength: number // Characters of output so far, including ones no longer kept
+}
+
+// The data of 'job' details - a job and the output a tool call read from it
+export interface JobOutput {
+  job: JobSummary
+  output: string
+  offset: number       // Where `output` starts in the job's output
+  skipped: number      // Characters between the previous read and `offset` that were left out
+}
+
+// Record of older turns being summarized to stay inside the context window
+export interface CompactionRecord {
+  id: string
+  createdAt: string
+  trigger: 'auto' | 'manual'
+  provider: ProviderName
+  model: string
+  contextWindow: number
+  compactedMessages: number  // Leading session messages replaced by the summary
+  tokensBefore: number       // Estimated context size before compaction
+  tokensAfter: number        // Estimated context size after compaction
+  summary: string
+}
+
+// Files changed during one turn, saved so the turn can be undone
+export interface CheckpointFile {
+  path: string        // Relative to the working directory (absolute if outside it)
+  existed: boolean    // False if the turn created the file - restoring deletes it
+  snapshot?: string   // Saved content, relative to the turn's checkpoint directory
+  tool: string        // Tool call that changed it first
+  toolId: string
+  createdAt: string
+  restoredAt?: string
+}
+
+export interface Checkpoint {
+  sessionId: string
+  turnId: string
+  createdAt: string
+  files: CheckpointFile[]
+  restoredAt?: string  // Set when the whole turn was undone
+}
+
+// Session modes - plan mode only explores and ends with a plan for approval
+export type SessionMode = 'plan' | 'execute'
+
+export interface PlanStep {
+  id: string
+  text: string
+}
+
+export interface Plan {
+  id: string
+  summary: string
+  steps: PlanStep[]
+  status: 'proposed' | 'approved'
+  createdAt: string
+  approvedAt?: string
+}
+
+// Tool approval types
+export type ApprovalDecision = 'once' | 'session' | 'always' | 'deny'
+
+export interface ToolApprovalRequest {
+  toolId: string
+  toolName: string
+  input: Record<string, unknown>
+  rule: PermissionRule  // Rule saved by "allow for session" / "always allow"
+  taskId?: string       // Set when the call comes from a subagent
+}
+
+// Subagent types - a built-in role (simple, complex, researcher) or one the project defines
+export type SubagentRole = string
+
+// Where a subagent edits files: the shared working directory, or its own git worktree
+export type SubagentIsolation = 'shared' | 'worktree'
 
 export interface SubagentTask {
   id: string
@@ -39,6 +187,62 @@ export interface SubagentTask {
   // User can override these in confirmation
   provider?: ProviderName
   model?: string
+  isolation?: SubagentIsolation  // Overrides the role's isolation
+  dependsOn?: string[]           // Tasks that must complete first - their summaries are added to the context
+  outputSchema?: Record<string, unknown>  // JSON Schema the subagent's result output must match
+}
+
+// A file a subagent wrote or edited, with the edits as a diff
+// A file a subagent created, modified or deleted
+export interface SubagentFileChange {
+  path: string
+  status: 'added' | 'modified' | 'deleted'
+  diff: string  // Unified diff from the content before the subagent first touched it
+}
+
+export interface SubagentCommand {
+  command: string
+  exitCode: number | null
+}
+
+// Structured result a subagent finishes with
+// Status, summary, questions and output come from the subagent (submit_result);
+// commands are collected from its tool calls
+export interface SubagentReport {
+  status: 'success' | 'partial' | 'failed'
+  summary: string
+  commands: SubagentCommand[]
+  openQuestions: string[]
+  output?: unknown  // Matches the task's outputSchema
+}
+
+// Entry in the scratchpad shared by the subagents of a session
+export interface ScratchpadEntry {
+  id: number         // 1, 2, ... in the order they were written
+  taskId: string     // Subagent that wrote it
+  author: string     // Its role and task description
+  text: string
+  createdAt: string
+}
+
+// Temporary git worktree a subagent works in
+export interface WorktreeInfo {
+  path: string
+  branch: string
+  baseCommit: string  // Commit the worktree started from - changes are diffed against it
+  merged?: string[]   // Files already merged into the working directory - left out of the diff
+  createdAt: string
+}
+
+export interface WorktreeFile {
+  path: string
+  status: 'A' | 'M' | 'D' | 'R' | 'C' | 'T'  // git --name-status letter
+}
+
+// A worktree's changes, for review before merging them back
+export interface WorktreeChanges extends WorktreeInfo {
+  files: WorktreeFile[]
+  patch: string
 }
 
 export interface SubagentResult {
@@ -55,17 +259,32 @@ export type AgentEvent =
   | { type: 'text_delta'; delta: string }
   | { type: 'tool_start'; id: string; name: string }
   | { type: 'tool_input_delta'; id: string; partialJson: string }
+  | { type: 'tool_input'; id: string; input: Record<string, unknown> }
   | { type: 'tool_running'; id: string; metadata?: { title?: string } }
   | { type: 'tool_result'; id: string; output: string; details?: ToolResultDetails; error?: string }
-  | { type: 'turn_complete'; usage?: { inputTokens: number; outputTokens: number } }
+  | { type: 'turn_complete'; usage?: UsageBreakdown }
   | { type: 'error'; error: string }
   | { type: 'retry_countdown'; seconds: number; reason: string }
+  | { type: 'compaction'; record: CompactionRecord }
+  | { type: 'context_usage'; model: string; usedTokens: number; contextWindow: number }
+  | { type: 'interrupted'; usage?: UsageBreakdown }
+  | { type: 'max_iterations'; iterations: number; usage?: UsageBreakdown }  // The turn paused and can be continued
+  | { type: 'tool_approval_request'; requestId: string; request: ToolApprovalRequest }
+  | { type: 'plan_proposed'; plan: Plan }
+  | { type: 'budget_warning'; requestId: string; budget: BudgetUsage }  // Waiting for the user to go on or stop
+  | { type: 'budget_exceeded'; budget: BudgetUsage; declined: boolean; message: string; usage?: UsageBreakdown }
   // Subagent events
   | { type: 'subagent_request'; tasks: SubagentTask[] }
   | { type: 'subagent_confirmed'; tasks: SubagentTask[] }
   | { type: 'subagent_cancelled'; taskIds: string[] }
-  | { type: 'subagent_start'; taskId: string; description: string; role: SubagentRole }
-  | { type: 'subagent_progress'; taskId: string; event: AgentEvent }
-  | { type: 'subagent_complete'; taskId: string; summary: string; fullHistory: Message[] }
+  | { type: 'subagent_start'; taskId: string; description: string; role: SubagentRole; dependsOn?: string[] }
+  | { type: 'subagent_progress'; taskId: string; event: AgentEvent; timestamp?: number }
+  | { type: 'subagent_usage'; taskId: string; role: SubagentRole; model: string; usage: UsageTotals }  // Its total so far
+  | { type: 'subagent_complete'; taskId: string; summary: string; report: SubagentReport; changes: SubagentFileChange[]; fullHistory: Message[]; worktree?: WorktreeChanges }
   | { type: 'subagent_error'; taskId: string; error: string; fullHistory: Message[] }
   | { type: 'subagent_max_iterations'; taskId: string; iterations: number; fullHistory: Message[] }
+  | { type: 'subagent_message'; taskId: string; message: string; from: string }  // Delivered from its inbox
+  | { type: 'scratchpad_entry'; entry: ScratchpadEntry }
+  | { type: 'subagent_interrupted'; taskId: string; fullHistory: Message[]; reason?: string }  // reason if not stopped by the user
+  | { type: 'subagent_queued'; taskId: string; description: string; role: SubagentRole; position: number; dependsOn?: string[] }
+  | { type: 'subagent_timeout'; taskId: string; timeout: number; fullHistory: Message[] }
@@ -0,0 +1,95 @@
+/**
+ * Token Usage and Cost
+ *
+ * Every provider response reports the tokens it used. The main agent and each
+ * subagent add theirs to the turn's ledger, which breaks the total down by role
+ * ("main" for the main agent), by model and by subagent. Subagents of a turn -
+ * nested ones included - share the ledger through their tree.
+ *
+ * Costs are estimates from the configured price table (`pricing` in config.json).
+ * Tokens of models without a price are counted but cost nothing.
+ */
+
+import type { ModelPrice } from './config'
+import type { UsageBreakdown, UsageTotals } from './types'
+
+/**
+ * Estimated cost in dollars - undefined if the model has no price
+ */
+export function estimateCost(
+  model: string,
+  usage: { inputTokens: number; outputTokens: number },
+  pricing: Record<string, ModelPrice>
+): number | undefined {
+  const price = pricing[model]
+  if (!price) return undefined
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+/**
+ * Sum of two usages - the cost stays unknown only if both are
+ */
+export function addUsage(a: UsageTotals | undefined, b: UsageTotals): UsageTotals {
+  const cost = a?.cost === undefined && b.cost === undefined
+    ? undefined
+    : (a?.cost ?? 0) + (b.cost ?? 0)
+  return {
+    inputTokens: (a?.inputTokens ?? 0) + b.inputTokens,
+    outputTokens: (a?.outputTokens ?? 0) + b.outputTokens,
+    ...(cost !== undefined && { cost })
+  }
+}
+
+/**
+ * Add each entry of `from` to the entry with the same key in `into`
+ */
+export function addUsageByKey(into: Record<string, UsageTotals>, from: Record<string, UsageTotals>): void {
+  for (const [key, usage] of Object.entries(from)) {
+    into[key] = addUsage(into[key], usage)
+  }
+}
+
+/**
+ * Sum of two breakdowns - for a turn that was continued
+ */
+export function mergeUsageBreakdown(a: UsageBreakdown | undefined, b: UsageBreakdown): UsageBreakdown {
+  const merged = structuredClone(a) ?? { total: { inputTokens: 0, outputTokens: 0 }, byRole: {}, byModel: {}, bySubagent: {} }
+  merged.total = addUsage(merged.total, b.total)
+  addUsageByKey(merged.byRole, b.byRole)
+  addUsageByKey(merged.byModel, b.byModel)
+  for (const [taskId, usage] of Object.entries(b.bySubagent)) {
+    merged.bySubagent[taskId] = { ...addUsage(merged.bySubagent[taskId], usage), role: usage.role, model: usage.model }
+  }
+  return merged
+}
+
+/**
+ * Usage of one turn of the main agent, or of a continued subagent
+ */
+export class UsageLedger {
+  private usage: UsageBreakdown = { total: { inputTokens: 0, outputTokens: 0 }, byRole: {}, byModel: {}, bySubagent: {} }
+
+  /**
+   * Record one provider response - `taskId` is set for a subagent's
+   */
+  add(role: string, model: string, usage: UsageTotals, taskId?: string): void {
+    const { byRole, byModel, bySubagent } = this.usage
+    this.usage.total = addUsage(this.usage.total, usage)
+    byRole[role] = addUsage(byRole[role], usage)
+    byModel[model] = addUsage(byModel[model], usage)
+    if (taskId) {
+      bySubagent[taskId] = { ...addUsage(bySubagent[taskId], usage), role, model }
+    }
+  }
+
+  total(): UsageTotals {
+    return { ...this.usage.total }
+  }
+
+  /**
+   * Copy of the breakdown so far
+   */
+  summary(): UsageBreakdown {
+    return structuredClone(this.usage)
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Worktree Isolation
+ *
+ * Subagents with `isolation: 'worktree'` run in a temporary git worktree on
+ * their own branch, so parallel subagents can't overwrite each other's edits.
+ * The worktree starts from the current HEAD - uncommitted changes in the main
+ * working directory are not in it.
+ *
+ * When the subagent finishes, its changes are collected as a diff against the
+ * starting commit. The user then merges them into the working directory (all,
+ * or selected files) or discards the worktree.
+ */
+
+import { spawn } from 'child_process'
+import { copyFile, mkdir } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { exists } from './tools'
+import type { WorktreeChanges, WorktreeFile, WorktreeInfo } from './types'
+
+const WORKTREES_DIR = join(tmpdir(), 'agent-worktrees')
+const BRANCH_PREFIX = 'agent/'
+
+// Settings the subagent should see in its worktree (usually untracked)
+const COPIED_FILES = ['.agent/config.json']
+
+interface GitResult {
+  stdout: string
+  stderr: string
+  code: number | null
+}
+
+export function git(args: string[], cwd: string, stdin?: string): Promise<GitResult> {
+  return new Promise((resolve) => {
+    const proc = spawn('git', args, { cwd, env: process.env })
+
+    let stdout = ''
+    let stderr = ''
+    proc.stdout.on('data', (data) => { stdout += data.toString() })
+    proc.stderr.on('data', (data) => { stderr += data.toString() })
+    proc.on('close', (code) => resolve({ stdout, stderr, code }))
+    proc.on('error', (error) => resolve({ stdout, stderr: error.message, code: -1 }))
+
+    if (stdin !== undefined) {
+      proc.stdin.write(stdin)
+    }
+    proc.stdin.end()
+  })
+}
+
+async function gitOrThrow(args: string[], cwd: string, stdin?: string): Promise<string> {
+  const result = await git(args, cwd, stdin)
+  if (result.code !== 0) {
+    throw new Error(`git ${args[0]} failed: ${(result.stderr || result.stdout).trim()}`)
+  }
+  return result.stdout
+}
+
+/**
+ * Check whether a directory is inside a git repository with at least one commit
+ */
+export async function canUseWorktree(workingDir: string): Promise<boolean> {
+  const result = await git(['rev-parse', '--verify', 'HEAD'], workingDir)
+  return result.code === 0
+}
+
+/**
+ * Create a worktree for a subagent on a new branch from HEAD
+ */
+export async function createWorktree(workingDir: string, taskId: string): Promise<WorktreeInfo> {
+  const baseCommit = (await gitOrThrow(['rev-parse', 'HEAD'], workingDir)).trim()
+  const path = join(WORKTREES_DIR, taskId)
+  const branch = `${BRANCH_PREFIX}${taskId}`
+
+  await mkdir(WORKTREES_DIR, { recursive: true })
+  await gitOrThrow(['worktree', 'add', '-b', branch, path, baseCommit], workingDir)
+
+  for (const file of COPIED_FILES) {
+    if (await exists(join(workingDir, file))) {
+      await mkdir(dirname(join(path, file)), { recursive: true })
+      await copyFile(join(workingDir, file), join(path, file))
+    }
+  }
+
+  return { path, branch, baseCommit, createdAt: new Date().toISOString() }
+}
+
+/**
+ * Stage everything in the worktree so new files show up in the diff
+ * The copied settings files are left out
+ */
+async function stageAll(worktree: WorktreeInfo): Promise<void> {
+  await gitOrThrow(['add', '-A', '--', '.', ...COPIED_FILES.map(file => `:!${file}`)], worktree.path)
+}
+
+// Pathspec for the changes still waiting for review (optionally only `files`)
+function pendingPathspec(worktree: WorktreeInfo, files: string[] = []): string[] {
+  return ['--', ...(files.length > 0 ? files : ['.']), ...(worktree.merged ?? []).map(file => `:!${file}`)]
+}
+
+/**
+ * Collect the worktree's changes against the commit it started from
+ * Includes commits the subagent made on its branch as well as uncommitted edits,
+ * minus files that were already merged
+ */
+export async function collectWorktreeChanges(worktree: WorktreeInfo): Promise<WorktreeChanges> {
+  await stageAll(worktree)
+
+  const nameStatus = await gitOrThrow(['diff', '--cached', '--name-status', worktree.baseCommit, ...pendingPathspec(worktree)], worktree.path)
+  const files: WorktreeFile[] = nameStatus
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const [status, ...paths] = line.split('\t')
+      return { path: paths[paths.length - 1]!, status: status!.charAt(0) as WorktreeFile['status'] }
+    })
+
+  const patch = await gitOrThrow(['diff', '--cached', worktree.baseCommit, ...pendingPathspec(worktree)], worktree.path)
+
+  return { ...worktree, files, patch }
+}
+
+/**
+ * Apply the worktree's changes (or only `files`) to the main working directory
+ * Fails without changing anything if the patch doesn't apply cleanly
+ */
+export async function mergeWorktree(workingDir: string, worktree: WorktreeInfo, files?: string[]): Promise<string[]> {
+  await stageAll(worktree)
+
+  const pathspec = pendingPathspec(worktree, files)
+  const patch = await gitOrThrow(['diff', '--cached', '--binary', worktree.baseCommit, ...pathspec], worktree.path)
+  if (!patch.trim()) {
+    return []
+  }
+
+  await gitOrThrow(['apply', '--whitespace=nowarn', '-'], workingDir, patch)
+
+  const merged = await gitOrThrow(['diff', '--cached', '--name-only', worktree.baseCommit, ...pathspec], worktree.path)
+  return merged.split('\n').filter(Boolean)
+}
+
+/**
+ * Remove a subagent's worktree and its branch
+ */
+export async function removeWorktree(workingDir: string, worktree: WorktreeInfo): Promise<void> {
+  await git(['worktree', 'remove', '--force', worktree.path], workingDir)
+  await git(['branch', '-D', worktree.branch], workingDir)
+}